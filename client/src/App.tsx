@@ -5,14 +5,22 @@ import Dashboard from "@/pages/dashboard";
 import InventoryPage from "@/pages/inventory";
 import InventoryMovements from "@/pages/inventory/movements";
 import InventoryAdjustments from "@/pages/inventory/adjustments";
+import InventoryTransfers from "@/pages/inventory/transfers";
+import InventoryCounts from "@/pages/inventory/counts";
+import InventoryExpiry from "@/pages/inventory/expiry";
+import SerialLookupPage from "@/pages/inventory/serials";
+import InventoryValuation from "@/pages/inventory/valuation";
 import ProductsPage from "@/pages/products";
 import ProductCategoriesPage from "@/pages/products/categories";
 import UnitsOfMeasurePage from "@/pages/products/uom";
 import OrdersPage from "@/pages/orders";
+import OrderDetailPage from "@/pages/order-detail";
+import CustomersPage from "@/pages/customers";
 import WarehousesPage from "@/pages/warehouses";
 import UsersPage from "@/pages/users";
 import SettingsPage from "@/pages/settings";
 import AuthPage from "@/pages/auth-page";
+import ResetPasswordPage from "@/pages/reset-password";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
 import { QueryClientProvider } from "@tanstack/react-query";
@@ -25,14 +33,22 @@ function Router() {
       <ProtectedRoute path="/inventory" component={InventoryPage} />
       <ProtectedRoute path="/inventory/movements" component={InventoryMovements} />
       <ProtectedRoute path="/inventory/adjustments" component={InventoryAdjustments} />
+      <ProtectedRoute path="/inventory/transfers" component={InventoryTransfers} />
+      <ProtectedRoute path="/inventory/counts" component={InventoryCounts} />
+      <ProtectedRoute path="/inventory/expiry" component={InventoryExpiry} />
+      <ProtectedRoute path="/inventory/serials" component={SerialLookupPage} />
+      <ProtectedRoute path="/inventory/valuation" component={InventoryValuation} />
       <ProtectedRoute path="/products" component={ProductsPage} />
       <ProtectedRoute path="/products/categories" component={ProductCategoriesPage} />
       <ProtectedRoute path="/products/uom" component={UnitsOfMeasurePage} />
       <ProtectedRoute path="/orders" component={OrdersPage} />
+      <ProtectedRoute path="/orders/:id" component={OrderDetailPage} />
+      <ProtectedRoute path="/customers" component={CustomersPage} />
       <ProtectedRoute path="/warehouses" component={WarehousesPage} />
       <ProtectedRoute path="/users" component={UsersPage} />
       <ProtectedRoute path="/settings" component={SettingsPage} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,96 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { AuditLogEntry } from "@shared/schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+
+type AuditEntryResponse = AuditLogEntry & { actorName: string | null };
+
+const ACTION_STYLES: Record<string, string> = {
+  CREATE: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  UPDATE: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  DELETE: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+  RESTORE: "bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100",
+  PURGE: "bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-100",
+};
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+interface HistoryDrawerProps {
+  entityType: string;
+  entityId: string | number | null;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Audit trail of one record, newest first
+export function HistoryDrawer({ entityType, entityId, title, open, onOpenChange }: HistoryDrawerProps) {
+  const params = new URLSearchParams({ entityType, entityId: String(entityId ?? "") });
+  const { data: entries, isLoading } = useQuery<AuditEntryResponse[]>({
+    queryKey: [`/api/audit?${params.toString()}`],
+    enabled: open && entityId !== null,
+  });
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>{title}</SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="mt-4 h-[calc(100vh-8rem)] pr-4">
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : entries && entries.length > 0 ? (
+            <ol className="space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.id} className="rounded-lg border p-3">
+                  <div className="flex items-center justify-between">
+                    <Badge className={ACTION_STYLES[entry.action]}>{entry.action}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.occurredAt), "MMM d, yyyy HH:mm:ss")}
+                    </span>
+                  </div>
+                  <p className="mt-2 text-sm">
+                    by <span className="font-medium">{entry.actorName || "System"}</span>
+                    {entry.apiTokenId && <span className="text-muted-foreground"> via API token</span>}
+                  </p>
+                  {entry.action === "UPDATE" && Object.keys(entry.changes).length > 0 && (
+                    <table className="mt-2 w-full text-xs">
+                      <tbody>
+                        {Object.entries(entry.changes).map(([field, change]) => (
+                          <tr key={field} className="border-t align-top">
+                            <td className="py-1 pr-2 font-medium">{field}</td>
+                            <td className="py-1 pr-2 text-red-600 dark:text-red-400 break-all">{formatValue(change.from)}</td>
+                            <td className="py-1 text-green-600 dark:text-green-400 break-all">{formatValue(change.to)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="p-6 text-center text-sm text-muted-foreground">No history recorded yet</p>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
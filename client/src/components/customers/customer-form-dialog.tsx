@@ -0,0 +1,386 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  CUSTOMER_ADDRESS_TYPES,
+  PAYMENT_TERMS,
+  type CustomerAddressType,
+  type CustomerWithDetails,
+  type PaymentTerms,
+  type Warehouse,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeDeleteError } from "@/components/trash/trash-dialog";
+
+export const PAYMENT_TERM_LABELS: Record<PaymentTerms, string> = {
+  PREPAID: "Prepaid",
+  DUE_ON_RECEIPT: "Due on receipt",
+  NET_15: "Net 15",
+  NET_30: "Net 30",
+  NET_60: "Net 60",
+};
+
+const NO_WAREHOUSE = "_none";
+
+type ContactDraft = { name: string; role: string; email: string; phone: string; isPrimary: boolean };
+type AddressDraft = {
+  addressType: CustomerAddressType;
+  label: string;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  postalCode: string;
+  isDefault: boolean;
+};
+
+const emptyContact = (): ContactDraft => ({ name: "", role: "", email: "", phone: "", isPrimary: false });
+const emptyAddress = (addressType: CustomerAddressType): AddressDraft => ({
+  addressType,
+  label: "",
+  address: "",
+  city: "",
+  state: "",
+  country: "",
+  postalCode: "",
+  isDefault: false,
+});
+
+function toDraft(customer: CustomerWithDetails | null) {
+  return {
+    code: customer?.code ?? "",
+    name: customer?.name ?? "",
+    taxId: customer?.taxId ?? "",
+    paymentTerms: customer?.paymentTerms ?? "NET_30",
+    creditLimit: customer?.creditLimit ?? "",
+    defaultWarehouseId: customer?.defaultWarehouseId ?? NO_WAREHOUSE,
+    notes: customer?.notes ?? "",
+    isActive: customer?.isActive ?? true,
+    contacts: (customer?.contacts ?? []).map((contact) => ({
+      name: contact.name,
+      role: contact.role ?? "",
+      email: contact.email ?? "",
+      phone: contact.phone ?? "",
+      isPrimary: contact.isPrimary,
+    })),
+    addresses: (customer?.addresses ?? []).map((address) => ({
+      addressType: address.addressType,
+      label: address.label ?? "",
+      address: address.address,
+      city: address.city ?? "",
+      state: address.state ?? "",
+      country: address.country ?? "",
+      postalCode: address.postalCode ?? "",
+      isDefault: address.isDefault,
+    })),
+  };
+}
+
+// Empty optional fields are sent as null rather than ""
+const orNull = (value: string) => value.trim() || null;
+
+interface CustomerFormDialogProps {
+  // null creates a new customer
+  customer: CustomerWithDetails | null;
+  warehouses: Warehouse[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CustomerFormDialog({ customer, warehouses, open, onOpenChange }: CustomerFormDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(() => toDraft(customer));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        code: draft.code,
+        name: draft.name,
+        taxId: orNull(draft.taxId),
+        paymentTerms: draft.paymentTerms,
+        creditLimit: orNull(draft.creditLimit),
+        defaultWarehouseId: draft.defaultWarehouseId === NO_WAREHOUSE ? null : draft.defaultWarehouseId,
+        notes: orNull(draft.notes),
+        isActive: draft.isActive,
+        contacts: draft.contacts.map((contact) => ({
+          name: contact.name,
+          role: orNull(contact.role),
+          email: orNull(contact.email),
+          phone: orNull(contact.phone),
+          isPrimary: contact.isPrimary,
+        })),
+        addresses: draft.addresses.map((address) => ({
+          addressType: address.addressType,
+          label: orNull(address.label),
+          address: address.address,
+          city: orNull(address.city),
+          state: orNull(address.state),
+          country: orNull(address.country),
+          postalCode: orNull(address.postalCode),
+          isDefault: address.isDefault,
+        })),
+      };
+      if (customer) {
+        await apiRequest("PUT", `/api/customers/${customer.id}`, payload);
+      } else {
+        await apiRequest("POST", "/api/customers", payload);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      if (customer) {
+        queryClient.invalidateQueries({ queryKey: [`/api/customers/${customer.id}`] });
+      }
+      toast({ title: customer ? "Customer updated" : "Customer created", description: draft.name });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save customer: ${describeDeleteError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setContact = (index: number, changes: Partial<ContactDraft>) =>
+    setDraft((current) => ({
+      ...current,
+      contacts: current.contacts.map((contact, i) =>
+        i === index ? { ...contact, ...changes } : changes.isPrimary ? { ...contact, isPrimary: false } : contact
+      ),
+    }));
+
+  // Making an address the default clears the flag on the others of its type
+  const setAddress = (index: number, changes: Partial<AddressDraft>) =>
+    setDraft((current) => {
+      const type = changes.addressType ?? current.addresses[index].addressType;
+      return {
+        ...current,
+        addresses: current.addresses.map((address, i) =>
+          i === index
+            ? { ...address, ...changes }
+            : changes.isDefault && address.addressType === type ? { ...address, isDefault: false } : address
+        ),
+      };
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer ? `Edit ${customer.name}` : "New Customer"}</DialogTitle>
+          <DialogDescription>
+            The default shipping and billing addresses and the default warehouse are filled in on new orders
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="customer-code">Code</Label>
+            <Input
+              id="customer-code"
+              className="font-mono"
+              value={draft.code}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="customer-name">Name</Label>
+            <Input id="customer-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="customer-tax-id">Tax ID</Label>
+            <Input id="customer-tax-id" value={draft.taxId} onChange={(e) => setDraft({ ...draft, taxId: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Payment terms</Label>
+            <Select
+              value={draft.paymentTerms}
+              onValueChange={(value) => setDraft({ ...draft, paymentTerms: value as PaymentTerms })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_TERMS.map((terms) => (
+                  <SelectItem key={terms} value={terms}>
+                    {PAYMENT_TERM_LABELS[terms]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="customer-credit-limit">Credit limit</Label>
+            <Input
+              id="customer-credit-limit"
+              type="number"
+              min="0"
+              placeholder="No limit"
+              value={draft.creditLimit}
+              onChange={(e) => setDraft({ ...draft, creditLimit: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default warehouse</Label>
+            <Select
+              value={draft.defaultWarehouseId}
+              onValueChange={(value) => setDraft({ ...draft, defaultWarehouseId: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_WAREHOUSE}>None</SelectItem>
+                {warehouses.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 sm:col-span-2">
+            <Label htmlFor="customer-notes">Notes</Label>
+            <Textarea id="customer-notes" value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="customer-active"
+              checked={draft.isActive}
+              onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })}
+            />
+            <Label htmlFor="customer-active">Active</Label>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">Contacts</h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setDraft({ ...draft, contacts: [...draft.contacts, emptyContact()] })}
+            >
+              <Plus className="mr-2 h-4 w-4" /> Add contact
+            </Button>
+          </div>
+          {draft.contacts.map((contact, index) => (
+            <div key={index} className="grid gap-2 sm:grid-cols-[1fr_1fr_1fr_1fr_auto_auto] items-center">
+              <Input placeholder="Name" value={contact.name} onChange={(e) => setContact(index, { name: e.target.value })} />
+              <Input placeholder="Role" value={contact.role} onChange={(e) => setContact(index, { role: e.target.value })} />
+              <Input placeholder="Email" value={contact.email} onChange={(e) => setContact(index, { email: e.target.value })} />
+              <Input placeholder="Phone" value={contact.phone} onChange={(e) => setContact(index, { phone: e.target.value })} />
+              <label className="flex items-center gap-1 text-sm">
+                <Checkbox
+                  checked={contact.isPrimary}
+                  onCheckedChange={(checked) => setContact(index, { isPrimary: checked === true })}
+                />
+                Primary
+              </label>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Remove contact"
+                onClick={() => setDraft({ ...draft, contacts: draft.contacts.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">Addresses</h3>
+            <div className="flex gap-2">
+              {CUSTOMER_ADDRESS_TYPES.map((type) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setDraft({ ...draft, addresses: [...draft.addresses, emptyAddress(type)] })}
+                >
+                  <Plus className="mr-2 h-4 w-4" /> {type === "SHIPPING" ? "Shipping" : "Billing"} address
+                </Button>
+              ))}
+            </div>
+          </div>
+          {draft.addresses.map((address, index) => (
+            <div key={index} className="grid gap-2 rounded-md border p-3 sm:grid-cols-4">
+              <div className="sm:col-span-4 flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {address.addressType === "SHIPPING" ? "Shipping" : "Billing"} address
+                </span>
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1 text-sm">
+                    <Checkbox
+                      checked={address.isDefault}
+                      onCheckedChange={(checked) => setAddress(index, { isDefault: checked === true })}
+                    />
+                    Default
+                  </label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title="Remove address"
+                    onClick={() => setDraft({ ...draft, addresses: draft.addresses.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Input placeholder="Label" value={address.label} onChange={(e) => setAddress(index, { label: e.target.value })} />
+              <Input
+                className="sm:col-span-3"
+                placeholder="Street address"
+                value={address.address}
+                onChange={(e) => setAddress(index, { address: e.target.value })}
+              />
+              <Input placeholder="City" value={address.city} onChange={(e) => setAddress(index, { city: e.target.value })} />
+              <Input placeholder="State" value={address.state} onChange={(e) => setAddress(index, { state: e.target.value })} />
+              <Input placeholder="Postal code" value={address.postalCode} onChange={(e) => setAddress(index, { postalCode: e.target.value })} />
+              <Input placeholder="Country" value={address.country} onChange={(e) => setAddress(index, { country: e.target.value })} />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!draft.code.trim() || !draft.name.trim() || saveMutation.isPending}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
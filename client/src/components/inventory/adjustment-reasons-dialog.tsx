@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { AdjustmentReason } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Power } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { describeDeleteError } from "@/components/trash/trash-dialog";
+
+interface AdjustmentReasonsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Reason codes offered on adjustments; deactivating one keeps it on existing documents
+export function AdjustmentReasonsDialog({ open, onOpenChange }: AdjustmentReasonsDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+
+  const { data: reasons, isLoading } = useQuery<AdjustmentReason[]>({
+    queryKey: ["/api/adjustment-reasons"],
+    enabled: open,
+  });
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${describeDeleteError(error)}`,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/adjustment-reasons", { code, name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/adjustment-reasons"] });
+      setCode("");
+      setName("");
+    },
+    onError: onError("add reason"),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (reason: AdjustmentReason) => {
+      await apiRequest("PUT", `/api/adjustment-reasons/${reason.id}`, { isActive: !reason.isActive });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/adjustment-reasons"] }),
+    onError: onError("update reason"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Adjustment Reasons</DialogTitle>
+          <DialogDescription>
+            Every adjustment records one of these codes. Inactive reasons can no longer be chosen.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[60px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reasons?.map((reason) => (
+                  <TableRow key={reason.id} className={reason.isActive ? "" : "opacity-50"}>
+                    <TableCell className="font-mono">{reason.code}</TableCell>
+                    <TableCell>{reason.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={reason.isActive ? "default" : "secondary"}>
+                        {reason.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title={reason.isActive ? "Deactivate" : "Activate"}
+                        onClick={() => toggleActiveMutation.mutate(reason)}
+                      >
+                        <Power className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            className="w-40 font-mono"
+            placeholder="CODE"
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase().replace(/[^A-Z0-9_]/g, ""))}
+          />
+          <Input placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!code || !name.trim() || createMutation.isPending}
+          >
+            {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,45 @@
+import { NEGATIVE_STOCK_POLICIES, type NegativeStockPolicy } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const NEGATIVE_STOCK_POLICY_LABELS: Record<NegativeStockPolicy, string> = {
+  BLOCK: "Block overdraws",
+  WARN: "Warn and allow",
+  ALLOW: "Allow negative stock",
+};
+
+// Select items cannot carry null, so "inherit" stands in for it
+const INHERIT = "_inherit";
+
+interface NegativeStockPolicySelectProps {
+  value: NegativeStockPolicy | null | undefined;
+  onChange: (value: NegativeStockPolicy | null) => void;
+  // Offer "use the warehouse policy" (null), for category overrides
+  allowInherit?: boolean;
+}
+
+export function NegativeStockPolicySelect({ value, onChange, allowInherit }: NegativeStockPolicySelectProps) {
+  return (
+    <Select
+      value={value ?? INHERIT}
+      onValueChange={(selected) => onChange(selected === INHERIT ? null : (selected as NegativeStockPolicy))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowInherit && <SelectItem value={INHERIT}>Use warehouse policy</SelectItem>}
+        {NEGATIVE_STOCK_POLICIES.map((policy) => (
+          <SelectItem key={policy} value={policy}>
+            {NEGATIVE_STOCK_POLICY_LABELS[policy]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import type { Order, OrderItem, Product } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { TableCell, TableRow } from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+
+type Edit = (method: "POST" | "PUT" | "DELETE", url: string, data?: Record<string, unknown>) => void;
+
+interface OrderDetailsFormProps {
+  order: Order;
+  disabled: boolean;
+  onEdit: Edit;
+}
+
+// Addresses and notes of an order that can still be edited
+export function OrderDetailsForm({ order, disabled, onEdit }: OrderDetailsFormProps) {
+  const [shippingAddress, setShippingAddress] = useState(order.shippingAddress ?? "");
+  const [billingAddress, setBillingAddress] = useState(order.billingAddress ?? "");
+  const [notes, setNotes] = useState(order.notes ?? "");
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      <div className="space-y-2">
+        <Label htmlFor="shippingAddress">Shipping address</Label>
+        <Textarea id="shippingAddress" value={shippingAddress} onChange={(e) => setShippingAddress(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="billingAddress">Billing address</Label>
+        <Textarea id="billingAddress" value={billingAddress} onChange={(e) => setBillingAddress(e.target.value)} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+      </div>
+      <div className="sm:col-span-3 flex justify-end">
+        <Button
+          disabled={disabled}
+          onClick={() => onEdit("PUT", `/api/orders/${order.id}`, {
+            shippingAddress: shippingAddress || null,
+            billingAddress: billingAddress || null,
+            notes: notes || null,
+          })}
+        >
+          <Save className="mr-2 h-4 w-4" /> Save details
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface OrderLineRowProps {
+  item: OrderItem;
+  productName: string;
+  disabled: boolean;
+  onEdit: Edit;
+}
+
+// An order line whose quantity, discount and tax are saved when the field is left
+export function EditableOrderLineRow({ item, productName, disabled, onEdit }: OrderLineRowProps) {
+  const url = `/api/orders/${item.orderId}/items/${item.id}`;
+  const saveField = (field: "quantity" | "discountPercent" | "taxRate", value: string) => {
+    if (value !== "" && Number(value) !== Number(item[field])) {
+      onEdit("PUT", url, { [field]: value });
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>{productName}</TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-24 text-right"
+          defaultValue={item.quantity}
+          disabled={disabled}
+          onBlur={(e) => saveField("quantity", e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">${parseFloat(item.unitPrice).toFixed(2)}</TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-20 text-right"
+          defaultValue={item.discountPercent}
+          disabled={disabled}
+          onBlur={(e) => saveField("discountPercent", e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-20 text-right"
+          defaultValue={item.taxRate}
+          disabled={disabled}
+          onBlur={(e) => saveField("taxRate", e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <div className="flex items-center justify-end gap-2">
+          ${parseFloat(item.totalPrice).toFixed(2)}
+          <Button size="sm" variant="ghost" title="Remove line" disabled={disabled} onClick={() => onEdit("DELETE", url)}>
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+interface AddOrderLineRowProps {
+  orderId: number;
+  products: Product[];
+  disabled: boolean;
+  pending: boolean;
+  onEdit: Edit;
+}
+
+// Lines are priced by the server from the catalog, so only the product and amounts are entered
+export function AddOrderLineRow({ orderId, products, disabled, pending, onEdit }: AddOrderLineRowProps) {
+  const [productId, setProductId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [discountPercent, setDiscountPercent] = useState("");
+  const [taxRate, setTaxRate] = useState("");
+
+  const add = () => {
+    onEdit("POST", `/api/orders/${orderId}/items`, {
+      productId: Number(productId),
+      quantity,
+      discountPercent: discountPercent || 0,
+      taxRate: taxRate || 0,
+    });
+    setProductId("");
+    setQuantity("");
+    setDiscountPercent("");
+    setTaxRate("");
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        <Select value={productId} onValueChange={setProductId} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add product" />
+          </SelectTrigger>
+          <SelectContent>
+            {products.map((product) => (
+              <SelectItem key={product.id} value={String(product.id)}>
+                {product.sku} — {product.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-24 text-right"
+          placeholder="Qty"
+          value={quantity}
+          disabled={disabled}
+          onChange={(e) => setQuantity(e.target.value)}
+        />
+      </TableCell>
+      <TableCell />
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-20 text-right"
+          placeholder="%"
+          value={discountPercent}
+          disabled={disabled}
+          onChange={(e) => setDiscountPercent(e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Input
+          type="number"
+          className="ml-auto w-20 text-right"
+          placeholder="%"
+          value={taxRate}
+          disabled={disabled}
+          onChange={(e) => setTaxRate(e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" disabled={disabled || !productId || !(Number(quantity) > 0)} onClick={add}>
+          {pending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Add
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
@@ -0,0 +1,102 @@
+import type { OrderStatus } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertTriangle,
+  ClipboardCheck,
+  FileText,
+  PackageCheck,
+  ShoppingCart,
+  TruckIcon,
+} from "lucide-react";
+
+// What the button that moves an order into each status says
+export const ORDER_STATUS_ACTIONS: Record<OrderStatus, string> = {
+  DRAFT: "Back to draft",
+  PENDING: "Submit order",
+  PROCESSING: "Process order",
+  SHIPPED: "Mark shipped",
+  COMPLETED: "Complete order",
+  CANCELLED: "Cancel order",
+};
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  switch (status) {
+    case "DRAFT":
+      return (
+        <Badge variant="outline" className="bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100">
+          <FileText className="mr-1 h-3 w-3" /> Draft
+        </Badge>
+      );
+    case "PENDING":
+      return (
+        <Badge variant="outline" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100">
+          <ShoppingCart className="mr-1 h-3 w-3" /> Pending
+        </Badge>
+      );
+    case "PROCESSING":
+      return (
+        <Badge variant="outline" className="bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100">
+          <PackageCheck className="mr-1 h-3 w-3" /> Processing
+        </Badge>
+      );
+    case "SHIPPED":
+      return (
+        <Badge variant="outline" className="bg-indigo-100 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100">
+          <TruckIcon className="mr-1 h-3 w-3" /> Shipped
+        </Badge>
+      );
+    case "COMPLETED":
+      return (
+        <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
+          <ClipboardCheck className="mr-1 h-3 w-3" /> Completed
+        </Badge>
+      );
+    case "CANCELLED":
+      return (
+        <Badge variant="outline" className="bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100">
+          <AlertTriangle className="mr-1 h-3 w-3" /> Cancelled
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline">
+          {status}
+        </Badge>
+      );
+  }
+}
+
+export function OrderTypeBadge({ type }: { type: string }) {
+  switch (type) {
+    case "INBOUND":
+      return (
+        <Badge className="bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
+          Inbound
+        </Badge>
+      );
+    case "OUTBOUND":
+      return (
+        <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100">
+          Outbound
+        </Badge>
+      );
+    case "TRANSFER":
+      return (
+        <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-800 dark:text-purple-100">
+          Transfer
+        </Badge>
+      );
+    case "RETURN":
+      return (
+        <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100">
+          Return
+        </Badge>
+      );
+    default:
+      return (
+        <Badge>
+          {type}
+        </Badge>
+      );
+  }
+}
@@ -0,0 +1,155 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ActiveSession = {
+  id: string;
+  current: boolean;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+};
+
+// Rough "Browser on OS" label; good enough to recognise one's own devices
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : "Browser";
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : "unknown OS";
+  return `${browser} on ${os}`;
+}
+
+function isMobile(userAgent: string | null) {
+  return !!userAgent && /Android|iPhone|iPad|Mobile/.test(userAgent);
+}
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Session revoked",
+        description: "That device has been signed out",
+      });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Signed out other devices",
+        description: `${data.revoked} session(s) revoked`,
+      });
+    },
+    onError,
+  });
+
+  const hasOtherSessions = !!sessions?.some((session) => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">Active Sessions</h3>
+          <p className="text-sm text-muted-foreground">
+            Devices currently signed in to your account
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => revokeOthersMutation.mutate()}
+          disabled={!hasOtherSessions || revokeOthersMutation.isPending}
+        >
+          {revokeOthersMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="mr-2 h-4 w-4" />
+          )}
+          Sign Out Other Devices
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions?.map((session) => {
+            const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center justify-between rounded-lg border p-4">
+                <div className="flex items-center gap-3">
+                  <DeviceIcon className="h-5 w-5 text-muted-foreground" />
+                  <div className="space-y-0.5">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium">{describeDevice(session.userAgent)}</h4>
+                      {session.current && <Badge variant="outline">This device</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {session.ip || "Unknown IP"}
+                      {session.lastSeenAt &&
+                        ` · Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeMutation.mutate(session.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
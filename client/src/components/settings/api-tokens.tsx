@@ -0,0 +1,327 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import type { ApiToken, Warehouse } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+type ApiTokenResponse = Omit<ApiToken, "tokenHash">;
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+export function ApiTokens() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  // Empty selection means the token inherits all of the owner's warehouses
+  const [warehouseIds, setWarehouseIds] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<ApiTokenResponse[]>({
+    queryKey: ["/api/api-tokens"],
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const resetForm = () => {
+    setName("");
+    setPermissions([]);
+    setWarehouseIds([]);
+    setExpiry("90");
+  };
+
+  const toggle = <T,>(list: T[], item: T, checked: boolean) =>
+    checked ? [...list, item] : list.filter((entry) => entry !== item);
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const expiresAt = expiry === "never"
+        ? null
+        : new Date(Date.now() + parseInt(expiry) * 24 * 60 * 60 * 1000).toISOString();
+      const res = await apiRequest("POST", "/api/api-tokens", {
+        name,
+        permissions,
+        warehouseIds: warehouseIds.length > 0 ? warehouseIds : null,
+        expiresAt,
+      });
+      return (await res.json()) as ApiTokenResponse & { token: string };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      setIsCreateOpen(false);
+      resetForm();
+      setCreatedToken(data.token);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create token: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Requests using this token will now be rejected",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to revoke token: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    toast({
+      title: "Copied",
+      description: "Token copied to clipboard",
+    });
+  };
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-medium">API Tokens</h3>
+          <p className="text-sm text-muted-foreground">
+            Send a token as <code>Authorization: Bearer &lt;token&gt;</code> to call the API from scanners and integrations
+          </p>
+        </div>
+        <Button type="button" onClick={() => setIsCreateOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Token
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center p-4">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : tokens && tokens.length > 0 ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Token</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead className="w-[80px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.map((token) => {
+              const isExpired = !!token.expiresAt && new Date(token.expiresAt) <= new Date();
+              return (
+                <TableRow key={token.id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-sm">{token.tokenPrefix}…</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {token.permissions.map((permission) => (
+                        <Badge key={permission} variant="outline">{permission}</Badge>
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {token.warehouseIds
+                        ? token.warehouseIds.map(warehouseName).join(", ")
+                        : "All my warehouses"}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    {token.expiresAt ? (
+                      <span className={isExpired ? "text-red-600 dark:text-red-400" : undefined}>
+                        {isExpired ? "Expired " : ""}
+                        {format(new Date(token.expiresAt), "MMM d, yyyy")}
+                      </span>
+                    ) : (
+                      "Never"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {token.lastUsedAt
+                      ? `${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ""}`
+                      : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(token.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="rounded-lg border p-6 text-center text-sm text-muted-foreground">
+          You have no API tokens
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) resetForm(); }}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+            <DialogDescription>
+              A token can only do what you can do, limited to the permissions and warehouses selected here.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-token-name">Name</Label>
+              <Input
+                id="api-token-name"
+                placeholder="e.g. Dock scanner 3"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Permissions</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {user?.permissions.map((permission) => (
+                  <label key={permission} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={permissions.includes(permission)}
+                      onCheckedChange={(checked) => setPermissions(toggle(permissions, permission, checked === true))}
+                    />
+                    <span>{permission}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Warehouses</Label>
+              <p className="text-xs text-muted-foreground">Leave empty to allow all warehouses you can access</p>
+              <div className="grid grid-cols-2 gap-2">
+                {warehouses?.map((warehouse) => (
+                  <label key={warehouse.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={warehouseIds.includes(warehouse.id)}
+                      onCheckedChange={(checked) => setWarehouseIds(toggle(warehouseIds, warehouse.id, checked === true))}
+                    />
+                    <span>{warehouse.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!name.trim() || permissions.length === 0 || createMutation.isPending}
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              Create Token
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={createdToken !== null} onOpenChange={(open) => !open && setCreatedToken(null)}>
+        <DialogContent className="sm:max-w-[525px]">
+          <DialogHeader>
+            <DialogTitle>Copy your new token</DialogTitle>
+            <DialogDescription>
+              This is the only time the token is shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block rounded-md border bg-muted p-3 font-mono text-sm break-all">
+            {createdToken}
+          </code>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyToken}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button onClick={() => setCreatedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
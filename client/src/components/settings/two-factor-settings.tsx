@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, KeyRound, Loader2, Shield, ShieldOff } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type TwoFactorStatus = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+// Which confirmation dialog is open; each asks for a current authenticator code
+type PendingAction = "enable" | "regenerate" | "disable" | null;
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const closeDialog = () => {
+    setPendingAction(null);
+    setSetup(null);
+    setCode("");
+    setPassword("");
+  };
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    // twoFactorSetupRequired on the session user depends on enrollment
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setPendingAction("enable");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      closeDialog();
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You will be asked for a code when you log in",
+      });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      closeDialog();
+      setRecoveryCodes(data.recoveryCodes);
+      onChanged();
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      closeDialog();
+      onChanged();
+      toast({
+        title: "Two-factor authentication disabled",
+      });
+    },
+    onError,
+  });
+
+  const confirmMutation =
+    pendingAction === "enable"
+      ? enableMutation
+      : pendingAction === "regenerate"
+        ? regenerateMutation
+        : disableMutation;
+  const confirm = () => {
+    if (pendingAction === "enable") enableMutation.mutate();
+    else if (pendingAction === "regenerate") regenerateMutation.mutate();
+    else disableMutation.mutate();
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
+      {status?.required && !status.enabled && (
+        <div className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-md text-amber-800 dark:text-amber-200 border border-amber-200 dark:border-amber-800">
+          <p>Your role requires two-factor authentication. Enable it to continue using the system.</p>
+        </div>
+      )}
+      <div className="flex items-center justify-between rounded-lg border p-4">
+        <div className="space-y-0.5">
+          <div className="flex items-center gap-2">
+            <Shield className="h-4 w-4 text-muted-foreground" />
+            <h4 className="font-medium">Authenticator app</h4>
+            {status?.enabled && <Badge variant="outline">Enabled</Badge>}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {status?.enabled
+              ? `${status.recoveryCodesRemaining} unused recovery codes remaining`
+              : "Add an extra layer of security to your account"}
+          </p>
+        </div>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : status?.enabled ? (
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => setPendingAction("regenerate")}>
+              <KeyRound className="mr-2 h-4 w-4" />
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button type="button" variant="outline" onClick={() => setPendingAction("disable")}>
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Disable
+              </Button>
+            )}
+          </div>
+        ) : (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setupMutation.mutate()}
+            disabled={setupMutation.isPending}
+          >
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Enable
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={pendingAction !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {pendingAction === "enable"
+                ? "Set up authenticator app"
+                : pendingAction === "regenerate"
+                  ? "Generate new recovery codes"
+                  : "Disable two-factor authentication"}
+            </DialogTitle>
+            <DialogDescription>
+              {pendingAction === "enable"
+                ? "Scan the QR code with your authenticator app, then enter the 6-digit code it shows."
+                : pendingAction === "regenerate"
+                  ? "Your existing recovery codes will stop working."
+                  : "Confirm with your password and a code from your authenticator app."}
+            </DialogDescription>
+          </DialogHeader>
+          {pendingAction === "enable" && setup && (
+            <div className="flex flex-col items-center gap-2">
+              <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="h-48 w-48" />
+              <p className="text-xs text-muted-foreground">Can't scan it? Enter this key manually:</p>
+              <code className="rounded bg-muted px-2 py-1 text-sm break-all">{setup.secret}</code>
+            </div>
+          )}
+          {pendingAction === "disable" && (
+            <Input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          )}
+          <Input
+            placeholder="6-digit code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancel
+            </Button>
+            <Button
+              variant={pendingAction === "disable" ? "destructive" : "default"}
+              onClick={confirm}
+              disabled={
+                code.length !== 6 ||
+                (pendingAction === "disable" && !password) ||
+                confirmMutation.isPending
+              }
+            >
+              {confirmMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {pendingAction === "enable" ? "Verify and Enable" : pendingAction === "regenerate" ? "Generate" : "Disable"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={recoveryCodes !== null} onOpenChange={(open) => !open && setRecoveryCodes(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Save your recovery codes</DialogTitle>
+            <DialogDescription>
+              Each code can be used once to log in if you lose access to your authenticator app.
+              They will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {recoveryCodes?.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type DeletedItem = {
+  id: string | number;
+  deletedAt: string | Date | null;
+};
+
+interface TrashDialogProps<T extends DeletedItem> {
+  // Collection endpoint, e.g. "/api/warehouses"; trash and restore hang off it
+  endpoint: string;
+  title: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  getLabel: (item: T) => string;
+  getDetail?: (item: T) => string | null | undefined;
+}
+
+// Server responses are "<status>: <json body>"; a blocked delete lists what still refers to the record
+export function describeDeleteError(error: Error) {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    const parsed = JSON.parse(body) as { message?: string; blockers?: string[] };
+    if (parsed.blockers?.length) {
+      return `${parsed.message}: ${parsed.blockers.join(", ")}`;
+    }
+    return parsed.message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// Soft-deleted records of one entity, each restorable until the purge job removes it
+export function TrashDialog<T extends DeletedItem>({
+  endpoint,
+  title,
+  open,
+  onOpenChange,
+  getLabel,
+  getDetail,
+}: TrashDialogProps<T>) {
+  const { toast } = useToast();
+
+  const { data: items, isLoading } = useQuery<T[]>({
+    queryKey: [`${endpoint}/trash`],
+    enabled: open,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: T["id"]) => {
+      await apiRequest("POST", `${endpoint}/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`${endpoint}/trash`] });
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({
+        title: "Restored",
+        description: "The record is active again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[650px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Deleted records stay here until they pass the retention period and are removed permanently.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : items && items.length > 0 ? (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead className="w-[110px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      <div className="font-medium">{getLabel(item)}</div>
+                      {getDetail?.(item) && (
+                        <div className="text-xs text-muted-foreground">{getDetail(item)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {item.deletedAt ? format(new Date(item.deletedAt), "MMM d, yyyy HH:mm") : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(item.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="p-6 text-center text-sm text-muted-foreground">Trash is empty</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import {
   BoxIcon, 
   Package, 
   ShoppingCart, 
+  Contact,
   Warehouse, 
   BarChart3, 
   Users, 
@@ -18,6 +19,7 @@ import {
 import { Button } from "./button";
 import { Separator } from "./separator";
 import { useAuth } from "@/hooks/use-auth";
+import { ROLE_LABELS, getEffectiveRole } from "@shared/permissions";
 
 type MenuItemProps = {
   icon: ReactNode;
@@ -110,7 +112,7 @@ type SidebarProps = {
 
 export function Sidebar({ collapsed, onToggle, onMobileClose }: SidebarProps) {
   const [location] = useLocation();
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   
   if (!user) return null;
   
@@ -145,81 +147,133 @@ export function Sidebar({ collapsed, onToggle, onMobileClose }: SidebarProps) {
       
       {/* Navigation Items */}
       <nav className="flex-1 overflow-y-auto py-4 px-2 space-y-1">
-        <MenuItem
-          icon={<LayoutDashboard />}
-          label="Dashboard"
-          path="/"
-          active={isActive("/")}
-          onClick={onMobileClose}
-        />
-        
-        <MenuGroup
-          icon={<BoxIcon />}
-          label="Inventory"
-          defaultOpen={isActiveSubPath("/inventory")}
-          onClick={onMobileClose}
-        >
-          <SubMenuItem
-            label="Stock Overview"
-            path="/inventory"
-            active={isActive("/inventory")}
+        {hasPermission("dashboard.view") && (
+          <MenuItem
+            icon={<LayoutDashboard />}
+            label="Dashboard"
+            path="/"
+            active={isActive("/")}
             onClick={onMobileClose}
           />
-          <SubMenuItem
-            label="Stock Movements"
-            path="/inventory/movements"
-            active={isActive("/inventory/movements")}
+        )}
+        
+        {hasPermission("inventory.view") && (
+          <MenuGroup
+            icon={<BoxIcon />}
+            label="Inventory"
+            defaultOpen={isActiveSubPath("/inventory")}
             onClick={onMobileClose}
-          />
-          <SubMenuItem
-            label="Adjustments"
-            path="/inventory/adjustments"
-            active={isActive("/inventory/adjustments")}
+          >
+            <SubMenuItem
+              label="Stock Overview"
+              path="/inventory"
+              active={isActive("/inventory")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Stock Movements"
+              path="/inventory/movements"
+              active={isActive("/inventory/movements")}
+              onClick={onMobileClose}
+            />
+            {hasPermission("inventory.adjust") && (
+              <SubMenuItem
+                label="Adjustments"
+                path="/inventory/adjustments"
+                active={isActive("/inventory/adjustments")}
+                onClick={onMobileClose}
+              />
+            )}
+            <SubMenuItem
+              label="Transfers"
+              path="/inventory/transfers"
+              active={isActive("/inventory/transfers")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Cycle Counts"
+              path="/inventory/counts"
+              active={isActive("/inventory/counts")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Expiring Stock"
+              path="/inventory/expiry"
+              active={isActive("/inventory/expiry")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Serial Lookup"
+              path="/inventory/serials"
+              active={isActive("/inventory/serials")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Valuation"
+              path="/inventory/valuation"
+              active={isActive("/inventory/valuation")}
+              onClick={onMobileClose}
+            />
+          </MenuGroup>
+        )}
+        
+        {hasPermission("products.view") && (
+          <MenuGroup
+            icon={<Package />}
+            label="Products"
+            defaultOpen={isActiveSubPath("/products")}
             onClick={onMobileClose}
-          />
-        </MenuGroup>
+          >
+            <SubMenuItem
+              label="Product List"
+              path="/products"
+              active={isActive("/products")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Categories"
+              path="/products/categories"
+              active={isActive("/products/categories")}
+              onClick={onMobileClose}
+            />
+            <SubMenuItem
+              label="Units of Measure"
+              path="/products/uom"
+              active={isActive("/products/uom")}
+              onClick={onMobileClose}
+            />
+          </MenuGroup>
+        )}
         
-        <MenuGroup
-          icon={<Package />}
-          label="Products"
-          defaultOpen={isActiveSubPath("/products")}
-          onClick={onMobileClose}
-        >
-          <SubMenuItem
-            label="Product List"
-            path="/products"
-            active={isActive("/products")}
+        {hasPermission("orders.view") && (
+          <MenuItem
+            icon={<ShoppingCart />}
+            label="Orders"
+            path="/orders"
+            active={isActiveSubPath("/orders")}
             onClick={onMobileClose}
           />
-          <SubMenuItem
-            label="Categories"
-            path="/products/categories"
-            active={isActive("/products/categories")}
+        )}
+
+        {hasPermission("customers.view") && (
+          <MenuItem
+            icon={<Contact />}
+            label="Customers"
+            path="/customers"
+            active={isActiveSubPath("/customers")}
             onClick={onMobileClose}
           />
-          <SubMenuItem
-            label="Units of Measure"
-            path="/products/uom"
-            active={isActive("/products/uom")}
+        )}
+        
+        {hasPermission("warehouses.view") && (
+          <MenuItem
+            icon={<Warehouse />}
+            label="Warehouses"
+            path="/warehouses"
+            active={isActiveSubPath("/warehouses")}
             onClick={onMobileClose}
           />
-        </MenuGroup>
-        
-        <MenuItem
-          icon={<ShoppingCart />}
-          label="Orders"
-          path="/orders"
-          active={isActiveSubPath("/orders")}
-          onClick={onMobileClose}
-        />
-        
-        <MenuItem
-          icon={<Warehouse />}
-          label="Warehouses"
-          path="/warehouses"
-          active={isActiveSubPath("/warehouses")}
-          onClick={onMobileClose}
-        />
+        )}
         
         <MenuItem
           icon={<BarChart3 />}
@@ -229,13 +283,15 @@ export function Sidebar({ collapsed, onToggle, onMobileClose }: SidebarProps) {
           onClick={onMobileClose}
         />
         
-        <MenuItem
-          icon={<Users />}
-          label="User Management"
-          path="/users"
-          active={isActiveSubPath("/users")}
-          onClick={onMobileClose}
-        />
+        {hasPermission("users.view") && (
+          <MenuItem
+            icon={<Users />}
+            label="User Management"
+            path="/users"
+            active={isActiveSubPath("/users")}
+            onClick={onMobileClose}
+          />
+        )}
         
         <MenuItem
           icon={<Settings />}
@@ -260,7 +316,7 @@ export function Sidebar({ collapsed, onToggle, onMobileClose }: SidebarProps) {
                 {user.firstName} {user.lastName}
               </p>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                {user.isAdmin ? "Administrator" : "User"}
+                {ROLE_LABELS[getEffectiveRole(user)]}
               </p>
             </div>
           </div>
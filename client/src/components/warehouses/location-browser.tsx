@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  LOCATION_LEVELS,
+  LOCATION_TYPES,
+  type LocationType,
+  type Warehouse,
+  type WarehouseLocationWithStock,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Loader2, Plus, Power, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { describeDeleteError } from "@/components/trash/trash-dialog";
+
+const TYPE_STYLES: Record<LocationType, string> = {
+  PICK: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  BULK: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  STAGING: "bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100",
+  QUARANTINE: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+};
+
+type NewLocation = {
+  parentId: number | null;
+  code: string;
+  name: string;
+  locationType: LocationType;
+  capacity: string;
+};
+
+interface LocationBrowserProps {
+  warehouse: Warehouse | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function nextLevel(location: WarehouseLocationWithStock | undefined) {
+  return location ? LOCATION_LEVELS[LOCATION_LEVELS.indexOf(location.level) + 1] : "ZONE";
+}
+
+// Zone → aisle → rack → shelf → bin tree of one warehouse, with stock and capacity per location
+export function LocationBrowser({ warehouse, onOpenChange }: LocationBrowserProps) {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("warehouses.manage");
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [draft, setDraft] = useState<NewLocation | null>(null);
+  const endpoint = `/api/warehouses/${warehouse?.id}/locations`;
+
+  const { data: locations, isLoading } = useQuery<WarehouseLocationWithStock[]>({
+    queryKey: [endpoint],
+    enabled: warehouse !== null,
+  });
+
+  const childrenOf = (parentId: number | null) =>
+    locations?.filter((location) => location.parentId === parentId) ?? [];
+  const draftParent = locations?.find((location) => location.id === draft?.parentId);
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${describeDeleteError(error)}`,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (location: NewLocation) => {
+      await apiRequest("POST", endpoint, {
+        parentId: location.parentId,
+        level: nextLevel(draftParent),
+        code: location.code,
+        name: location.name || null,
+        locationType: location.locationType,
+        capacity: location.capacity ? parseFloat(location.capacity) : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      if (draft?.parentId) setExpanded(new Set(expanded).add(draft.parentId));
+      setDraft(null);
+    },
+    onError: onError("add location"),
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async (location: WarehouseLocationWithStock) => {
+      await apiRequest("PUT", `${endpoint}/${location.id}`, { isActive: !location.isActive });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [endpoint] }),
+    onError: onError("update location"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `${endpoint}/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [endpoint] }),
+    onError: onError("delete location"),
+  });
+
+  const toggle = (id: number) => {
+    const next = new Set(expanded);
+    if (!next.delete(id)) next.add(id);
+    setExpanded(next);
+  };
+
+  const startDraft = (parentId: number | null) =>
+    setDraft({ parentId, code: "", name: "", locationType: "PICK", capacity: "" });
+
+  const renderDraft = (depth: number) =>
+    draft && (
+      <div className="flex flex-wrap items-center gap-2 rounded-md border border-dashed p-2" style={{ marginLeft: depth * 20 }}>
+        <span className="text-xs font-medium text-muted-foreground w-14">{nextLevel(draftParent)}</span>
+        <Input
+          className="h-8 w-24"
+          placeholder="Code"
+          value={draft.code}
+          onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+        />
+        <Input
+          className="h-8 w-40"
+          placeholder="Name (optional)"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        />
+        <Select
+          value={draft.locationType}
+          onValueChange={(value) => setDraft({ ...draft, locationType: value as LocationType })}
+        >
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOCATION_TYPES.map((type) => (
+              <SelectItem key={type} value={type}>{type}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="h-8 w-24"
+          type="number"
+          min="0"
+          placeholder="Capacity"
+          value={draft.capacity}
+          onChange={(e) => setDraft({ ...draft, capacity: e.target.value })}
+        />
+        <Button
+          size="sm"
+          onClick={() => createMutation.mutate(draft)}
+          disabled={!draft.code.trim() || createMutation.isPending}
+        >
+          {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Add
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+      </div>
+    );
+
+  const renderNode = (location: WarehouseLocationWithStock, depth: number): JSX.Element => {
+    const children = childrenOf(location.id);
+    const isOpen = expanded.has(location.id);
+    const quantity = parseFloat(location.quantity);
+    const capacity = location.capacity ? parseFloat(location.capacity) : null;
+    return (
+      <div key={location.id} className="space-y-1">
+        <div
+          className={`flex items-center gap-2 rounded-md px-2 py-1 hover:bg-muted ${location.isActive ? "" : "opacity-50"}`}
+          style={{ marginLeft: depth * 20 }}
+        >
+          <button
+            type="button"
+            className="h-4 w-4 text-muted-foreground"
+            onClick={() => toggle(location.id)}
+            disabled={children.length === 0 && draft?.parentId !== location.id}
+          >
+            {children.length > 0 && (isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />)}
+          </button>
+          <span className="font-mono text-sm">{location.path}</span>
+          {location.name && <span className="text-sm text-muted-foreground">{location.name}</span>}
+          <Badge className={TYPE_STYLES[location.locationType]}>{location.locationType}</Badge>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {capacity !== null
+              ? `${quantity.toFixed(0)} / ${capacity.toFixed(0)}`
+              : quantity > 0 ? `${quantity.toFixed(0)} units` : ""}
+          </span>
+          {canManage && (
+            <div className="flex">
+              {location.level !== "BIN" && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title={`Add ${nextLevel(location)?.toLowerCase()}`}
+                  onClick={() => {
+                    setExpanded(new Set(expanded).add(location.id));
+                    startDraft(location.id);
+                  }}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                title={location.isActive ? "Deactivate" : "Activate"}
+                onClick={() => toggleActiveMutation.mutate(location)}
+              >
+                <Power className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                title="Delete"
+                onClick={() => deleteMutation.mutate(location.id)}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          )}
+        </div>
+        {isOpen && children.map((child) => renderNode(child, depth + 1))}
+        {draft?.parentId === location.id && renderDraft(depth + 1)}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      open={warehouse !== null}
+      onOpenChange={(open) => {
+        onOpenChange(open);
+        if (!open) setDraft(null);
+      }}
+    >
+      <DialogContent className="sm:max-w-[850px]">
+        <DialogHeader>
+          <DialogTitle>Locations · {warehouse?.name}</DialogTitle>
+          <DialogDescription>
+            Stock is stored by location. Quarantine locations never count as available stock.
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="max-h-[60vh] space-y-1 overflow-y-auto">
+            {childrenOf(null).map((zone) => renderNode(zone, 0))}
+            {draft?.parentId === null && renderDraft(0)}
+            {childrenOf(null).length === 0 && !draft && (
+              <p className="p-6 text-center text-sm text-muted-foreground">No locations defined yet</p>
+            )}
+          </div>
+        )}
+        {canManage && draft === null && (
+          <div>
+            <Button variant="outline" size="sm" onClick={() => startDraft(null)}>
+              <Plus className="mr-2 h-4 w-4" /> Add Zone
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
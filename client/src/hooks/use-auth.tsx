@@ -5,20 +5,34 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+// The API never sends the password hash or 2FA secret and attaches the effective permissions
+export type AuthUser = Omit<SelectUser, "password" | "twoFactorSecret" | "twoFactorLastCounter"> & {
+  permissions: Permission[];
+  twoFactorSetupRequired: boolean;
+};
+
+// A correct password for a 2FA account returns this instead of the user
+type LoginResponse = AuthUser | { twoFactorRequired: true };
+
 type AuthContextType = {
-  user: SelectUser | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  hasPermission: (permission: Permission) => boolean;
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  verifyTwoFactorMutation: UseMutationResult<AuthUser, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<SelectUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<AuthUser, Error, InsertUser>;
 };
 
 type LoginData = Pick<InsertUser, "username" | "password">;
 
+type TwoFactorData = { code?: string; recoveryCode?: string };
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -27,26 +41,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | null, Error>({
+  } = useQuery<AuthUser | null, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const onLoggedIn = (user: AuthUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${user.firstName || user.username}!`,
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
-      queryClient.setQueryData(["/api/user"], user);
+    onSuccess: (result: LoginResponse) => {
+      // The auth page shows the verification step when a second factor is needed
+      if ("twoFactorRequired" in result) return;
+      onLoggedIn(result);
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Login successful",
-        description: `Welcome back, ${user.firstName || user.username}!`,
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      return await res.json();
+    },
+    onSuccess: onLoggedIn,
     onError: (error: Error) => {
       toast({
-        title: "Login failed",
+        title: "Verification failed",
         description: error.message,
         variant: "destructive",
       });
@@ -58,7 +93,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/register", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Registration successful",
@@ -94,13 +129,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const hasPermission = (permission: Permission) =>
+    !!user?.permissions?.includes(permission);
+
   return (
     <AuthContext.Provider
       value={{
         user: user ?? null,
         isLoading,
         error,
+        hasPermission,
         loginMutation,
+        verifyTwoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+
+export type PasswordPolicy = {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number;
+};
+
+export function usePasswordPolicy() {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+  });
+
+  // Human-readable summary, e.g. "At least 8 characters, an uppercase letter and a digit"
+  let description = "";
+  if (policy) {
+    const rules = [`at least ${policy.minLength} characters`];
+    if (policy.requireUppercase) rules.push("an uppercase letter");
+    if (policy.requireLowercase) rules.push("a lowercase letter");
+    if (policy.requireDigit) rules.push("a digit");
+    if (policy.requireSymbol) rules.push("a symbol");
+
+    const last = rules.pop();
+    description = rules.length > 0 ? `${rules.join(", ")} and ${last}` : last!;
+    description = description.charAt(0).toUpperCase() + description.slice(1);
+    if (policy.historySize > 0) {
+      description += `. Cannot reuse your last ${policy.historySize} passwords`;
+    }
+  }
+
+  return { policy, description };
+}
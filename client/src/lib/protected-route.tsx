@@ -29,5 +29,14 @@ export function ProtectedRoute({
     );
   }
 
+  // Roles that require 2FA must enroll from the settings page before anything else
+  if (user.twoFactorSetupRequired && path !== "/settings") {
+    return (
+      <Route path={path}>
+        <Redirect to="/settings" />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />
 }
@@ -1,6 +1,10 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -14,9 +18,18 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -29,7 +42,12 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
-import { Warehouse, Loader2, LogIn, UserPlus } from "lucide-react";
+import {
+  InputOTP,
+  InputOTPGroup,
+  InputOTPSlot,
+} from "@/components/ui/input-otp";
+import { Warehouse, Loader2, LogIn, UserPlus, Mail, ShieldCheck } from "lucide-react";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -49,7 +67,39 @@ type RegisterFormValues = z.infer<typeof registerSchema>;
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<string>("login");
   const [location, navigate] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, verifyTwoFactorMutation, registerMutation } = useAuth();
+  const { description: passwordPolicyDescription } = usePasswordPolicy();
+  const { toast } = useToast();
+  const { data: authSettings } = useQuery<{ selfRegistrationEnabled: boolean }>({
+    queryKey: ["/api/auth-settings"],
+  });
+  const selfRegistrationEnabled = authSettings?.selfRegistrationEnabled ?? true;
+  const [isForgotPasswordOpen, setIsForgotPasswordOpen] = useState(false);
+  const [forgotPasswordEmail, setForgotPasswordEmail] = useState("");
+  const [isTwoFactorStep, setIsTwoFactorStep] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (email: string) => {
+      await apiRequest("POST", "/api/forgot-password", { email });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Check your email",
+        description: "If an account exists for that address, a reset link has been sent",
+      });
+      setIsForgotPasswordOpen(false);
+      setForgotPasswordEmail("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Request failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   // Redirect if already logged in
   useEffect(() => {
@@ -80,7 +130,28 @@ export default function AuthPage() {
   });
 
   const onLoginSubmit = (values: LoginFormValues) => {
-    loginMutation.mutate(values);
+    loginMutation.mutate(values, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setIsTwoFactorStep(true);
+        }
+      },
+    });
+  };
+
+  const onTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    verifyTwoFactorMutation.mutate(
+      useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode },
+      { onError: () => setTwoFactorCode("") },
+    );
+  };
+
+  const cancelTwoFactor = () => {
+    setIsTwoFactorStep(false);
+    setUseRecoveryCode(false);
+    setTwoFactorCode("");
+    loginForm.resetField("password");
   };
 
   const onRegisterSubmit = (values: RegisterFormValues) => {
@@ -103,114 +174,223 @@ export default function AuthPage() {
             </h2>
           </div>
 
-          <Tabs
-            defaultValue="login"
-            value={activeTab}
-            onValueChange={setActiveTab}
-            className="w-full"
-          >
-            <TabsList className="grid w-full grid-cols-2 mb-8">
-              <TabsTrigger value="login">Login</TabsTrigger>
-              <TabsTrigger value="register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-2xl">Welcome back</CardTitle>
-                  <CardDescription>
-                    Enter your credentials to access your account
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form
-                      onSubmit={loginForm.handleSubmit(onLoginSubmit)}
-                      className="space-y-4"
+          {isTwoFactorStep ? (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-2xl">Two-step verification</CardTitle>
+                <CardDescription>
+                  {useRecoveryCode
+                    ? "Enter one of your unused recovery codes"
+                    : "Enter the 6-digit code from your authenticator app"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                  {useRecoveryCode ? (
+                    <Input
+                      placeholder="xxxxx-xxxxx"
+                      autoComplete="off"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                    />
+                  ) : (
+                    <InputOTP
+                      maxLength={6}
+                      autoFocus
+                      value={twoFactorCode}
+                      onChange={setTwoFactorCode}
                     >
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Enter your username" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="password"
-                                placeholder="Enter your password"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={loginMutation.isPending}
+                      <InputOTPGroup>
+                        {Array.from({ length: 6 }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={
+                      verifyTwoFactorMutation.isPending ||
+                      (useRecoveryCode ? !twoFactorCode : twoFactorCode.length !== 6)
+                    }
+                  >
+                    {verifyTwoFactorMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ShieldCheck className="mr-2 h-4 w-4" />
+                    )}
+                    Verify
+                  </Button>
+                </form>
+              </CardContent>
+              <CardFooter className="flex-col items-start gap-2">
+                <Button
+                  variant="link"
+                  className="px-0 text-sm"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setTwoFactorCode("");
+                  }}
+                >
+                  {useRecoveryCode ? "Use authenticator app instead" : "Use a recovery code instead"}
+                </Button>
+                <Button variant="link" className="px-0 text-sm" onClick={cancelTwoFactor}>
+                  Back to login
+                </Button>
+              </CardFooter>
+            </Card>
+          ) : (
+            <Tabs
+              defaultValue="login"
+              value={activeTab}
+              onValueChange={setActiveTab}
+              className="w-full"
+            >
+              <TabsList className={`grid w-full mb-8 ${selfRegistrationEnabled ? "grid-cols-2" : "grid-cols-1"}`}>
+                <TabsTrigger value="login">Login</TabsTrigger>
+                {selfRegistrationEnabled && (
+                  <TabsTrigger value="register">Register</TabsTrigger>
+                )}
+              </TabsList>
+
+              <TabsContent value="login">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-2xl">Welcome back</CardTitle>
+                    <CardDescription>
+                      Enter your credentials to access your account
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...loginForm}>
+                      <form
+                        onSubmit={loginForm.handleSubmit(onLoginSubmit)}
+                        className="space-y-4"
                       >
-                        {loginMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : (
-                          <LogIn className="mr-2 h-4 w-4" />
-                        )}
-                        Login
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex-col items-start gap-2">
-                  <div className="text-sm text-muted-foreground">
-                    Don't have an account?{" "}
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your username" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Enter your password"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                        >
+                          {loginMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <LogIn className="mr-2 h-4 w-4" />
+                          )}
+                          Login
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex-col items-start gap-2">
                     <Button
                       variant="link"
-                      className="pl-1 pr-0"
-                      onClick={() => setActiveTab("register")}
+                      className="px-0 text-sm"
+                      onClick={() => setIsForgotPasswordOpen(true)}
                     >
-                      Register
+                      Forgot your password?
                     </Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            </TabsContent>
+                    {selfRegistrationEnabled ? (
+                      <div className="text-sm text-muted-foreground">
+                        Don't have an account?{" "}
+                        <Button
+                          variant="link"
+                          className="pl-1 pr-0"
+                          onClick={() => setActiveTab("register")}
+                        >
+                          Register
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="text-sm text-muted-foreground">
+                        Need an account? Ask your administrator.
+                      </div>
+                    )}
+                  </CardFooter>
+                </Card>
+              </TabsContent>
 
-            <TabsContent value="register">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="text-2xl">Create an account</CardTitle>
-                  <CardDescription>
-                    Enter your details to register for WMS
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <Form {...registerForm}>
-                    <form
-                      onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
-                      className="space-y-4"
-                    >
-                      <div className="grid grid-cols-2 gap-4">
+              <TabsContent value="register">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-2xl">Create an account</CardTitle>
+                    <CardDescription>
+                      Enter your details to register for WMS
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Form {...registerForm}>
+                      <form
+                        onSubmit={registerForm.handleSubmit(onRegisterSubmit)}
+                        className="space-y-4"
+                      >
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={registerForm.control}
+                            name="firstName"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>First Name</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="John" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={registerForm.control}
+                            name="lastName"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Last Name</FormLabel>
+                                <FormControl>
+                                  <Input placeholder="Doe" {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
                         <FormField
                           control={registerForm.control}
-                          name="firstName"
+                          name="username"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>First Name</FormLabel>
+                              <FormLabel>Username</FormLabel>
                               <FormControl>
-                                <Input placeholder="John" {...field} />
+                                <Input placeholder="johndoe" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
@@ -218,112 +398,122 @@ export default function AuthPage() {
                         />
                         <FormField
                           control={registerForm.control}
-                          name="lastName"
+                          name="email"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>Last Name</FormLabel>
+                              <FormLabel>Email</FormLabel>
                               <FormControl>
-                                <Input placeholder="Doe" {...field} />
+                                <Input
+                                  type="email"
+                                  placeholder="john.doe@example.com"
+                                  {...field}
+                                />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                      </div>
-                      <FormField
-                        control={registerForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input placeholder="johndoe" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={registerForm.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Email</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="email"
-                                placeholder="john.doe@example.com"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={registerForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="password"
-                                placeholder="Create a password"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={registerForm.control}
-                        name="confirmPassword"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Confirm Password</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="password"
-                                placeholder="Confirm your password"
-                                {...field}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                        <FormField
+                          control={registerForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Create a password"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                {passwordPolicyDescription}
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={registerForm.control}
+                          name="confirmPassword"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Confirm Password</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Confirm your password"
+                                  {...field}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={registerMutation.isPending}
+                        >
+                          {registerMutation.isPending ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <UserPlus className="mr-2 h-4 w-4" />
+                          )}
+                          Register
+                        </Button>
+                      </form>
+                    </Form>
+                  </CardContent>
+                  <CardFooter className="flex-col items-start gap-2">
+                    <div className="text-sm text-muted-foreground">
+                      Already have an account?{" "}
                       <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={registerMutation.isPending}
+                        variant="link"
+                        className="pl-1 pr-0"
+                        onClick={() => setActiveTab("login")}
                       >
-                        {registerMutation.isPending ? (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        ) : (
-                          <UserPlus className="mr-2 h-4 w-4" />
-                        )}
-                        Register
+                        Login
                       </Button>
-                    </form>
-                  </Form>
-                </CardContent>
-                <CardFooter className="flex-col items-start gap-2">
-                  <div className="text-sm text-muted-foreground">
-                    Already have an account?{" "}
-                    <Button
-                      variant="link"
-                      className="pl-1 pr-0"
-                      onClick={() => setActiveTab("login")}
-                    >
-                      Login
-                    </Button>
-                  </div>
-                </CardFooter>
-              </Card>
-            </TabsContent>
-          </Tabs>
+                    </div>
+                  </CardFooter>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          )}
+
+          <Dialog open={isForgotPasswordOpen} onOpenChange={setIsForgotPasswordOpen}>
+            <DialogContent className="sm:max-w-[425px]">
+              <DialogHeader>
+                <DialogTitle>Reset your password</DialogTitle>
+                <DialogDescription>
+                  Enter the email address of your account and we will send you a reset link.
+                </DialogDescription>
+              </DialogHeader>
+              <Input
+                type="email"
+                placeholder="john.doe@example.com"
+                value={forgotPasswordEmail}
+                onChange={(e) => setForgotPasswordEmail(e.target.value)}
+              />
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsForgotPasswordOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => forgotPasswordMutation.mutate(forgotPasswordEmail)}
+                  disabled={!forgotPasswordEmail || forgotPasswordMutation.isPending}
+                >
+                  {forgotPasswordMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Mail className="mr-2 h-4 w-4" />
+                  )}
+                  Send Reset Link
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
 
@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Customer, CustomerWithDetails, Warehouse } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Archive,
+  Check,
+  Edit,
+  History as HistoryIcon,
+  Loader2,
+  MoreHorizontal,
+  Plus,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { HistoryDrawer } from "@/components/audit/history-drawer";
+import { TrashDialog, describeDeleteError } from "@/components/trash/trash-dialog";
+import { CustomerFormDialog, PAYMENT_TERM_LABELS } from "@/components/customers/customer-form-dialog";
+
+export default function CustomersPage() {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canManage = hasPermission("customers.manage");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deletingCustomer, setDeletingCustomer] = useState<Customer | null>(null);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+
+  const { data: customers, isLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  // Contacts and addresses are only loaded for the customer being edited
+  const { data: editingCustomer } = useQuery<CustomerWithDetails>({
+    queryKey: [`/api/customers/${editingId}`],
+    enabled: editingId !== null,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("DELETE", `/api/customers/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Customer Deleted",
+        description: "Customer has been deleted successfully",
+      });
+      setDeletingCustomer(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete customer: ${describeDeleteError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const warehouseName = (id: string | null) =>
+    id ? warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id : "—";
+
+  const filteredCustomers = customers
+    ? customers.filter((customer) => {
+        const term = searchTerm.toLowerCase();
+        return !term ||
+          customer.name.toLowerCase().includes(term) ||
+          customer.code.toLowerCase().includes(term) ||
+          (customer.taxId && customer.taxId.toLowerCase().includes(term));
+      })
+    : [];
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Customers</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Customer accounts, contacts and delivery addresses used on orders
+          </p>
+        </div>
+        {canManage && (
+          <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" /> Trash
+            </Button>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Customer
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Customer List</CardTitle>
+          <CardDescription>
+            Inactive customers are kept for existing orders but cannot be used on new ones
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="mb-4 flex gap-2">
+            <div className="relative w-full sm:w-1/3">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500 dark:text-gray-400" />
+              <Input
+                placeholder="Search customers..."
+                className="pl-8"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Payment terms</TableHead>
+                    <TableHead className="text-right">Credit limit</TableHead>
+                    <TableHead>Default warehouse</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredCustomers.length > 0 ? (
+                    filteredCustomers.map((customer) => (
+                      <TableRow key={customer.id}>
+                        <TableCell className="font-mono">{customer.code}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{customer.name}</div>
+                          {customer.taxId && (
+                            <div className="text-xs text-muted-foreground">Tax ID {customer.taxId}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{PAYMENT_TERM_LABELS[customer.paymentTerms]}</TableCell>
+                        <TableCell className="text-right">
+                          {customer.creditLimit ? `$${parseFloat(customer.creditLimit).toFixed(2)}` : "—"}
+                        </TableCell>
+                        <TableCell>{warehouseName(customer.defaultWarehouseId)}</TableCell>
+                        <TableCell>
+                          {customer.isActive ? (
+                            <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
+                              <Check className="mr-1 h-3 w-3" /> Active
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100">
+                              <X className="mr-1 h-3 w-3" /> Inactive
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" className="h-8 w-8 p-0">
+                                <span className="sr-only">Open menu</span>
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                              {canManage && (
+                                <DropdownMenuItem onClick={() => setEditingId(customer.id)}>
+                                  <Edit className="mr-2 h-4 w-4" />
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              {hasPermission("audit.view") && (
+                                <DropdownMenuItem onClick={() => setHistoryCustomer(customer)}>
+                                  <HistoryIcon className="mr-2 h-4 w-4" />
+                                  History
+                                </DropdownMenuItem>
+                              )}
+                              {canManage && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-red-600"
+                                    onClick={() => setDeletingCustomer(customer)}
+                                  >
+                                    <Trash2 className="mr-2 h-4 w-4" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                        {searchTerm ? "No customers match your search" : "No customers yet"}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isCreateOpen && (
+        <CustomerFormDialog
+          customer={null}
+          warehouses={warehouses ?? []}
+          open={isCreateOpen}
+          onOpenChange={setIsCreateOpen}
+        />
+      )}
+
+      {editingCustomer && editingCustomer.id === editingId && (
+        <CustomerFormDialog
+          key={editingCustomer.id}
+          customer={editingCustomer}
+          warehouses={warehouses ?? []}
+          open
+          onOpenChange={(open) => !open && setEditingId(null)}
+        />
+      )}
+
+      <Dialog open={deletingCustomer !== null} onOpenChange={(open) => !open && setDeletingCustomer(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Confirm Deletion</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete this customer? A customer with open orders cannot be deleted. It can be restored from the trash.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="py-4">
+            <p className="text-sm font-medium">
+              Customer: <span className="font-bold">{deletingCustomer?.name}</span>
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              Code: <span className="font-mono">{deletingCustomer?.code}</span>
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingCustomer(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deletingCustomer && deleteMutation.mutate(deletingCustomer.id)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Deleting...
+                </>
+              ) : (
+                "Delete Customer"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <HistoryDrawer
+        entityType="customer"
+        entityId={historyCustomer?.id ?? null}
+        title={historyCustomer?.name ?? ""}
+        open={historyCustomer !== null}
+        onOpenChange={(open) => !open && setHistoryCustomer(null)}
+      />
+
+      <TrashDialog<Customer>
+        endpoint="/api/customers"
+        title="Deleted Customers"
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        getLabel={(customer) => customer.name}
+        getDetail={(customer) => customer.code}
+      />
+    </DashboardLayout>
+  );
+}
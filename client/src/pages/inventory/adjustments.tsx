@@ -1,9 +1,10 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import {
   Table,
   TableBody,
@@ -36,6 +37,10 @@ import {
   AlertTriangle,
   SearchIcon,
   XCircle,
+  Paperclip,
+  Settings,
+  Check,
+  X,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -52,6 +57,17 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { useLocation } from "wouter";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { AdjustmentReasonsDialog } from "@/components/inventory/adjustment-reasons-dialog";
+import type {
+  Adjustment,
+  AdjustmentReason,
+  AdjustmentStatus,
+  AdjustmentWithLines,
+  StockShortfall,
+  Warehouse,
+} from "@shared/schema";
 
 // Define schema for form validation
 const inventoryAdjustmentSchema = z.object({
@@ -66,24 +82,123 @@ const inventoryAdjustmentSchema = z.object({
         return !isNaN(num) && num !== 0;
       }, "Quantity must be a non-zero number"),
       direction: z.enum(["IN", "OUT"]),
+      lotNumber: z.string().optional(),
+      expiryDate: z.string().optional(),
     })
   ).min(1, "At least one product is required")
 });
 
 type InventoryAdjustmentFormValues = z.infer<typeof inventoryAdjustmentSchema>;
 
+const STATUS_STYLES: Record<AdjustmentStatus, string> = {
+  PENDING_APPROVAL: "bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100",
+  POSTED: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  REJECTED: "bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100",
+};
+
+// Server errors arrive as "<status>: <json body>"
+function describeError(error: Error) {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+:\s*/, "")) as { message?: string; errors?: string };
+    return body.errors ?? body.message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+// The file is sent as the raw request body, so it skips apiRequest's JSON encoding
+async function uploadAttachment(adjustmentId: number, file: File) {
+  const res = await fetch(`/api/adjustments/${adjustmentId}/attachments?filename=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  }
+}
+
+// A blocked posting fails with "409: {message, shortfalls}"
+function parseShortfalls(error: unknown): StockShortfall[] | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4)).shortfalls ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export default function InventoryAdjustments() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user, hasPermission } = useAuth();
+  const canApprove = hasPermission("inventory.approve");
+  const [isReasonsOpen, setIsReasonsOpen] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
+  // Resubmitting after a lost response reuses the key, so the document is not created twice
+  const [submissionId] = useState(() => crypto.randomUUID());
+  // Result of the pre-submit stock check; warnings must be confirmed by submitting again
+  const [shortfalls, setShortfalls] = useState<StockShortfall[] | null>(null);
 
   // Fetch warehouses
-  const { data: warehousesData, isLoading: warehousesLoading } = useQuery({
+  const { data: warehousesData, isLoading: warehousesLoading } = useQuery<Warehouse[]>({
     queryKey: ["/api/warehouses"],
   });
 
+  const { data: reasons } = useQuery<AdjustmentReason[]>({
+    queryKey: ["/api/adjustment-reasons"],
+  });
+
+  const { data: adjustments } = useQuery<Adjustment[]>({
+    queryKey: ["/api/adjustments"],
+  });
+
+  const warehouseName = (id: string) => warehousesData?.find((warehouse) => warehouse.id === id)?.name ?? id;
+  const reasonName = (code: string) => reasons?.find((reason) => reason.code === code)?.name ?? code;
+
+  const refreshAdjustments = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/adjustments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-movements/recent"] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/adjustments/${id}/approve`);
+    },
+    onSuccess: () => {
+      refreshAdjustments();
+      toast({ title: "Adjustment Approved", description: "The adjustment has been posted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to approve: ${describeError(error)}`, variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      await apiRequest("POST", `/api/adjustments/${id}/reject`, { reason });
+    },
+    onSuccess: () => {
+      refreshAdjustments();
+      toast({ title: "Adjustment Rejected", description: "Nothing was posted." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: `Failed to reject: ${describeError(error)}`, variant: "destructive" });
+    },
+  });
+
+  const reject = (id: number) => {
+    const reason = window.prompt("Why is this adjustment rejected?");
+    if (reason?.trim()) {
+      rejectMutation.mutate({ id, reason: reason.trim() });
+    }
+  };
+
   // Define form with react-hook-form and zod validation
   const form = useForm<InventoryAdjustmentFormValues>({
     resolver: zodResolver(inventoryAdjustmentSchema),
@@ -95,6 +210,15 @@ export default function InventoryAdjustments() {
     }
   });
 
+  // Any edit invalidates the last stock check
+  useEffect(() => {
+    const subscription = form.watch(() => setShortfalls(null));
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const isBlocked = shortfalls?.some((shortfall) => shortfall.policy === "BLOCK") ?? false;
+  const shortfallFor = (productId: number) => shortfalls?.find((shortfall) => shortfall.productId === productId);
+
   // Handle product search
   const handleSearch = async () => {
     if (!searchTerm.trim()) return;
@@ -140,8 +264,12 @@ export default function InventoryAdjustments() {
         productId: product.id,
         productName: product.name,
         productSku: product.sku,
+        isLotControlled: product.isLotControlled,
+        isExpiryControlled: product.isExpiryControlled,
         quantity: "1",
-        direction: "IN"
+        direction: "IN",
+        lotNumber: "",
+        expiryDate: ""
       }
     ]);
     
@@ -168,54 +296,101 @@ export default function InventoryAdjustments() {
     form.setValue("items", updatedItems);
   };
 
-  // Update quantity
-  const updateQuantity = (index: number, value: string) => {
+  // Update quantity, lot or expiry of a line
+  const updateItem = (index: number, field: "quantity" | "lotNumber" | "expiryDate", value: string) => {
     const items = form.getValues().items;
     
     const updatedItems = [...items];
-    updatedItems[index].quantity = value;
+    updatedItems[index][field] = value;
     
     form.setValue("items", updatedItems);
   };
 
   // Submit form
   const onSubmit = async (data: InventoryAdjustmentFormValues) => {
+    // Check outgoing lines first, unless the user is confirming warnings from the last check
+    if (shortfalls === null) {
+      const outItems = data.items
+        .filter((item) => item.direction === "OUT")
+        .map((item) => ({ productId: item.productId, quantity: Math.abs(parseFloat(item.quantity)) }));
+      if (outItems.length > 0) {
+        try {
+          const res = await apiRequest("POST", "/api/stock-movements/check", {
+            warehouseId: data.warehouseId,
+            items: outItems,
+          });
+          const result: { shortfalls: StockShortfall[] } = await res.json();
+          if (result.shortfalls.length > 0) {
+            setShortfalls(result.shortfalls);
+            return;
+          }
+        } catch (error) {
+          toast({
+            title: "Stock Check Failed",
+            description: error instanceof Error ? error.message : "Could not check stock levels.",
+            variant: "destructive",
+          });
+          return;
+        }
+      }
+    } else if (isBlocked) {
+      return;
+    }
+
+    let adjustment: AdjustmentWithLines;
     try {
-      // Create stock movements for each item
-      const movements = data.items.map(item => ({
-        productId: item.productId,
+      // All lines are posted together, or none are
+      const res = await apiRequest("POST", "/api/adjustments", {
         warehouseId: data.warehouseId,
-        quantity: Math.abs(parseFloat(item.quantity)),
-        direction: item.direction,
-        referenceType: "ADJUSTMENT",
-        referenceId: new Date().toISOString().slice(0, 10),
-        notes: `${data.reason}: ${data.notes}`
-      }));
-      
-      // Submit each movement
-      for (const movement of movements) {
-        await apiRequest("POST", "/api/stock-movements", movement);
+        reasonCode: data.reason,
+        notes: data.notes || null,
+        lines: data.items.map((item) => ({
+          productId: item.productId,
+          direction: item.direction,
+          quantity: Math.abs(parseFloat(item.quantity)),
+          lotNumber: item.lotNumber || null,
+          expiryDate: item.expiryDate || null,
+        })),
+      }, {
+        "Idempotency-Key": submissionId,
+      });
+      adjustment = await res.json();
+    } catch (error) {
+      // Stock moved since the check; show the fresh shortfalls against the lines
+      const blocked = parseShortfalls(error);
+      if (blocked) {
+        setShortfalls(blocked);
       }
-      
-      // Show success message
       toast({
-        title: "Adjustment Complete",
-        description: `Successfully adjusted inventory for ${movements.length} product(s).`,
+        title: "Adjustment Failed",
+        description: blocked
+          ? "Some lines exceed the available stock. Nothing was posted."
+          : error instanceof Error ? describeError(error) : "There was an error processing the inventory adjustment.",
+        variant: "destructive",
       });
-      
-      // Invalidate queries to refresh data
-      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/stock-movements/recent"] });
-      
-      // Redirect to inventory page
-      navigate("/inventory");
+      return;
+    }
+
+    try {
+      for (const file of files) {
+        await uploadAttachment(adjustment.id, file);
+      }
     } catch (error) {
       toast({
-        title: "Adjustment Failed",
-        description: "There was an error processing the inventory adjustment.",
+        title: "Attachment Failed",
+        description: `${adjustment.adjustmentNumber} was saved, but an attachment could not be uploaded: ${describeError(error as Error)}`,
         variant: "destructive",
       });
     }
+
+    toast({
+      title: adjustment.status === "PENDING_APPROVAL" ? "Awaiting Approval" : "Adjustment Complete",
+      description: adjustment.status === "PENDING_APPROVAL"
+        ? `${adjustment.adjustmentNumber} exceeds the warehouse approval value and will be posted once a manager approves it.`
+        : `${adjustment.adjustmentNumber} adjusted inventory for ${adjustment.lines.length} product(s).`,
+    });
+    refreshAdjustments();
+    navigate("/inventory");
   };
 
   if (warehousesLoading) {
@@ -267,7 +442,7 @@ export default function InventoryAdjustments() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {warehousesData?.map((warehouse: any) => (
+                            {warehousesData?.map((warehouse) => (
                               <SelectItem key={warehouse.id} value={warehouse.id}>
                                 {warehouse.name}
                               </SelectItem>
@@ -288,24 +463,36 @@ export default function InventoryAdjustments() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Reason</FormLabel>
-                        <Select
-                          onValueChange={field.onChange}
-                          defaultValue={field.value}
-                        >
-                          <FormControl>
-                            <SelectTrigger>
-                              <SelectValue placeholder="Select reason for adjustment" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            <SelectItem value="PHYSICAL_COUNT">Physical Count</SelectItem>
-                            <SelectItem value="DAMAGE">Damage/Loss</SelectItem>
-                            <SelectItem value="EXPIRY">Expiration</SelectItem>
-                            <SelectItem value="RETURN">Customer Return</SelectItem>
-                            <SelectItem value="CORRECTION">System Correction</SelectItem>
-                            <SelectItem value="OTHER">Other</SelectItem>
-                          </SelectContent>
-                        </Select>
+                        <div className="flex gap-2">
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select reason for adjustment" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {reasons?.filter((reason) => reason.isActive).map((reason) => (
+                                <SelectItem key={reason.code} value={reason.code}>
+                                  {reason.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {canApprove && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="icon"
+                              title="Manage reasons"
+                              onClick={() => setIsReasonsOpen(true)}
+                            >
+                              <Settings className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
                         <FormDescription>
                           Indicate why this adjustment is being made
                         </FormDescription>
@@ -334,6 +521,28 @@ export default function InventoryAdjustments() {
                       </FormItem>
                     )}
                   />
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium" htmlFor="adjustment-attachments">Attachments</label>
+                    <Input
+                      id="adjustment-attachments"
+                      type="file"
+                      multiple
+                      onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+                    />
+                    {files.length > 0 && (
+                      <ul className="text-xs text-muted-foreground">
+                        {files.map((file) => (
+                          <li key={file.name} className="flex items-center gap-1">
+                            <Paperclip className="h-3 w-3" /> {file.name}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      Photos or documents supporting the adjustment, up to 5 MB each
+                    </p>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -420,6 +629,25 @@ export default function InventoryAdjustments() {
                                       <div className="text-xs text-muted-foreground">
                                         {item.productSku}
                                       </div>
+                                      {(item.isLotControlled || item.isExpiryControlled) && (
+                                        <div className="mt-1 flex gap-1">
+                                          <Input
+                                            className="h-8 w-24"
+                                            placeholder="Lot"
+                                            value={item.lotNumber}
+                                            onChange={(e) => updateItem(index, "lotNumber", e.target.value)}
+                                          />
+                                          {item.isExpiryControlled && item.direction === "IN" && (
+                                            <Input
+                                              className="h-8 w-36"
+                                              type="date"
+                                              title="Expiry date of a new lot"
+                                              value={item.expiryDate}
+                                              onChange={(e) => updateItem(index, "expiryDate", e.target.value)}
+                                            />
+                                          )}
+                                        </div>
+                                      )}
                                     </TableCell>
                                     <TableCell>
                                       <Button
@@ -442,9 +670,20 @@ export default function InventoryAdjustments() {
                                         min="0.01"
                                         step="0.01"
                                         value={item.quantity}
-                                        onChange={(e) => updateQuantity(index, e.target.value)}
+                                        onChange={(e) => updateItem(index, "quantity", e.target.value)}
                                         className="w-24"
                                       />
+                                      {item.direction === "OUT" && shortfallFor(item.productId) && (
+                                        <div
+                                          className={
+                                            shortfallFor(item.productId)!.policy === "BLOCK"
+                                              ? "mt-1 text-xs text-red-600 dark:text-red-400"
+                                              : "mt-1 text-xs text-amber-600 dark:text-amber-400"
+                                          }
+                                        >
+                                          Short {shortfallFor(item.productId)!.shortfall} (available {shortfallFor(item.productId)!.available})
+                                        </div>
+                                      )}
                                     </TableCell>
                                     <TableCell>
                                       <Button
@@ -472,6 +711,20 @@ export default function InventoryAdjustments() {
                       </FormItem>
                     )}
                   />
+
+                  {shortfalls && shortfalls.length > 0 && (
+                    <Alert variant={isBlocked ? "destructive" : "default"}>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>
+                        {isBlocked ? "Not enough stock" : "This adjustment will take stock negative"}
+                      </AlertTitle>
+                      <AlertDescription>
+                        {isBlocked
+                          ? "This warehouse does not allow overdrawing these products. Reduce the highlighted quantities."
+                          : "The highlighted lines exceed the available quantity. Save again to post them anyway."}
+                      </AlertDescription>
+                    </Alert>
+                  )}
                 </div>
               </CardContent>
               <CardFooter className="flex justify-between">
@@ -485,16 +738,99 @@ export default function InventoryAdjustments() {
                 </Button>
                 <Button
                   type="submit"
-                  disabled={form.watch("items")?.length === 0}
+                  disabled={form.watch("items")?.length === 0 || isBlocked}
                 >
                   <Save className="h-4 w-4 mr-2" />
-                  Save Adjustment
+                  {shortfalls && !isBlocked ? "Save Anyway" : "Save Adjustment"}
                 </Button>
               </CardFooter>
             </Card>
           </div>
         </form>
       </Form>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Recent Adjustments</CardTitle>
+          <CardDescription>
+            Adjustments above a warehouse's approval value are posted once a manager approves them
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canApprove && <TableHead className="w-[100px]"></TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adjustments && adjustments.length > 0 ? (
+                  adjustments.slice(0, 20).map((adjustment) => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell className="font-medium">{adjustment.adjustmentNumber}</TableCell>
+                      <TableCell>{warehouseName(adjustment.warehouseId)}</TableCell>
+                      <TableCell>
+                        {reasonName(adjustment.reasonCode)}
+                        {adjustment.notes && <div className="text-xs text-muted-foreground">{adjustment.notes}</div>}
+                      </TableCell>
+                      <TableCell>
+                        {adjustment.createdAt ? new Date(adjustment.createdAt).toLocaleDateString() : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{parseFloat(adjustment.totalValue).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_STYLES[adjustment.status]} title={adjustment.rejectionReason ?? undefined}>
+                          {adjustment.status.replace("_", " ")}
+                        </Badge>
+                      </TableCell>
+                      {canApprove && (
+                        <TableCell>
+                          {adjustment.status === "PENDING_APPROVAL" && (
+                            <div className="flex">
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title={adjustment.createdBy === user?.id ? "Another user has to approve your own adjustment" : "Approve and post"}
+                                disabled={approveMutation.isPending || adjustment.createdBy === user?.id}
+                                onClick={() => approveMutation.mutate(adjustment.id)}
+                              >
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                title="Reject"
+                                disabled={rejectMutation.isPending}
+                                onClick={() => reject(adjustment.id)}
+                              >
+                                <X className="h-4 w-4 text-red-500" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={canApprove ? 7 : 6} className="text-center py-4 text-muted-foreground">
+                      No adjustments yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AdjustmentReasonsDialog open={isReasonsOpen} onOpenChange={setIsReasonsOpen} />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,555 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  ABC_CLASSES,
+  COUNT_SCOPES,
+  type AbcClass,
+  type CountScope,
+  type CountSession,
+  type CountSessionWithLines,
+  type ProductCategory,
+  type Warehouse,
+  type WarehouseLocation,
+} from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle, ClipboardCheck, Loader2, Plus, Save, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const STATUS_STYLES: Record<string, string> = {
+  COUNTING: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  PENDING_APPROVAL: "bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100",
+  POSTED: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+  CANCELLED: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100",
+};
+
+const SCOPE_LABELS: Record<CountScope, string> = {
+  FULL: "Full warehouse",
+  LOCATION: "Location",
+  CATEGORY: "Category",
+  ABC: "ABC class",
+};
+
+const emptyDraft = () => ({
+  warehouseId: "",
+  scope: "FULL" as CountScope,
+  locationId: "",
+  categoryId: "",
+  abcClass: "A" as AbcClass,
+  notes: "",
+});
+
+// Server errors arrive as "<status>: <json body>"
+function describeError(error: Error) {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+:\s*/, "")) as { message?: string; errors?: string };
+    return body.errors ?? body.message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+export default function InventoryCounts() {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canAdjust = hasPermission("inventory.adjust");
+  const canApprove = hasPermission("inventory.approve");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [counts, setCounts] = useState<Record<number, string>>({});
+
+  const { data: sessions, isLoading } = useQuery<CountSession[]>({
+    queryKey: ["/api/counts"],
+  });
+
+  const { data: selected, isLoading: isSelectedLoading } = useQuery<CountSessionWithLines>({
+    queryKey: [`/api/counts/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const { data: categories } = useQuery<ProductCategory[]>({
+    queryKey: ["/api/product-categories"],
+  });
+
+  const { data: locations } = useQuery<WarehouseLocation[]>({
+    queryKey: [`/api/warehouses/${draft.warehouseId}/locations`],
+    enabled: !!draft.warehouseId && draft.scope === "LOCATION",
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id;
+
+  const refreshCounts = (id?: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/counts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-movements/recent"] });
+    if (id !== undefined) {
+      queryClient.invalidateQueries({ queryKey: [`/api/counts/${id}`] });
+    }
+  };
+
+  const openSession = (id: number) => {
+    setSelectedId(id);
+    setCounts({});
+  };
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${describeError(error)}`,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/counts", {
+        warehouseId: draft.warehouseId,
+        scope: draft.scope,
+        locationId: draft.scope === "LOCATION" ? parseInt(draft.locationId) : null,
+        categoryId: draft.scope === "CATEGORY" ? parseInt(draft.categoryId) : null,
+        abcClass: draft.scope === "ABC" ? draft.abcClass : null,
+        notes: draft.notes || null,
+      });
+      return (await res.json()) as CountSessionWithLines;
+    },
+    onSuccess: (session) => {
+      refreshCounts();
+      setIsCreateOpen(false);
+      setDraft(emptyDraft());
+      openSession(session.id);
+      toast({
+        title: "Count started",
+        description: `${session.sessionNumber} has ${session.lines.length} line(s) to count`,
+      });
+    },
+    onError: onError("start count"),
+  });
+
+  const entriesMutation = useMutation({
+    mutationFn: async (session: CountSessionWithLines) => {
+      const entries = session.lines
+        .filter((line) => counts[line.id])
+        .map((line) => ({ lineId: line.id, quantity: parseFloat(counts[line.id]) }));
+      await apiRequest("POST", `/api/counts/${session.id}/entries`, { entries });
+      return session.id;
+    },
+    onSuccess: (id) => {
+      refreshCounts(id);
+      setCounts({});
+      toast({ title: "Counts saved" });
+    },
+    onError: onError("save counts"),
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: async ({ id, step }: { id: number; step: "submit" | "approve" | "cancel" }) => {
+      const res = await apiRequest("POST", `/api/counts/${id}/${step}`);
+      return (await res.json()) as CountSessionWithLines;
+    },
+    onSuccess: (session) => {
+      refreshCounts(session.id);
+      toast({
+        title: session.status === "POSTED"
+          ? "Count posted"
+          : session.status === "PENDING_APPROVAL"
+            ? "Count waiting for approval"
+            : "Count cancelled",
+        description: session.status === "POSTED"
+          ? "Variances were posted and the counted balances are stamped with today's date"
+          : session.status === "PENDING_APPROVAL"
+            ? "Some variances exceed the warehouse's approval limits"
+            : undefined,
+      });
+    },
+    onError: onError("update count"),
+  });
+
+  const scopeDetail = (session: CountSession) => {
+    if (session.scope === "CATEGORY") {
+      return categories?.find((category) => category.id === session.categoryId)?.name ?? `Category #${session.categoryId}`;
+    }
+    if (session.scope === "ABC") return `Class ${session.abcClass}`;
+    return SCOPE_LABELS[session.scope];
+  };
+
+  const isDraftValid =
+    !!draft.warehouseId &&
+    (draft.scope !== "LOCATION" || !!draft.locationId) &&
+    (draft.scope !== "CATEGORY" || !!draft.categoryId);
+
+  const hasCounts = Object.values(counts).some((value) => value !== "");
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Cycle Counts</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Count stock blind against frozen expected quantities and post the variances
+          </p>
+        </div>
+        {canAdjust && (
+          <div className="mt-4 sm:mt-0">
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Count
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count Sessions</CardTitle>
+          <CardDescription>Select a session to enter counts, submit or approve it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Count #</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Scope</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Variance Value</TableHead>
+                    <TableHead>Started</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions && sessions.length > 0 ? (
+                    sessions.map((session) => (
+                      <TableRow key={session.id} className="cursor-pointer" onClick={() => openSession(session.id)}>
+                        <TableCell className="font-medium">{session.sessionNumber}</TableCell>
+                        <TableCell>{warehouseName(session.warehouseId)}</TableCell>
+                        <TableCell>{scopeDetail(session)}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[session.status]}>{session.status.replace("_", " ")}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {session.varianceValue !== null ? parseFloat(session.varianceValue).toFixed(2) : "—"}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {session.createdAt ? format(new Date(session.createdAt), "MMM d, yyyy HH:mm") : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No counts yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) setDraft(emptyDraft()); }}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>New Count</DialogTitle>
+            <DialogDescription>
+              Expected quantities are frozen when the count starts; counters do not see them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Warehouse</label>
+              <Select
+                value={draft.warehouseId}
+                onValueChange={(value) => setDraft({ ...draft, warehouseId: value, locationId: "" })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses?.map((warehouse) => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Scope</label>
+              <Select value={draft.scope} onValueChange={(value) => setDraft({ ...draft, scope: value as CountScope })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COUNT_SCOPES.map((scope) => (
+                    <SelectItem key={scope} value={scope}>{SCOPE_LABELS[scope]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {draft.scope === "LOCATION" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Location</label>
+                <Select value={draft.locationId} onValueChange={(value) => setDraft({ ...draft, locationId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Counts this location and everything below it" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locations?.map((location) => (
+                      <SelectItem key={location.id} value={location.id.toString()}>
+                        {location.path} ({location.level})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {draft.scope === "CATEGORY" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Category</label>
+                <Select value={draft.categoryId} onValueChange={(value) => setDraft({ ...draft, categoryId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories?.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {draft.scope === "ABC" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Class</label>
+                <Select value={draft.abcClass} onValueChange={(value) => setDraft({ ...draft, abcClass: value as AbcClass })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ABC_CLASSES.map((abcClass) => (
+                      <SelectItem key={abcClass} value={abcClass}>Class {abcClass}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Products ranked by stock value: A holds the first 80% of the value, B the next 15%, C the rest
+                </p>
+              </div>
+            )}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Notes</label>
+              <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!isDraftValid || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Count
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="sm:max-w-[900px]">
+          <DialogHeader>
+            <DialogTitle>{selected ? `Count ${selected.sessionNumber}` : "Count"}</DialogTitle>
+            {selected && (
+              <DialogDescription>
+                {warehouseName(selected.warehouseId)} · {scopeDetail(selected)} · {selected.status.replace("_", " ")}
+                {selected.notes ? ` · ${selected.notes}` : ""}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {isSelectedLoading || !selected ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="max-h-[55vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Lot</TableHead>
+                      {selected.status === "COUNTING" ? (
+                        <>
+                          <TableHead className="text-right">Counted</TableHead>
+                          {canAdjust && <TableHead>Count</TableHead>}
+                        </>
+                      ) : (
+                        <>
+                          <TableHead className="text-right">Expected</TableHead>
+                          <TableHead className="text-right">Counted</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                        </>
+                      )}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.lines.map((line) => (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          {line.productName}
+                          <div className="text-xs text-muted-foreground">{line.sku}</div>
+                        </TableCell>
+                        <TableCell className="font-mono">{line.locationPath || "Unassigned"}</TableCell>
+                        <TableCell>{line.lotNumber || "—"}</TableCell>
+                        {selected.status === "COUNTING" ? (
+                          <>
+                            <TableCell className="text-right">
+                              {line.countedQuantity !== null ? parseFloat(line.countedQuantity).toFixed(2) : "—"}
+                              {line.hasDiscrepancy && (
+                                <div
+                                  className="inline-flex items-center text-xs text-amber-600 dark:text-amber-400"
+                                  title={line.entries.map((entry) => parseFloat(entry.quantity).toFixed(2)).join(", ")}
+                                >
+                                  <AlertTriangle className="mr-1 h-3 w-3" /> Counters disagree
+                                </div>
+                              )}
+                            </TableCell>
+                            {canAdjust && (
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  className="w-28"
+                                  placeholder={line.countedQuantity !== null ? "Recount" : "Qty"}
+                                  value={counts[line.id] ?? ""}
+                                  onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                                />
+                              </TableCell>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            <TableCell className="text-right">{parseFloat(line.expectedQuantity ?? "0").toFixed(2)}</TableCell>
+                            <TableCell className="text-right">
+                              {line.countedQuantity !== null ? parseFloat(line.countedQuantity).toFixed(2) : "—"}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {line.varianceQuantity !== null && parseFloat(line.varianceQuantity) !== 0 ? (
+                                <span className={line.requiresApproval ? "font-medium text-amber-600 dark:text-amber-400" : ""}>
+                                  {parseFloat(line.varianceQuantity) > 0 ? "+" : ""}{parseFloat(line.varianceQuantity).toFixed(2)}
+                                </span>
+                              ) : (
+                                "—"
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {line.varianceValue !== null ? parseFloat(line.varianceValue).toFixed(2) : "—"}
+                            </TableCell>
+                          </>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedId(null)}>
+                  Close
+                </Button>
+                {(selected.status === "COUNTING" || selected.status === "PENDING_APPROVAL") && canAdjust && (
+                  <Button
+                    variant="outline"
+                    onClick={() => stepMutation.mutate({ id: selected.id, step: "cancel" })}
+                    disabled={stepMutation.isPending}
+                  >
+                    <XCircle className="mr-2 h-4 w-4" /> Cancel Count
+                  </Button>
+                )}
+                {selected.status === "COUNTING" && canAdjust && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => entriesMutation.mutate(selected)}
+                      disabled={!hasCounts || entriesMutation.isPending}
+                    >
+                      {entriesMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="mr-2 h-4 w-4" />
+                      )}
+                      Save Counts
+                    </Button>
+                    <Button
+                      onClick={() => stepMutation.mutate({ id: selected.id, step: "submit" })}
+                      disabled={hasCounts || selected.lines.some((line) => line.countedQuantity === null) || stepMutation.isPending}
+                      title={hasCounts ? "Save the entered counts first" : undefined}
+                    >
+                      <ClipboardCheck className="mr-2 h-4 w-4" /> Submit
+                    </Button>
+                  </>
+                )}
+                {selected.status === "PENDING_APPROVAL" && canApprove && (
+                  <Button
+                    onClick={() => stepMutation.mutate({ id: selected.id, step: "approve" })}
+                    disabled={stepMutation.isPending}
+                  >
+                    <CheckCircle className="mr-2 h-4 w-4" /> Approve and Post
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { NearExpiryItem, Warehouse } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const WINDOWS = [7, 30, 60, 90];
+
+function expiryBadge(daysToExpiry: number) {
+  if (daysToExpiry < 0) {
+    return <Badge className="bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100">Expired</Badge>;
+  }
+  if (daysToExpiry <= 7) {
+    return <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100">{daysToExpiry} days</Badge>;
+  }
+  return <Badge variant="outline">{daysToExpiry} days</Badge>;
+}
+
+export default function InventoryExpiry() {
+  const [days, setDays] = useState("30");
+
+  const { data: items, isLoading } = useQuery<NearExpiryItem[]>({
+    queryKey: [`/api/inventory/near-expiry?days=${days}`],
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id;
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Expiring Stock</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Lots on hand that are expired or close to expiry
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WINDOWS.map((window) => (
+                <SelectItem key={window} value={window.toString()}>
+                  Within {window} days
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Near-Expiry Report</CardTitle>
+          <CardDescription>
+            Expired lots cannot be shipped; write them off with an adjustment
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Lot</TableHead>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items && items.length > 0 ? (
+                    items.map((item, index) => (
+                      <TableRow key={`${item.productId}-${item.lotNumber}-${item.warehouseId}-${index}`}>
+                        <TableCell>
+                          {item.productName}
+                          <div className="text-xs text-muted-foreground">{item.sku}</div>
+                        </TableCell>
+                        <TableCell className="font-medium">{item.lotNumber}</TableCell>
+                        <TableCell>{warehouseName(item.warehouseId)}</TableCell>
+                        <TableCell className="font-mono">{item.locationPath || "Unassigned"}</TableCell>
+                        <TableCell>{new Date(item.expiryDate).toLocaleDateString()}</TableCell>
+                        <TableCell>{expiryBadge(item.daysToExpiry)}</TableCell>
+                        <TableCell className="text-right font-medium">{parseFloat(item.quantity).toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                        No lots expire within {days} days
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  );
+}
@@ -42,7 +42,14 @@ interface InventoryItem {
   warehouseId: string;
   quantity: string;
   reservedQuantity: string;
-  location: string;
+  // Available to promise: on hand less what open orders have reserved
+  availableQuantity: string;
+  locationId: number | null;
+  // Null for stock not yet put away
+  locationPath: string | null;
+  // Null for stock of products that are not lot-controlled
+  lotNumber: string | null;
+  expiryDate: string | null;
   lastCountDate: string;
   product?: {
     id: number;
@@ -114,7 +121,8 @@ export default function InventoryPage() {
       !searchTerm ||
       item.product?.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       item.product?.sku.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.location?.toLowerCase().includes(searchTerm.toLowerCase());
+      item.locationPath?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      item.lotNumber?.toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesWarehouse = warehouseFilter === "_all" || item.warehouseId === warehouseFilter;
 
@@ -159,7 +167,7 @@ export default function InventoryPage() {
             <div className="relative w-full sm:w-1/3">
               <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-gray-500 dark:text-gray-400" />
               <Input
-                placeholder="Search products, SKUs, locations..."
+                placeholder="Search products, SKUs, locations, lots..."
                 className="pl-8"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
@@ -193,6 +201,8 @@ export default function InventoryPage() {
                   <TableHead>SKU</TableHead>
                   <TableHead>Warehouse</TableHead>
                   <TableHead>Location</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Expiry</TableHead>
                   <TableHead className="text-right">Available</TableHead>
                   <TableHead className="text-right">Reserved</TableHead>
                   <TableHead className="text-right">Total</TableHead>
@@ -202,7 +212,7 @@ export default function InventoryPage() {
               <TableBody>
                 {filteredInventory?.length > 0 ? (
                   filteredInventory.map((item: InventoryItem) => {
-                    const available = parseFloat(item.quantity) - parseFloat(item.reservedQuantity);
+                    const available = parseFloat(item.availableQuantity);
                     return (
                       <TableRow key={item.id}>
                         <TableCell className="font-medium">
@@ -215,7 +225,13 @@ export default function InventoryPage() {
                           {item.warehouse?.name || `Warehouse #${item.warehouseId}`}
                         </TableCell>
                         <TableCell>
-                          {item.location || "—"}
+                          {item.locationPath || "Unassigned"}
+                        </TableCell>
+                        <TableCell>
+                          {item.lotNumber || "—"}
+                        </TableCell>
+                        <TableCell>
+                          {item.expiryDate ? new Date(item.expiryDate).toLocaleDateString() : "—"}
                         </TableCell>
                         <TableCell className="text-right">
                           {available.toFixed(2)}
@@ -236,7 +252,7 @@ export default function InventoryPage() {
                   })
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                    <TableCell colSpan={10} className="text-center py-6 text-muted-foreground">
                       No inventory records found
                     </TableCell>
                   </TableRow>
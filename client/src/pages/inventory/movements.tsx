@@ -3,6 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -43,19 +45,30 @@ import {
   Calendar,
   ArrowDownCircle,
   ArrowUpCircle,
+  ArrowRightLeft,
   RefreshCw,
   Plus,
 } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { FefoPick, Product, SerialNumber, WarehouseLocation } from "@shared/schema";
+
+// Select items cannot carry null, so this stands for stock not yet put away
+const UNASSIGNED = "_unassigned";
+
+const toLocationId = (value: string) => (value === UNASSIGNED ? null : parseInt(value));
 
 interface StockMovement {
   id: number;
   productId: number;
   warehouseId: string;
   quantity: string;
-  direction: "IN" | "OUT";
+  direction: "IN" | "OUT" | "MOVE";
+  fromLocationPath: string | null;
+  toLocationPath: string | null;
+  lotNumber: string | null;
+  totalCost: string | null;
   referenceType: string;
   referenceId: string;
   notes: string;
@@ -80,6 +93,8 @@ export default function InventoryMovements() {
   const [directionFilter, setDirectionFilter] = useState("_all");
   const [warehouseFilter, setWarehouseFilter] = useState("_all");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  // Kept until the movement is posted, so retrying a failed submit cannot post it twice
+  const [idempotencyKey, setIdempotencyKey] = useState(() => crypto.randomUUID());
   const { toast } = useToast();
 
   // Form states for creating new movement
@@ -88,7 +103,13 @@ export default function InventoryMovements() {
     warehouseId: "",
     quantity: "",
     direction: "IN",
-    referenceType: "ADJUSTMENT",
+    fromLocationId: UNASSIGNED,
+    toLocationId: UNASSIGNED,
+    lotNumber: "",
+    expiryDate: "",
+    unitCost: "",
+    serialNumbers: [] as string[],
+    referenceType: "MANUAL",
     referenceId: "",
     notes: "",
   });
@@ -99,7 +120,7 @@ export default function InventoryMovements() {
   });
 
   // Fetch products for dropdown
-  const { data: productsData } = useQuery({
+  const { data: productsData } = useQuery<Product[]>({
     queryKey: ["/api/products"],
   });
 
@@ -108,13 +129,59 @@ export default function InventoryMovements() {
     queryKey: ["/api/warehouses"],
   });
 
+  // Locations of the warehouse chosen in the form
+  const { data: locationsData } = useQuery<WarehouseLocation[]>({
+    queryKey: [`/api/warehouses/${newMovement.warehouseId}/locations`],
+    enabled: !!newMovement.warehouseId,
+  });
+
+  const selectedProduct = productsData?.find((product) => product.id.toString() === newMovement.productId);
+  const tracksLots = !!selectedProduct && (selectedProduct.isLotControlled || selectedProduct.isExpiryControlled);
+  const isSerialized = !!selectedProduct?.isSerialized;
+  const enteredSerials = newMovement.serialNumbers.map((serial) => serial.trim()).filter(Boolean);
+
+  // Units in stock at the chosen from location, for OUT and MOVE of serialized products
+  const { data: serialsInStock } = useQuery<SerialNumber[]>({
+    queryKey: [`/api/serials?productId=${newMovement.productId}&warehouseId=${newMovement.warehouseId}`],
+    enabled: isSerialized && newMovement.direction !== "IN" && !!newMovement.warehouseId,
+  });
+  const pickableSerials = serialsInStock?.filter(
+    (serial) => serial.locationId === toLocationId(newMovement.fromLocationId)
+  );
+
+  const toggleSerial = (serialNumber: string, checked: boolean) => setNewMovement({
+    ...newMovement,
+    serialNumbers: checked
+      ? [...newMovement.serialNumbers, serialNumber]
+      : newMovement.serialNumbers.filter((serial) => serial !== serialNumber),
+  });
+
+  // Where to take an outbound quantity from, soonest-expiring lots first
+  const fefoParams = new URLSearchParams({
+    productId: newMovement.productId,
+    warehouseId: newMovement.warehouseId,
+    quantity: newMovement.quantity,
+  });
+  const { data: fefoPicks } = useQuery<FefoPick[]>({
+    queryKey: [`/api/inventory/fefo?${fefoParams.toString()}`],
+    enabled: tracksLots && newMovement.direction === "OUT" && !!newMovement.warehouseId && parseFloat(newMovement.quantity) > 0,
+  });
+
   const handleCreateMovement = async () => {
     try {
       await apiRequest("POST", "/api/stock-movements", {
         ...newMovement,
         productId: parseInt(newMovement.productId),
-        quantity: parseFloat(newMovement.quantity),
-      });
+        quantity: isSerialized ? enteredSerials.length : parseFloat(newMovement.quantity),
+        fromLocationId: toLocationId(newMovement.fromLocationId),
+        toLocationId: toLocationId(newMovement.toLocationId),
+        lotNumber: newMovement.lotNumber || null,
+        expiryDate: newMovement.expiryDate || null,
+        unitCost: newMovement.direction === "IN" && newMovement.unitCost ? parseFloat(newMovement.unitCost) : null,
+        serialNumbers: isSerialized ? enteredSerials : null,
+      }, { "Idempotency-Key": idempotencyKey });
+      
+      setIdempotencyKey(crypto.randomUUID());
       
       // Close dialog and reset form
       setIsCreateDialogOpen(false);
@@ -123,7 +190,13 @@ export default function InventoryMovements() {
         warehouseId: "",
         quantity: "",
         direction: "IN",
-        referenceType: "ADJUSTMENT",
+        fromLocationId: UNASSIGNED,
+        toLocationId: UNASSIGNED,
+        lotNumber: "",
+        expiryDate: "",
+        unitCost: "",
+        serialNumbers: [] as string[],
+        referenceType: "MANUAL",
         referenceId: "",
         notes: "",
       });
@@ -139,7 +212,7 @@ export default function InventoryMovements() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create stock movement",
+        description: error instanceof Error ? error.message.replace(/^\d+: /, "") : "Failed to create stock movement",
         variant: "destructive",
       });
     }
@@ -229,7 +302,7 @@ export default function InventoryMovements() {
                   </label>
                   <Select
                     value={newMovement.productId}
-                    onValueChange={(value) => setNewMovement({...newMovement, productId: value})}
+                    onValueChange={(value) => setNewMovement({...newMovement, productId: value, serialNumbers: []})}
                   >
                     <SelectTrigger className="col-span-3">
                       <SelectValue placeholder="Select a product" />
@@ -249,7 +322,13 @@ export default function InventoryMovements() {
                   </label>
                   <Select
                     value={newMovement.warehouseId}
-                    onValueChange={(value) => setNewMovement({...newMovement, warehouseId: value})}
+                    onValueChange={(value) => setNewMovement({
+                      ...newMovement,
+                      warehouseId: value,
+                      fromLocationId: UNASSIGNED,
+                      toLocationId: UNASSIGNED,
+                      serialNumbers: [],
+                    })}
                   >
                     <SelectTrigger className="col-span-3">
                       <SelectValue placeholder="Select a warehouse" />
@@ -271,8 +350,10 @@ export default function InventoryMovements() {
                     id="quantity"
                     type="number"
                     step="0.01"
-                    value={newMovement.quantity}
+                    value={isSerialized ? enteredSerials.length.toString() : newMovement.quantity}
                     onChange={(e) => setNewMovement({...newMovement, quantity: e.target.value})}
+                    disabled={isSerialized}
+                    title={isSerialized ? "Counted from the serial numbers" : undefined}
                     className="col-span-3"
                   />
                 </div>
@@ -282,7 +363,7 @@ export default function InventoryMovements() {
                   </label>
                   <Select
                     value={newMovement.direction}
-                    onValueChange={(value) => setNewMovement({...newMovement, direction: value as "IN" | "OUT"})}
+                    onValueChange={(value) => setNewMovement({...newMovement, direction: value as "IN" | "OUT" | "MOVE", serialNumbers: []})}
                   >
                     <SelectTrigger className="col-span-3">
                       <SelectValue placeholder="Select direction" />
@@ -290,9 +371,160 @@ export default function InventoryMovements() {
                     <SelectContent>
                       <SelectItem value="IN">IN (Receiving)</SelectItem>
                       <SelectItem value="OUT">OUT (Shipping)</SelectItem>
+                      <SelectItem value="MOVE">MOVE (Between locations)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {newMovement.direction !== "IN" && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <label className="text-right">
+                      From Location
+                    </label>
+                    <Select
+                      value={newMovement.fromLocationId}
+                      onValueChange={(value) => setNewMovement({...newMovement, fromLocationId: value, serialNumbers: []})}
+                    >
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {locationsData?.map((location) => (
+                          <SelectItem key={location.id} value={location.id.toString()}>
+                            {location.path} ({location.locationType})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {newMovement.direction !== "OUT" && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <label className="text-right">
+                      To Location
+                    </label>
+                    <Select
+                      value={newMovement.toLocationId}
+                      onValueChange={(value) => setNewMovement({...newMovement, toLocationId: value})}
+                    >
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                        {locationsData
+                          ?.filter((location) => location.isActive)
+                          .map((location) => (
+                            <SelectItem key={location.id} value={location.id.toString()}>
+                              {location.path} ({location.locationType})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {newMovement.direction === "IN" && selectedProduct && selectedProduct.valuationMethod !== "STANDARD" && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <label htmlFor="unitCost" className="text-right">
+                      Unit Cost
+                    </label>
+                    <Input
+                      id="unitCost"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={selectedProduct.cost ? `${selectedProduct.cost} (product cost)` : "Product cost"}
+                      value={newMovement.unitCost}
+                      onChange={(e) => setNewMovement({...newMovement, unitCost: e.target.value})}
+                      className="col-span-3"
+                    />
+                  </div>
+                )}
+                {tracksLots && (
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <label htmlFor="lotNumber" className="text-right">
+                      Lot
+                    </label>
+                    <Input
+                      id="lotNumber"
+                      placeholder="Lot number"
+                      value={newMovement.lotNumber}
+                      onChange={(e) => setNewMovement({...newMovement, lotNumber: e.target.value})}
+                      className={newMovement.direction === "IN" && selectedProduct?.isExpiryControlled ? "col-span-2" : "col-span-3"}
+                    />
+                    {newMovement.direction === "IN" && selectedProduct?.isExpiryControlled && (
+                      <Input
+                        id="expiryDate"
+                        type="date"
+                        title="Expiry date"
+                        value={newMovement.expiryDate}
+                        onChange={(e) => setNewMovement({...newMovement, expiryDate: e.target.value})}
+                      />
+                    )}
+                  </div>
+                )}
+                {isSerialized && newMovement.direction === "IN" && (
+                  <div className="grid grid-cols-4 items-start gap-4">
+                    <label htmlFor="serialNumbers" className="text-right pt-2">
+                      Serials
+                    </label>
+                    <Textarea
+                      id="serialNumbers"
+                      placeholder="One serial number per line"
+                      value={newMovement.serialNumbers.join("\n")}
+                      onChange={(e) => setNewMovement({...newMovement, serialNumbers: e.target.value.split("\n")})}
+                      className="col-span-3 font-mono"
+                      rows={4}
+                    />
+                  </div>
+                )}
+                {isSerialized && newMovement.direction !== "IN" && (
+                  <div className="grid grid-cols-4 items-start gap-4">
+                    <span className="text-right text-sm pt-1">Serials</span>
+                    <div className="col-span-3 max-h-40 space-y-1 overflow-y-auto rounded-md border p-2">
+                      {pickableSerials && pickableSerials.length > 0 ? (
+                        pickableSerials.map((serial) => (
+                          <label key={serial.id} className="flex items-center gap-2 text-sm font-mono">
+                            <Checkbox
+                              checked={newMovement.serialNumbers.includes(serial.serialNumber)}
+                              onCheckedChange={(checked) => toggleSerial(serial.serialNumber, checked === true)}
+                            />
+                            {serial.serialNumber}
+                          </label>
+                        ))
+                      ) : (
+                        <p className="text-sm text-muted-foreground">No serials in stock at this location</p>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {fefoPicks && fefoPicks.length > 0 && (
+                  <div className="grid grid-cols-4 gap-4">
+                    <span className="text-right text-sm text-muted-foreground">Suggested</span>
+                    <div className="col-span-3 space-y-1">
+                      {fefoPicks.map((pick) => (
+                        <button
+                          key={`${pick.locationId}-${pick.lotId}`}
+                          type="button"
+                          className="flex w-full justify-between rounded-md border px-2 py-1 text-left text-sm hover:bg-muted"
+                          onClick={() => setNewMovement({
+                            ...newMovement,
+                            fromLocationId: pick.locationId?.toString() ?? UNASSIGNED,
+                            lotNumber: pick.lotNumber ?? "",
+                            quantity: pick.quantity.toString(),
+                          })}
+                        >
+                          <span>
+                            <span className="font-mono">{pick.locationPath ?? "Unassigned"}</span>
+                            {pick.lotNumber && <> · Lot {pick.lotNumber}</>}
+                            {pick.expiryDate && <span className="text-muted-foreground"> · expires {pick.expiryDate}</span>}
+                          </span>
+                          <span className="font-medium">{pick.quantity}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 <div className="grid grid-cols-4 items-center gap-4">
                   <label htmlFor="referenceId" className="text-right">
                     Reference #
@@ -356,6 +588,7 @@ export default function InventoryMovements() {
                 <SelectItem value="_all">All Movements</SelectItem>
                 <SelectItem value="IN">Incoming</SelectItem>
                 <SelectItem value="OUT">Outgoing</SelectItem>
+                <SelectItem value="MOVE">Internal Moves</SelectItem>
               </SelectContent>
             </Select>
             <Select value={warehouseFilter} onValueChange={setWarehouseFilter}>
@@ -387,6 +620,7 @@ export default function InventoryMovements() {
                   <TableHead>Product</TableHead>
                   <TableHead>Warehouse</TableHead>
                   <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
                   <TableHead>Reference</TableHead>
                   <TableHead>Created By</TableHead>
                   <TableHead>Notes</TableHead>
@@ -406,10 +640,14 @@ export default function InventoryMovements() {
                         <div className="flex items-center">
                           {movement.direction === "IN" ? (
                             <ArrowDownCircle className="mr-2 h-4 w-4 text-green-500" />
+                          ) : movement.direction === "MOVE" ? (
+                            <ArrowRightLeft className="mr-2 h-4 w-4 text-blue-500" />
                           ) : (
                             <ArrowUpCircle className="mr-2 h-4 w-4 text-red-500" />
                           )}
-                          <span className={movement.direction === "IN" ? "text-green-600" : "text-red-600"}>
+                          <span className={
+                            movement.direction === "IN" ? "text-green-600" : movement.direction === "MOVE" ? "text-blue-600" : "text-red-600"
+                          }>
                             {movement.direction}
                           </span>
                         </div>
@@ -422,10 +660,21 @@ export default function InventoryMovements() {
                       </TableCell>
                       <TableCell>
                         {movement.warehouse?.name || `Warehouse #${movement.warehouseId}`}
+                        {(movement.fromLocationPath || movement.toLocationPath) && (
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {[movement.fromLocationPath, movement.toLocationPath].filter(Boolean).join(" → ")}
+                          </div>
+                        )}
+                        {movement.lotNumber && (
+                          <div className="text-xs text-muted-foreground">Lot {movement.lotNumber}</div>
+                        )}
                       </TableCell>
                       <TableCell className="text-right font-medium">
                         {parseFloat(movement.quantity).toFixed(2)}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {movement.totalCost !== null ? parseFloat(movement.totalCost).toFixed(2) : "—"}
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center">
                           <span className="text-xs px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800">
@@ -446,7 +695,7 @@ export default function InventoryMovements() {
                   ))
                 ) : (
                   <TableRow>
-                    <TableCell colSpan={8} className="text-center py-6 text-muted-foreground">
+                    <TableCell colSpan={9} className="text-center py-6 text-muted-foreground">
                       No stock movements found
                     </TableCell>
                   </TableRow>
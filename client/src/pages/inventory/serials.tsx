@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SerialLookup, Warehouse } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Loader2, Search } from "lucide-react";
+
+export default function SerialLookupPage() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [serial, setSerial] = useState("");
+
+  const { data: units, isLoading } = useQuery<SerialLookup[]>({
+    queryKey: [`/api/serials/lookup?serial=${encodeURIComponent(serial)}`],
+    enabled: serial !== "",
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const warehouseName = (id: string | null) =>
+    id ? warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id : "—";
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Serial Lookup</h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Find where a serialized unit is and every movement that carried it
+        </p>
+      </div>
+
+      <form
+        className="mb-6 flex max-w-lg gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSerial(searchTerm.trim());
+        }}
+      >
+        <Input
+          placeholder="Serial number"
+          className="font-mono"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+        />
+        <Button type="submit" disabled={!searchTerm.trim()}>
+          <Search className="mr-2 h-4 w-4" /> Find
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center p-6">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : serial && units?.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No unit with serial {serial} has been received</p>
+      ) : (
+        units?.map((unit) => (
+          <Card key={unit.id} className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <span className="font-mono">{unit.serialNumber}</span>
+                <Badge variant={unit.status === "IN_STOCK" ? "default" : "secondary"}>
+                  {unit.status === "IN_STOCK" ? "In stock" : "Shipped"}
+                </Badge>
+              </CardTitle>
+              <CardDescription>
+                {unit.productName} ({unit.sku})
+                {unit.status === "IN_STOCK"
+                  ? ` · ${warehouseName(unit.warehouseId)} · ${unit.locationPath || "Unassigned"}`
+                  : ` · last shipped from ${warehouseName(unit.warehouseId)}`}
+                {unit.lotNumber && ` · Lot ${unit.lotNumber}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Direction</TableHead>
+                      <TableHead>Warehouse</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Reference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {unit.history.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell>
+                          {movement.createdAt ? new Date(movement.createdAt).toLocaleString() : "—"}
+                        </TableCell>
+                        <TableCell>{movement.direction}</TableCell>
+                        <TableCell>{warehouseName(movement.warehouseId)}</TableCell>
+                        <TableCell className="font-mono">
+                          {[movement.fromLocationPath, movement.toLocationPath].filter(Boolean).join(" → ") || "—"}
+                        </TableCell>
+                        <TableCell>
+                          {movement.referenceType}
+                          {movement.referenceId && <span className="ml-2 text-muted-foreground">{movement.referenceId}</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </DashboardLayout>
+  );
+}
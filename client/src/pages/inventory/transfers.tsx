@@ -0,0 +1,610 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { Product, Transfer, TransferLine, TransferWithLines, Warehouse } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertTriangle,
+  ArrowRight,
+  Loader2,
+  PackageCheck,
+  Plus,
+  Trash2,
+  TruckIcon,
+} from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+type InTransitStock = {
+  productId: number;
+  sourceWarehouseId: string;
+  destinationWarehouseId: string;
+  quantity: string;
+};
+
+type DraftLine = { productId: string; quantity: string };
+type ReceiptLine = { quantity: string; discrepancyNotes: string };
+
+const STATUS_STYLES: Record<string, string> = {
+  DRAFT: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-100",
+  IN_TRANSIT: "bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100",
+  RECEIVED: "bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100",
+};
+
+const emptyDraft = () => ({
+  sourceWarehouseId: "",
+  destinationWarehouseId: "",
+  notes: "",
+  lines: [{ productId: "", quantity: "" }] as DraftLine[],
+});
+
+// Server errors arrive as "<status>: <json body>"
+function describeError(error: Error) {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+:\s*/, "")) as { message?: string; errors?: string };
+    return body.errors ?? body.message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function inTransitQuantity(transfer: Transfer, line: TransferLine) {
+  if (transfer.status !== "IN_TRANSIT") return 0;
+  return Math.max(parseFloat(line.quantity) - parseFloat(line.receivedQuantity), 0);
+}
+
+// Received minus dispatched once the transfer is closed; negative means stock went missing
+function discrepancy(transfer: Transfer, line: TransferLine) {
+  if (transfer.status !== "RECEIVED") return 0;
+  return parseFloat(line.receivedQuantity) - parseFloat(line.quantity);
+}
+
+export default function InventoryTransfers() {
+  const { toast } = useToast();
+  const { hasPermission } = useAuth();
+  const canAdjust = hasPermission("inventory.adjust");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [receipt, setReceipt] = useState<Record<number, ReceiptLine>>({});
+  const [closeShort, setCloseShort] = useState(false);
+
+  const { data: transfers, isLoading } = useQuery<Transfer[]>({
+    queryKey: ["/api/transfers"],
+  });
+
+  const { data: inTransit } = useQuery<InTransitStock[]>({
+    queryKey: ["/api/transfers/in-transit"],
+  });
+
+  const { data: selected, isLoading: isSelectedLoading } = useQuery<TransferWithLines>({
+    queryKey: [`/api/transfers/${selectedId}`],
+    enabled: selectedId !== null,
+  });
+
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const warehouseName = (id: string) => warehouses?.find((warehouse) => warehouse.id === id)?.name ?? id;
+  const productName = (id: number) => {
+    const product = products?.find((entry) => entry.id === id);
+    return product ? `${product.name} (${product.sku})` : `Product #${id}`;
+  };
+
+  const refreshTransfers = (id?: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transfers/in-transit"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/stock-movements/recent"] });
+    if (id !== undefined) {
+      queryClient.invalidateQueries({ queryKey: [`/api/transfers/${id}`] });
+    }
+  };
+
+  const openTransfer = (id: number) => {
+    setSelectedId(id);
+    setReceipt({});
+    setCloseShort(false);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/transfers", {
+        sourceWarehouseId: draft.sourceWarehouseId,
+        destinationWarehouseId: draft.destinationWarehouseId,
+        notes: draft.notes || null,
+        lines: draft.lines.map((line) => ({
+          productId: parseInt(line.productId),
+          quantity: parseFloat(line.quantity),
+        })),
+      });
+      return (await res.json()) as TransferWithLines;
+    },
+    onSuccess: (transfer) => {
+      refreshTransfers();
+      setIsCreateOpen(false);
+      setDraft(emptyDraft());
+      toast({
+        title: "Transfer created",
+        description: `${transfer.transferNumber} is ready to dispatch`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create transfer: ${describeError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dispatchMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/transfers/${id}/dispatch`);
+    },
+    onSuccess: (_data, id) => {
+      refreshTransfers(id);
+      toast({
+        title: "Transfer dispatched",
+        description: "The stock left the source warehouse and is now in transit",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to dispatch transfer: ${describeError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (transfer: TransferWithLines) => {
+      const lines = transfer.lines
+        .filter((line) => receipt[line.id]?.quantity || receipt[line.id]?.discrepancyNotes)
+        .map((line) => ({
+          lineId: line.id,
+          quantity: parseFloat(receipt[line.id]?.quantity || "0"),
+          discrepancyNotes: receipt[line.id]?.discrepancyNotes || undefined,
+        }));
+      const res = await apiRequest("POST", `/api/transfers/${transfer.id}/receive`, { lines, close: closeShort });
+      return (await res.json()) as TransferWithLines;
+    },
+    onSuccess: (transfer) => {
+      refreshTransfers(transfer.id);
+      setReceipt({});
+      setCloseShort(false);
+      toast({
+        title: transfer.status === "RECEIVED" ? "Transfer received" : "Partial receipt booked",
+        description: transfer.status === "RECEIVED"
+          ? "All lines are closed"
+          : "The rest of the transfer stays in transit",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to receive transfer: ${describeError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraftLine = (index: number, changes: Partial<DraftLine>) => {
+    setDraft({
+      ...draft,
+      lines: draft.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    });
+  };
+
+  const updateReceiptLine = (lineId: number, changes: Partial<ReceiptLine>) => {
+    setReceipt({
+      ...receipt,
+      [lineId]: { ...(receipt[lineId] ?? { quantity: "", discrepancyNotes: "" }), ...changes },
+    });
+  };
+
+  const isDraftValid =
+    !!draft.sourceWarehouseId &&
+    !!draft.destinationWarehouseId &&
+    draft.sourceWarehouseId !== draft.destinationWarehouseId &&
+    draft.lines.every((line) => line.productId && parseFloat(line.quantity) > 0);
+
+  const hasReceipt = Object.values(receipt).some((line) => line.quantity || line.discrepancyNotes);
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Transfers</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Move stock between warehouses and track what is still on the road
+          </p>
+        </div>
+        {canAdjust && (
+          <div className="mt-4 sm:mt-0">
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" /> New Transfer
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>In Transit</CardTitle>
+          <CardDescription>
+            Dispatched stock not yet received; it counts toward neither warehouse's on-hand
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {inTransit && inTransit.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inTransit.map((row) => (
+                  <TableRow key={`${row.productId}-${row.sourceWarehouseId}-${row.destinationWarehouseId}`}>
+                    <TableCell>{productName(row.productId)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        {warehouseName(row.sourceWarehouseId)}
+                        <ArrowRight className="mx-2 h-4 w-4 text-muted-foreground" />
+                        {warehouseName(row.destinationWarehouseId)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{parseFloat(row.quantity).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing is in transit</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transfer Documents</CardTitle>
+          <CardDescription>Select a transfer to dispatch it or book a receipt</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Transfer #</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Dispatched</TableHead>
+                    <TableHead>Received</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers && transfers.length > 0 ? (
+                    transfers.map((transfer) => (
+                      <TableRow
+                        key={transfer.id}
+                        className="cursor-pointer"
+                        onClick={() => openTransfer(transfer.id)}
+                      >
+                        <TableCell className="font-medium">{transfer.transferNumber}</TableCell>
+                        <TableCell>{warehouseName(transfer.sourceWarehouseId)}</TableCell>
+                        <TableCell>{warehouseName(transfer.destinationWarehouseId)}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_STYLES[transfer.status]}>{transfer.status.replace("_", " ")}</Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {transfer.dispatchedAt ? format(new Date(transfer.dispatchedAt), "MMM d, yyyy HH:mm") : "—"}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {transfer.receivedAt ? format(new Date(transfer.receivedAt), "MMM d, yyyy HH:mm") : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        No transfers yet
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => { setIsCreateOpen(open); if (!open) setDraft(emptyDraft()); }}>
+        <DialogContent className="sm:max-w-[650px]">
+          <DialogHeader>
+            <DialogTitle>New Transfer</DialogTitle>
+            <DialogDescription>
+              The transfer is saved as a draft. Stock leaves the source warehouse when it is dispatched.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">From</label>
+                <Select
+                  value={draft.sourceWarehouseId}
+                  onValueChange={(value) => setDraft({ ...draft, sourceWarehouseId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Source warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses?.map((warehouse) => (
+                      <SelectItem key={warehouse.id} value={warehouse.id}>
+                        {warehouse.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">To</label>
+                <Select
+                  value={draft.destinationWarehouseId}
+                  onValueChange={(value) => setDraft({ ...draft, destinationWarehouseId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Destination warehouse" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {warehouses
+                      ?.filter((warehouse) => warehouse.id !== draft.sourceWarehouseId)
+                      .map((warehouse) => (
+                        <SelectItem key={warehouse.id} value={warehouse.id}>
+                          {warehouse.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Lines</label>
+              {draft.lines.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select
+                    value={line.productId}
+                    onValueChange={(value) => updateDraftLine(index, { productId: value })}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select a product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products?.map((product) => (
+                        <SelectItem key={product.id} value={product.id.toString()}>
+                          {product.name} ({product.sku})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Qty"
+                    className="w-28"
+                    value={line.quantity}
+                    onChange={(e) => updateDraftLine(index, { quantity: e.target.value })}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    disabled={draft.lines.length === 1}
+                    onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, lines: [...draft.lines, { productId: "", quantity: "" }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" /> Add Line
+              </Button>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Notes</label>
+              <Input value={draft.notes} onChange={(e) => setDraft({ ...draft, notes: e.target.value })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!isDraftValid || createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Create Transfer
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>{selected ? `Transfer ${selected.transferNumber}` : "Transfer"}</DialogTitle>
+            {selected && (
+              <DialogDescription>
+                {warehouseName(selected.sourceWarehouseId)} to {warehouseName(selected.destinationWarehouseId)}
+                {selected.notes ? ` · ${selected.notes}` : ""}
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {isSelectedLoading || !selected ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="max-h-[55vh] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Dispatched</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">In Transit</TableHead>
+                      {selected.status === "IN_TRANSIT" && canAdjust && <TableHead>Receive Now</TableHead>}
+                      {selected.status === "RECEIVED" && <TableHead className="text-right">Discrepancy</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.lines.map((line) => {
+                      const difference = discrepancy(selected, line);
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            {productName(line.productId)}
+                            {line.lotNumber && (
+                              <div className="text-xs text-muted-foreground">Lot {line.lotNumber}</div>
+                            )}
+                            {line.discrepancyNotes && (
+                              <div className="text-xs text-muted-foreground">{line.discrepancyNotes}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">{parseFloat(line.quantity).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{parseFloat(line.receivedQuantity).toFixed(2)}</TableCell>
+                          <TableCell className="text-right">{inTransitQuantity(selected, line).toFixed(2)}</TableCell>
+                          {selected.status === "IN_TRANSIT" && canAdjust && (
+                            <TableCell>
+                              <div className="flex flex-col gap-1">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  max={inTransitQuantity(selected, line)}
+                                  className="w-28"
+                                  placeholder={inTransitQuantity(selected, line).toFixed(2)}
+                                  value={receipt[line.id]?.quantity ?? ""}
+                                  onChange={(e) => updateReceiptLine(line.id, { quantity: e.target.value })}
+                                />
+                                <Input
+                                  placeholder="Discrepancy note"
+                                  value={receipt[line.id]?.discrepancyNotes ?? ""}
+                                  onChange={(e) => updateReceiptLine(line.id, { discrepancyNotes: e.target.value })}
+                                />
+                              </div>
+                            </TableCell>
+                          )}
+                          {selected.status === "RECEIVED" && (
+                            <TableCell className="text-right">
+                              {difference === 0 ? (
+                                "—"
+                              ) : (
+                                <span className="inline-flex items-center text-amber-600 dark:text-amber-400">
+                                  <AlertTriangle className="mr-1 h-3 w-3" />
+                                  {difference > 0 ? "+" : ""}{difference.toFixed(2)}
+                                </span>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+              {selected.status === "IN_TRANSIT" && canAdjust && (
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox checked={closeShort} onCheckedChange={(checked) => setCloseShort(checked === true)} />
+                  <span>Close the transfer with this receipt, recording anything still missing as a discrepancy</span>
+                </label>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedId(null)}>
+                  Close
+                </Button>
+                {selected.status === "DRAFT" && canAdjust && (
+                  <Button onClick={() => dispatchMutation.mutate(selected.id)} disabled={dispatchMutation.isPending}>
+                    {dispatchMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <TruckIcon className="mr-2 h-4 w-4" />
+                    )}
+                    Dispatch
+                  </Button>
+                )}
+                {selected.status === "IN_TRANSIT" && canAdjust && (
+                  <Button
+                    onClick={() => receiveMutation.mutate(selected)}
+                    disabled={(!hasReceipt && !closeShort) || receiveMutation.isPending}
+                  >
+                    {receiveMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <PackageCheck className="mr-2 h-4 w-4" />
+                    )}
+                    Book Receipt
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { ValuationReportRow, Warehouse } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const ALL_WAREHOUSES = "_all";
+
+export default function InventoryValuation() {
+  const [asOf, setAsOf] = useState(() => new Date().toISOString().slice(0, 10));
+  const [warehouseId, setWarehouseId] = useState(ALL_WAREHOUSES);
+
+  const params = new URLSearchParams({ asOf });
+  if (warehouseId !== ALL_WAREHOUSES) params.set("warehouseId", warehouseId);
+
+  const { data: rows, isLoading } = useQuery<ValuationReportRow[]>({
+    queryKey: [`/api/inventory/valuation?${params.toString()}`],
+    enabled: asOf !== "",
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const totalValue = rows?.reduce((total, row) => total + parseFloat(row.value), 0) ?? 0;
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Inventory Valuation</h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Stock value by warehouse and category at the end of a given day
+          </p>
+        </div>
+        <div className="mt-4 flex gap-2 sm:mt-0">
+          <Input
+            type="date"
+            className="w-44"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+          />
+          <Select value={warehouseId} onValueChange={setWarehouseId}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_WAREHOUSES}>All warehouses</SelectItem>
+              {warehouses?.map((warehouse) => (
+                <SelectItem key={warehouse.id} value={warehouse.id}>
+                  {warehouse.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Valuation Report</CardTitle>
+          <CardDescription>
+            Values come from the cost recorded on each movement, so editing a product's cost does not change past valuations
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Warehouse</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows && rows.length > 0 ? (
+                    rows.map((row) => (
+                      <TableRow key={`${row.warehouseId}-${row.categoryId}`}>
+                        <TableCell>{row.warehouseName}</TableCell>
+                        <TableCell>{row.categoryName ?? "Uncategorized"}</TableCell>
+                        <TableCell className="text-right">{parseFloat(row.quantity).toFixed(2)}</TableCell>
+                        <TableCell className="text-right font-medium">{parseFloat(row.value).toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                        No stock on hand at this date
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+                {rows && rows.length > 0 && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={3}>Total</TableCell>
+                      <TableCell className="text-right font-bold">{totalValue.toFixed(2)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link, useRoute } from "wouter";
+import { format } from "date-fns";
+import type {
+  Order,
+  OrderItem,
+  OrderStatus,
+  OrderStatusHistoryEntry,
+  Product,
+  StockReservation,
+  Warehouse,
+} from "@shared/schema";
+import { EDITABLE_ORDER_STATUSES, ORDER_STATUS_TRANSITIONS } from "@shared/schema";
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { ORDER_STATUS_ACTIONS, OrderStatusBadge, OrderTypeBadge } from "@/components/orders/order-status";
+import { AddOrderLineRow, EditableOrderLineRow, OrderDetailsForm } from "@/components/orders/order-editor";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { ArrowLeft, ArrowRight, Loader2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+type OrderDetail = Order & {
+  items: OrderItem[];
+  reservations: StockReservation[];
+  statusHistory: OrderStatusHistoryEntry[];
+  customerName: string | null;
+};
+
+// Server errors arrive as "<status>: <json body>"
+function describeError(error: Error) {
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+:\s*/, "")) as { message?: string; errors?: string };
+    return body.errors ?? body.message ?? error.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function money(amount: string | null) {
+  return `$${parseFloat(amount ?? "0").toFixed(2)}`;
+}
+
+export default function OrderDetailPage() {
+  const [, params] = useRoute("/orders/:id");
+  const orderId = Number(params?.id);
+  const validId = Number.isInteger(orderId) && orderId > 0;
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [note, setNote] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const { data: order, isLoading, error } = useQuery<OrderDetail>({
+    queryKey: [`/api/orders/${orderId}`],
+    enabled: validId,
+  });
+
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+  });
+
+  const { data: warehouses } = useQuery<Warehouse[]>({
+    queryKey: ["/api/warehouses"],
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: OrderStatus) => {
+      await apiRequest("PATCH", `/api/orders/${orderId}/status`, { status, note: note.trim() || undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setNote("");
+      toast({ title: "Order updated", description: "The order status has been changed." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update order: ${describeError(error)}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Header and line edits; the server answers with the order's new totals
+  const editMutation = useMutation({
+    mutationFn: async ({ method, url, data }: { method: "POST" | "PUT" | "DELETE"; url: string; data?: Record<string, unknown> }) => {
+      const overridden = order?.status === "PROCESSING";
+      await apiRequest(method, url, { ...data, overrideReason: overridden ? overrideReason.trim() : undefined });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({ title: "Order updated", description: "Totals and reservations have been recalculated." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to edit order: ${describeError(error)}`,
+        variant: "destructive",
+      });
+      // Line inputs keep what was typed; reload them from the server
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${orderId}`] });
+    },
+  });
+  const edit = (method: "POST" | "PUT" | "DELETE", url: string, data?: Record<string, unknown>) =>
+    editMutation.mutate({ method, url, data });
+
+  const productName = (productId: number) =>
+    products?.find((product) => product.id === productId)?.name ?? `Product #${productId}`;
+  const warehouseName = (warehouseId: string | null) =>
+    warehouses?.find((warehouse) => warehouse.id === warehouseId)?.name ?? warehouseId ?? "—";
+
+  const nextStatuses = order ? ORDER_STATUS_TRANSITIONS[order.status] ?? [] : [];
+  const canChangeStatus = hasPermission("orders.approve") && nextStatuses.length > 0;
+  // A PROCESSING order can only be edited by a manager giving an override reason
+  const needsOverride = order?.status === "PROCESSING";
+  const canEdit = !!order && hasPermission("orders.create") &&
+    (EDITABLE_ORDER_STATUSES.includes(order.status) || (needsOverride && hasPermission("orders.approve")));
+  const editDisabled = editMutation.isPending || (needsOverride && !overrideReason.trim());
+
+  return (
+    <DashboardLayout>
+      <div className="mb-6">
+        <Link href="/orders">
+          <Button variant="ghost" size="sm" className="mb-2">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to orders
+          </Button>
+        </Link>
+      </div>
+
+      {validId && isLoading ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : !validId || error || !order ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Order not found
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
+                {order.orderNumber}
+                <OrderTypeBadge type={order.orderType} />
+                <OrderStatusBadge status={order.status} />
+              </h1>
+              <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                {order.orderDate ? format(new Date(order.orderDate), "MMM d, yyyy") : ""}
+                {" · "}
+                {warehouseName(order.warehouseId)}
+                {order.destinationWarehouseId && ` → ${warehouseName(order.destinationWarehouseId)}`}
+                {order.customerName && ` · ${order.customerName}`}
+              </p>
+            </div>
+          </div>
+
+          {canChangeStatus && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Change Status</CardTitle>
+                <CardDescription>
+                  Only the next steps allowed from the current status are offered
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="flex flex-col gap-3 sm:flex-row">
+                <Input
+                  placeholder="Note (optional)"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+                <div className="flex gap-2">
+                  {nextStatuses.map((status) => (
+                    <Button
+                      key={status}
+                      variant={status === "CANCELLED" ? "destructive" : "default"}
+                      disabled={statusMutation.isPending}
+                      onClick={() => statusMutation.mutate(status)}
+                    >
+                      {ORDER_STATUS_ACTIONS[status]}
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {canEdit && needsOverride && (
+            <Card className="border-amber-300">
+              <CardHeader>
+                <CardTitle>Manager Override</CardTitle>
+                <CardDescription>
+                  This order is already being processed. Edits are recorded in its timeline with the reason given here.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Input
+                  placeholder="Reason for changing a processing order"
+                  value={overrideReason}
+                  onChange={(e) => setOverrideReason(e.target.value)}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          {canEdit && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <OrderDetailsForm
+                  key={String(order.updatedAt)}
+                  order={order}
+                  disabled={editDisabled}
+                  onEdit={edit}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Items</CardTitle>
+              {canEdit && (
+                <CardDescription>
+                  Changes are saved when you leave a field; lines are priced from the product catalog
+                </CardDescription>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Unit Price</TableHead>
+                      <TableHead className="text-right">Discount</TableHead>
+                      <TableHead className="text-right">Tax</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {canEdit ? (
+                      order.items.map((item) => (
+                        <EditableOrderLineRow
+                          key={`${item.id}:${item.quantity}:${item.discountPercent}:${item.taxRate}`}
+                          item={item}
+                          productName={productName(item.productId)}
+                          disabled={editDisabled}
+                          onEdit={edit}
+                        />
+                      ))
+                    ) : order.items.length > 0 ? (
+                      order.items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell>{productName(item.productId)}</TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className="text-right">{money(item.unitPrice)}</TableCell>
+                          <TableCell className="text-right">
+                            {parseFloat(item.discountPercent) > 0 ? `${parseFloat(item.discountPercent)}% (−${money(item.discountAmount)})` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {parseFloat(item.taxRate) > 0 ? `${parseFloat(item.taxRate)}% (${money(item.taxAmount)})` : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{money(item.totalPrice)}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                          No items on this order
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {canEdit && (
+                      <AddOrderLineRow
+                        orderId={order.id}
+                        products={products ?? []}
+                        disabled={editDisabled}
+                        pending={editMutation.isPending}
+                        onEdit={edit}
+                      />
+                    )}
+                  </TableBody>
+                  {order.items.length > 0 && (
+                    <TableFooter>
+                      <TableRow>
+                        <TableCell colSpan={5}>Subtotal</TableCell>
+                        <TableCell className="text-right">{money(order.subtotal)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={5}>Discount</TableCell>
+                        <TableCell className="text-right">−{money(order.discountAmount)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={5}>Tax</TableCell>
+                        <TableCell className="text-right">{money(order.taxAmount)}</TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={5}>Total</TableCell>
+                        <TableCell className="text-right font-bold">{money(order.totalAmount)}</TableCell>
+                      </TableRow>
+                    </TableFooter>
+                  )}
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>Every status the order has been in, oldest first</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {order.statusHistory.map((entry) => (
+                  <li key={entry.id} className="border-l-2 pl-4">
+                    <div className="flex items-center gap-2">
+                      {entry.fromStatus === entry.toStatus ? (
+                        <span className="text-sm text-muted-foreground">Edited while</span>
+                      ) : entry.fromStatus ? (
+                        <>
+                          <OrderStatusBadge status={entry.fromStatus} />
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Created as</span>
+                      )}
+                      <OrderStatusBadge status={entry.toStatus} />
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">
+                      {entry.changedAt ? format(new Date(entry.changedAt), "MMM d, yyyy HH:mm") : ""}
+                      {entry.changedByName ? ` by ${entry.changedByName}` : ""}
+                    </p>
+                    {entry.note && <p className="mt-1 text-sm">{entry.note}</p>}
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </DashboardLayout>
+  );
+}
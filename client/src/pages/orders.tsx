@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -25,7 +25,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Badge } from "@/components/ui/badge";
 import {
   Loader2,
   Plus,
@@ -34,11 +33,8 @@ import {
   Download,
   AlertTriangle,
   Calendar,
-  ShoppingCart,
-  PackageCheck,
-  TruckIcon,
-  ClipboardCheck,
   MoreHorizontal,
+  HistoryIcon,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -48,28 +44,37 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { HistoryDrawer } from "@/components/audit/history-drawer";
+import { ORDER_STATUS_ACTIONS, OrderStatusBadge, OrderTypeBadge } from "@/components/orders/order-status";
+import { ORDER_STATUS_TRANSITIONS, type OrderStatus, type OrderType, type Warehouse } from "@shared/schema";
 
 // Define interface for order data
 interface Order {
   id: number;
   orderNumber: string;
   orderDate: string;
-  status: string;
-  orderType: string;
-  customerName?: string;
-  total?: string;
+  status: OrderStatus;
+  orderType: OrderType;
+  customerName: string | null;
+  totalAmount: string | null;
   items?: number;
-  warehouseId?: string;
-  warehouse?: {
-    name: string;
-  };
+  warehouseId: string | null;
+  destinationWarehouseId: string | null;
 }
 
 export default function OrdersPage() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
   const [typeFilter, setTypeFilter] = useState("");
+  const [warehouseFilter, setWarehouseFilter] = useState("");
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
 
   // Fetch orders data
   const { data: ordersData, isLoading, error } = useQuery({
@@ -77,10 +82,33 @@ export default function OrdersPage() {
   });
 
   // Fetch warehouses for filter
-  const { data: warehousesData } = useQuery({
+  const { data: warehousesData } = useQuery<Warehouse[]>({
     queryKey: ["/api/warehouses"],
   });
 
+  // Status changes reserve, release or ship stock on the server
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: OrderStatus }) => {
+      const res = await apiRequest("PATCH", `/api/orders/${id}/status`, { status });
+      return res.json();
+    },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      toast({
+        title: "Order updated",
+        description: `Order moved to ${status.toLowerCase()}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update order: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <DashboardLayout>
@@ -124,92 +152,20 @@ export default function OrdersPage() {
 
     const matchesStatus = !statusFilter || order.status === statusFilter;
     const matchesType = !typeFilter || order.orderType === typeFilter;
+    const matchesWarehouse =
+      !warehouseFilter || order.warehouseId === warehouseFilter || order.destinationWarehouseId === warehouseFilter;
 
-    return matchesSearch && matchesStatus && matchesType;
+    return matchesSearch && matchesStatus && matchesType && matchesWarehouse;
   });
 
+  const warehouseName = (warehouseId: string | null) =>
+    warehousesData?.find((warehouse) => warehouse.id === warehouseId)?.name ?? warehouseId;
+
   const resetFilters = () => {
     setSearchTerm("");
     setStatusFilter("");
     setTypeFilter("");
-  };
-
-  // Function to render status badge with appropriate color
-  const renderStatusBadge = (status: string) => {
-    switch (status) {
-      case "PENDING":
-        return (
-          <Badge variant="outline" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-100">
-            <ShoppingCart className="mr-1 h-3 w-3" /> Pending
-          </Badge>
-        );
-      case "PROCESSING":
-        return (
-          <Badge variant="outline" className="bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100">
-            <PackageCheck className="mr-1 h-3 w-3" /> Processing
-          </Badge>
-        );
-      case "SHIPPED":
-        return (
-          <Badge variant="outline" className="bg-indigo-100 text-indigo-800 dark:bg-indigo-800 dark:text-indigo-100">
-            <TruckIcon className="mr-1 h-3 w-3" /> Shipped
-          </Badge>
-        );
-      case "DELIVERED":
-        return (
-          <Badge variant="outline" className="bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
-            <ClipboardCheck className="mr-1 h-3 w-3" /> Delivered
-          </Badge>
-        );
-      case "CANCELLED":
-        return (
-          <Badge variant="outline" className="bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100">
-            <AlertTriangle className="mr-1 h-3 w-3" /> Cancelled
-          </Badge>
-        );
-      default:
-        return (
-          <Badge variant="outline">
-            {status}
-          </Badge>
-        );
-    }
-  };
-
-  // Function to render order type badge
-  const renderTypeBadge = (type: string) => {
-    switch (type) {
-      case "INBOUND":
-        return (
-          <Badge className="bg-green-100 text-green-800 dark:bg-green-800 dark:text-green-100">
-            Inbound
-          </Badge>
-        );
-      case "OUTBOUND":
-        return (
-          <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-800 dark:text-blue-100">
-            Outbound
-          </Badge>
-        );
-      case "TRANSFER":
-        return (
-          <Badge className="bg-purple-100 text-purple-800 dark:bg-purple-800 dark:text-purple-100">
-            Transfer
-          </Badge>
-        );
-      case "RETURN":
-        return (
-          <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-800 dark:text-amber-100">
-            Return
-          </Badge>
-        );
-      default:
-        return (
-          <Badge>
-            {type}
-          </Badge>
-        );
-    }
+    setWarehouseFilter("");
   };
 
   return (
@@ -257,10 +213,11 @@ export default function OrdersPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="">All Statuses</SelectItem>
+                <SelectItem value="DRAFT">Draft</SelectItem>
                 <SelectItem value="PENDING">Pending</SelectItem>
                 <SelectItem value="PROCESSING">Processing</SelectItem>
                 <SelectItem value="SHIPPED">Shipped</SelectItem>
-                <SelectItem value="DELIVERED">Delivered</SelectItem>
+                <SelectItem value="COMPLETED">Completed</SelectItem>
                 <SelectItem value="CANCELLED">Cancelled</SelectItem>
               </SelectContent>
             </Select>
@@ -276,7 +233,20 @@ export default function OrdersPage() {
                 <SelectItem value="RETURN">Return</SelectItem>
               </SelectContent>
             </Select>
-            {(searchTerm || statusFilter || typeFilter) && (
+            <Select value={warehouseFilter} onValueChange={setWarehouseFilter}>
+              <SelectTrigger className="w-full sm:w-1/5">
+                <SelectValue placeholder="All Warehouses" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">All Warehouses</SelectItem>
+                {warehousesData?.map((warehouse) => (
+                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                    {warehouse.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {(searchTerm || statusFilter || typeFilter || warehouseFilter) && (
               <Button variant="outline" onClick={resetFilters}>
                 <FilterX className="mr-2 h-4 w-4" /> Clear Filters
               </Button>
@@ -311,19 +281,20 @@ export default function OrdersPage() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        {renderTypeBadge(order.orderType)}
+                        <OrderTypeBadge type={order.orderType} />
                       </TableCell>
                       <TableCell>
                         {order.customerName || "—"}
                       </TableCell>
                       <TableCell>
-                        {renderStatusBadge(order.status)}
+                        <OrderStatusBadge status={order.status} />
                       </TableCell>
                       <TableCell>
-                        {order.warehouse?.name || "—"}
+                        {order.warehouseId ? warehouseName(order.warehouseId) : "—"}
+                        {order.destinationWarehouseId && ` → ${warehouseName(order.destinationWarehouseId)}`}
                       </TableCell>
                       <TableCell className="text-right">
-                        {order.total ? `$${parseFloat(order.total).toFixed(2)}` : "—"}
+                        {order.totalAmount ? `$${parseFloat(order.totalAmount).toFixed(2)}` : "—"}
                       </TableCell>
                       <TableCell>
                         <DropdownMenu>
@@ -336,18 +307,40 @@ export default function OrdersPage() {
                           <DropdownMenuContent align="end">
                             <DropdownMenuLabel>Actions</DropdownMenuLabel>
                             <DropdownMenuItem 
-                              onClick={() => window.location.href = `/orders/${order.id}`}
+                              onClick={() => navigate(`/orders/${order.id}`)}
                             >
                               View details
                             </DropdownMenuItem>
                             <DropdownMenuItem>Edit order</DropdownMenuItem>
+                            {hasPermission("audit.view") && (
+                              <DropdownMenuItem onClick={() => setHistoryOrder(order)}>
+                                <HistoryIcon className="mr-2 h-4 w-4" /> History
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
-                            <DropdownMenuItem>Process order</DropdownMenuItem>
+                            {hasPermission("orders.approve") &&
+                              ORDER_STATUS_TRANSITIONS[order.status]
+                                ?.filter((status) => status !== "CANCELLED")
+                                .map((status) => (
+                                  <DropdownMenuItem
+                                    key={status}
+                                    onClick={() => statusMutation.mutate({ id: order.id, status })}
+                                  >
+                                    {ORDER_STATUS_ACTIONS[status]}
+                                  </DropdownMenuItem>
+                                ))}
                             <DropdownMenuItem>Print invoice</DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem className="text-red-600">
-                              Cancel order
-                            </DropdownMenuItem>
+                            {hasPermission("orders.approve") && ORDER_STATUS_TRANSITIONS[order.status]?.includes("CANCELLED") && (
+                              <>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem
+                                  className="text-red-600"
+                                  onClick={() => statusMutation.mutate({ id: order.id, status: "CANCELLED" })}
+                                >
+                                  {ORDER_STATUS_ACTIONS.CANCELLED}
+                                </DropdownMenuItem>
+                              </>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -371,6 +364,14 @@ export default function OrdersPage() {
           </div>
         </CardContent>
       </Card>
+
+      <HistoryDrawer
+        entityType="order"
+        entityId={historyOrder?.id ?? null}
+        title={historyOrder ? `Order ${historyOrder.orderNumber}` : ""}
+        open={historyOrder !== null}
+        onOpenChange={(open) => !open && setHistoryOrder(null)}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
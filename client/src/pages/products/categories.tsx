@@ -61,14 +61,19 @@ import {
   X,
   FolderTree,
   MoreHorizontal,
+  Archive,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { TrashDialog, describeDeleteError } from "@/components/trash/trash-dialog";
+import { NegativeStockPolicySelect } from "@/components/inventory/negative-stock-policy-select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { 
   insertProductCategorySchema,
+  NEGATIVE_STOCK_POLICIES,
   ProductCategory
 } from "@shared/schema";
 import {
@@ -87,6 +92,8 @@ export default function ProductCategoriesPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentCategory, setCurrentCategory] = useState<ProductCategory | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const { hasPermission } = useAuth();
   const [sortBy, setSortBy] = useState("name");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
 
@@ -97,6 +104,7 @@ export default function ProductCategoriesPage() {
       parentId: z.number().optional().nullable(),
       isActive: z.boolean().default(true),
       isFeatured: z.boolean().default(false),
+      negativeStockPolicy: z.enum(NEGATIVE_STOCK_POLICIES).nullish(),
     });
 
   // Fetch categories
@@ -189,7 +197,7 @@ export default function ProductCategoriesPage() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete category: ${error.message}`,
+        description: `Failed to delete category: ${describeDeleteError(error)}`,
         variant: "destructive",
       });
     },
@@ -214,6 +222,7 @@ export default function ProductCategoriesPage() {
       level: category.level || 1,
       isActive: category.isActive,
       isFeatured: category.isFeatured,
+      negativeStockPolicy: category.negativeStockPolicy ?? null,
       slug: category.slug || "",
       metaTitle: category.metaTitle || "",
       metaDescription: category.metaDescription || "",
@@ -324,6 +333,11 @@ export default function ProductCategoriesPage() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {hasPermission("products.manage") && (
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" /> Trash
+            </Button>
+          )}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -441,6 +455,23 @@ export default function ProductCategoriesPage() {
                     />
                   </div>
 
+                  <FormField
+                    control={createForm.control}
+                    name="negativeStockPolicy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Negative Stock</FormLabel>
+                        <FormControl>
+                          <NegativeStockPolicySelect allowInherit value={field.value} onChange={field.onChange} />
+                        </FormControl>
+                        <FormDescription>
+                          Overrides the warehouse policy for products in this category
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="grid grid-cols-2 gap-4">
                     <FormField
                       control={createForm.control}
@@ -790,6 +821,23 @@ export default function ProductCategoriesPage() {
                 />
               </div>
 
+              <FormField
+                control={editForm.control}
+                name="negativeStockPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Negative Stock</FormLabel>
+                    <FormControl>
+                      <NegativeStockPolicySelect allowInherit value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormDescription>
+                      Overrides the warehouse policy for products in this category
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={editForm.control}
@@ -891,7 +939,7 @@ export default function ProductCategoriesPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the category "{currentCategory?.name}"? This action cannot be undone.
+              Are you sure you want to delete the category "{currentCategory?.name}"? It can be restored from the trash.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="mt-4">
@@ -913,6 +961,15 @@ export default function ProductCategoriesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <TrashDialog<ProductCategory>
+        endpoint="/api/product-categories"
+        title="Deleted Categories"
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        getLabel={(category) => category.name}
+        getDetail={(category) => category.code}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
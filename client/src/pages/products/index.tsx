@@ -61,8 +61,13 @@ import {
   X,
   MoreHorizontal,
   Save,
+  HistoryIcon,
+  Archive,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { HistoryDrawer } from "@/components/audit/history-drawer";
+import { TrashDialog, describeDeleteError } from "@/components/trash/trash-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -70,7 +75,9 @@ import { useForm } from "react-hook-form";
 import { 
   insertProductSchema,
   InsertProduct,
-  Product
+  Product,
+  VALUATION_METHODS,
+  type ValuationMethod
 } from "@shared/schema";
 import {
   DropdownMenu,
@@ -81,6 +88,15 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
+const VALUATION_METHOD_LABELS: Record<ValuationMethod, string> = {
+  FIFO: "FIFO",
+  MOVING_AVERAGE: "Moving weighted average",
+  STANDARD: "Standard cost",
+};
+
+// Select items cannot carry null, so this stands in for "use the company-wide method"
+const COMPANY_DEFAULT = "_default";
+
 export default function ProductsPage() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
@@ -89,6 +105,9 @@ export default function ProductsPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Product | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const { hasPermission } = useAuth();
   const [sortBy, setSortBy] = useState("name");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
 
@@ -101,7 +120,10 @@ export default function ProductsPage() {
     minStockLevel: z.coerce.number().min(0, "Min stock level cannot be negative").optional(),
     maxStockLevel: z.coerce.number().min(0, "Max stock level cannot be negative").optional(),
     reorderPoint: z.coerce.number().min(0, "Reorder point cannot be negative").optional(),
-    isActive: z.boolean().default(true)
+    isActive: z.boolean().default(true),
+    isLotControlled: z.boolean().default(false),
+    isExpiryControlled: z.boolean().default(false),
+    isSerialized: z.boolean().default(false)
   });
 
   // Fetch products
@@ -126,6 +148,9 @@ export default function ProductsPage() {
       name: "",
       sku: "",
       isActive: true,
+      isLotControlled: false,
+      isExpiryControlled: false,
+      isSerialized: false,
       minStockLevel: 0,
     },
   });
@@ -137,6 +162,9 @@ export default function ProductsPage() {
       name: "",
       sku: "",
       isActive: true,
+      isLotControlled: false,
+      isExpiryControlled: false,
+      isSerialized: false,
     },
   });
 
@@ -202,7 +230,7 @@ export default function ProductsPage() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete product: ${error.message}`,
+        description: `Failed to delete product: ${describeDeleteError(error)}`,
         variant: "destructive",
       });
     },
@@ -236,6 +264,10 @@ export default function ProductsPage() {
       reorderPoint: product.reorderPoint || undefined,
       leadTime: product.leadTime || undefined,
       isActive: product.isActive,
+      isLotControlled: product.isLotControlled,
+      isExpiryControlled: product.isExpiryControlled,
+      isSerialized: product.isSerialized,
+      valuationMethod: product.valuationMethod,
       barcode: product.barcode || "",
       imageUrl: product.imageUrl || "",
     });
@@ -336,6 +368,11 @@ export default function ProductsPage() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {hasPermission("products.manage") && (
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" /> Trash
+            </Button>
+          )}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -488,6 +525,36 @@ export default function ProductsPage() {
                           )}
                         />
                       </div>
+                      
+                      <FormField
+                        control={createForm.control}
+                        name="valuationMethod"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Valuation Method</FormLabel>
+                            <Select
+                              value={field.value ?? COMPANY_DEFAULT}
+                              onValueChange={(value) => field.onChange(value === COMPANY_DEFAULT ? null : value)}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={COMPANY_DEFAULT}>Company default</SelectItem>
+                                {VALUATION_METHODS.map((method) => (
+                                  <SelectItem key={method} value={method}>{VALUATION_METHOD_LABELS[method]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              How shipped stock is costed. Standard-costed products receive all stock at the cost above.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     </TabsContent>
                     
                     <TabsContent value="inventory" className="space-y-4 pt-4">
@@ -570,6 +637,69 @@ export default function ProductsPage() {
                             </FormItem>
                           )}
                         />
+
+                        <FormField
+                          control={createForm.control}
+                          name="isLotControlled"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                              <div className="space-y-0.5">
+                                <FormLabel>Lot-controlled</FormLabel>
+                                <FormDescription>
+                                  Every stock movement must name a lot number
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={createForm.control}
+                          name="isExpiryControlled"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                              <div className="space-y-0.5">
+                                <FormLabel>Expiry-controlled</FormLabel>
+                                <FormDescription>
+                                  Lots carry an expiry date and are picked soonest-expiring first
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={createForm.control}
+                          name="isSerialized"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                              <div className="space-y-0.5">
+                                <FormLabel>Serialized</FormLabel>
+                                <FormDescription>
+                                  Every unit carries a serial number that is tracked through each movement
+                                </FormDescription>
+                              </div>
+                              <FormControl>
+                                <Switch
+                                  checked={field.value}
+                                  onCheckedChange={field.onChange}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
                       </div>
                     </TabsContent>
                     
@@ -814,6 +944,11 @@ export default function ProductsPage() {
                             <DropdownMenuItem onClick={() => handleDelete(product)}>
                               <Trash2 className="mr-2 h-4 w-4 text-red-500" /> Delete
                             </DropdownMenuItem>
+                            {hasPermission("audit.view") && (
+                              <DropdownMenuItem onClick={() => setHistoryProduct(product)}>
+                                <HistoryIcon className="mr-2 h-4 w-4" /> History
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -1000,6 +1135,36 @@ export default function ProductsPage() {
                       )}
                     />
                   </div>
+                  
+                  <FormField
+                    control={editForm.control}
+                    name="valuationMethod"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Valuation Method</FormLabel>
+                        <Select
+                          value={field.value ?? COMPANY_DEFAULT}
+                          onValueChange={(value) => field.onChange(value === COMPANY_DEFAULT ? null : value)}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={COMPANY_DEFAULT}>Company default</SelectItem>
+                            {VALUATION_METHODS.map((method) => (
+                              <SelectItem key={method} value={method}>{VALUATION_METHOD_LABELS[method]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          How shipped stock is costed. Standard-costed products receive all stock at the cost above.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 </TabsContent>
                 
                 <TabsContent value="inventory" className="space-y-4 pt-4">
@@ -1106,6 +1271,69 @@ export default function ProductsPage() {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={editForm.control}
+                      name="isLotControlled"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                          <div className="space-y-0.5">
+                            <FormLabel>Lot-controlled</FormLabel>
+                            <FormDescription>
+                              Every stock movement must name a lot number
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={editForm.control}
+                      name="isExpiryControlled"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                          <div className="space-y-0.5">
+                            <FormLabel>Expiry-controlled</FormLabel>
+                            <FormDescription>
+                              Lots carry an expiry date and are picked soonest-expiring first
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={editForm.control}
+                      name="isSerialized"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                          <div className="space-y-0.5">
+                            <FormLabel>Serialized</FormLabel>
+                            <FormDescription>
+                              Every unit carries a serial number that is tracked through each movement
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </TabsContent>
                 
@@ -1252,7 +1480,7 @@ export default function ProductsPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the product "{currentProduct?.name}"? This action cannot be undone.
+              Are you sure you want to delete the product "{currentProduct?.name}"? It can be restored from the trash.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="mt-4">
@@ -1274,6 +1502,23 @@ export default function ProductsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <HistoryDrawer
+        entityType="product"
+        entityId={historyProduct?.id ?? null}
+        title={historyProduct ? `${historyProduct.sku} — ${historyProduct.name}` : ""}
+        open={historyProduct !== null}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+      />
+
+      <TrashDialog<Product>
+        endpoint="/api/products"
+        title="Deleted Products"
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        getLabel={(product) => product.name}
+        getDetail={(product) => product.sku}
+      />
     </DashboardLayout>
   );
 }
@@ -50,8 +50,11 @@ import {
   Check,
   X,
   MoreHorizontal,
+  Archive,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { TrashDialog, describeDeleteError } from "@/components/trash/trash-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -76,6 +79,8 @@ export default function UnitsOfMeasurePage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentUom, setCurrentUom] = useState<UnitOfMeasure | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const { hasPermission } = useAuth();
 
   // Define form schema with zod
   const uomFormSchema = insertUnitOfMeasureSchema
@@ -170,7 +175,7 @@ export default function UnitsOfMeasurePage() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete unit of measure: ${error.message}`,
+        description: `Failed to delete unit of measure: ${describeDeleteError(error)}`,
         variant: "destructive",
       });
     },
@@ -265,6 +270,11 @@ export default function UnitsOfMeasurePage() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {hasPermission("products.manage") && (
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" /> Trash
+            </Button>
+          )}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -669,7 +679,7 @@ export default function UnitsOfMeasurePage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this unit of measure? This action cannot be undone.
+              Are you sure you want to delete this unit of measure? It can be restored from the trash.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -697,6 +707,15 @@ export default function UnitsOfMeasurePage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <TrashDialog<UnitOfMeasure>
+        endpoint="/api/units-of-measure"
+        title="Deleted Units of Measure"
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        getLabel={(uom) => uom.name}
+        getDetail={(uom) => uom.symbol}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Check, KeyRound, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+
+const resetPasswordSchema = z.object({
+  newPassword: z.string().min(1, "New password is required"),
+  confirmPassword: z.string().min(1, "Confirm password is required"),
+}).refine((data) => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const { toast } = useToast();
+  const { description: passwordPolicyDescription } = usePasswordPolicy();
+  const [isComplete, setIsComplete] = useState(false);
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (values: ResetPasswordFormValues) => {
+      await apiRequest("POST", "/api/reset-password", {
+        token,
+        newPassword: values.newPassword,
+      });
+    },
+    onSuccess: () => {
+      setIsComplete(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 dark:bg-gray-900 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl">Choose a new password</CardTitle>
+          <CardDescription>
+            Reset links are valid for a limited time and can only be used once
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="flex items-center gap-2 text-red-600 dark:text-red-400">
+              <XCircle className="h-5 w-5" />
+              <p>This reset link is missing its token. Request a new one from the login page.</p>
+            </div>
+          ) : isComplete ? (
+            <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-md flex items-center gap-2 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800">
+              <Check className="h-5 w-5" />
+              <p>Your password has been reset. You can now log in.</p>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => resetPasswordMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="newPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="New password" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        {passwordPolicyDescription}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm New Password</FormLabel>
+                      <FormControl>
+                        <Input type="password" placeholder="Confirm new password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={resetPasswordMutation.isPending}
+                >
+                  {resetPasswordMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <KeyRound className="mr-2 h-4 w-4" />
+                  )}
+                  Reset Password
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Link href="/auth" className="text-sm text-primary-600 dark:text-primary-400 hover:underline">
+            Back to login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
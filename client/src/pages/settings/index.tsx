@@ -51,10 +51,15 @@ import {
   File,
   HelpCircle,
   Briefcase,
-  Check
+  Check,
+  KeyRound
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePasswordPolicy } from "@/hooks/use-password-policy";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
+import { ActiveSessions } from "@/components/settings/active-sessions";
+import { ApiTokens } from "@/components/settings/api-tokens";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -76,8 +81,8 @@ const profileFormSchema = z.object({
 // Password change form schema
 const passwordFormSchema = z.object({
   currentPassword: z.string().min(1, "Current password is required"),
-  newPassword: z.string().min(6, "Password must be at least 6 characters"),
-  confirmPassword: z.string().min(6, "Confirm password is required"),
+  newPassword: z.string().min(1, "New password is required"),
+  confirmPassword: z.string().min(1, "Confirm password is required"),
 }).refine(data => data.newPassword === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -113,7 +118,9 @@ const companyFormSchema = z.object({
 export default function SettingsPage() {
   const { toast } = useToast();
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState("profile");
+  const { description: passwordPolicyDescription } = usePasswordPolicy();
+  // Users who must enroll in 2FA are redirected here and land on the security tab
+  const [activeTab, setActiveTab] = useState(user?.twoFactorSetupRequired ? "security" : "profile");
   const [isUpdating, setIsUpdating] = useState(false);
   const [passwordChangeSuccess, setPasswordChangeSuccess] = useState(false);
 
@@ -336,7 +343,7 @@ export default function SettingsPage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4 md:w-auto">
+        <TabsList className="grid w-full grid-cols-5 md:w-auto">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             <span className="hidden sm:inline">Profile</span>
@@ -345,6 +352,10 @@ export default function SettingsPage() {
             <Lock className="h-4 w-4" />
             <span className="hidden sm:inline">Security</span>
           </TabsTrigger>
+          <TabsTrigger value="api-tokens" className="flex items-center gap-2">
+            <KeyRound className="h-4 w-4" />
+            <span className="hidden sm:inline">API Tokens</span>
+          </TabsTrigger>
           <TabsTrigger value="system" className="flex items-center gap-2">
             <Settings className="h-4 w-4" />
             <span className="hidden sm:inline">Preferences</span>
@@ -561,7 +572,96 @@ export default function SettingsPage() {
                               <Input placeholder="New password" type="password" {...field} />
                             </FormControl>
                             <FormDescription>
-                              Minimum 6 characters
+                              {passwordPolicyDescription}
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={passwordForm.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Confirm New Password</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Confirm new password" type="password" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={isUpdating}>
+                      {isUpdating ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Save className="mr-2 h-4 w-4" />
+                      )}
+                      Save Changes
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Security Settings */}
+        <TabsContent value="security">
+          <Card>
+            <CardHeader>
+              <CardTitle>Security Settings</CardTitle>
+              <CardDescription>
+                Update your password and security preferences
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Form {...passwordForm}>
+                <form onSubmit={passwordForm.handleSubmit(onPasswordSubmit)} className="space-y-6">
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium">Change Password</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Update your password to keep your account secure
+                    </p>
+
+                    {passwordChangeSuccess && (
+                      <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-md flex items-center gap-2 text-green-800 dark:text-green-200 border border-green-200 dark:border-green-800">
+                        <Check className="h-5 w-5" />
+                        <p>Password successfully changed!</p>
+                      </div>
+                    )}
+
+                    <FormField
+                      control={passwordForm.control}
+                      name="currentPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Current Password</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Current password" type="password" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                      <FormField
+                        control={passwordForm.control}
+                        name="newPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>New Password</FormLabel>
+                            <FormControl>
+                              <Input placeholder="New password" type="password" {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              {passwordPolicyDescription}
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -618,6 +718,29 @@ export default function SettingsPage() {
                   </div>
                 </form>
               </Form>
+
+              <Separator className="my-6" />
+
+              <TwoFactorSettings />
+
+              <Separator className="my-6" />
+
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* API Tokens */}
+        <TabsContent value="api-tokens">
+          <Card>
+            <CardHeader>
+              <CardTitle>API Tokens</CardTitle>
+              <CardDescription>
+                Tokens for scanners, ERP sync jobs and other machine clients
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ApiTokens />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { Button } from "@/components/ui/button";
@@ -45,6 +45,7 @@ import {
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Loader2,
   Plus,
@@ -60,6 +61,10 @@ import {
   XCircle,
   LockIcon,
   UnlockIcon,
+  RotateCcw,
+  KeyRound,
+  ShieldOff,
+  LogOut,
   MailIcon,
   PhoneIcon,
   Building,
@@ -70,7 +75,9 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { insertUserSchema, User } from "@shared/schema";
+import { insertUserSchema, User, Warehouse } from "@shared/schema";
+import { ROLES, ROLE_LABELS, getEffectiveRole } from "@shared/permissions";
+import { useAuth } from "@/hooks/use-auth";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -83,12 +90,16 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 
 export default function UsersPage() {
   const { toast } = useToast();
+  const { user: authUser, hasPermission } = useAuth();
+  const canManageUsers = hasPermission("users.manage");
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState("_all");
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [assignedWarehouseIds, setAssignedWarehouseIds] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState("username");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("asc");
 
@@ -98,7 +109,7 @@ export default function UsersPage() {
     .extend({
       password: z.string().min(6, "Password must be at least 6 characters").optional(),
       confirmPassword: z.string().optional(),
-      isAdmin: z.boolean().default(false),
+      role: z.enum(ROLES).default("VIEWER"),
     })
     .refine((data) => {
       if (data.password && data.confirmPassword) {
@@ -111,15 +122,31 @@ export default function UsersPage() {
     });
 
   // Fetch users
-  const { data: usersData, isLoading, error } = useQuery({
-    queryKey: ["/api/users"],
+  const { data: usersData, isLoading, error } = useQuery<User[]>({
+    queryKey: [showDeleted ? "/api/users?includeDeleted=true" : "/api/users"],
   });
 
+  // Refresh both the regular and the deleted-inclusive user lists
+  const invalidateUsers = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => query.queryKey[0] === "/api/users" || query.queryKey[0] === "/api/users?includeDeleted=true",
+    });
+
   // Fetch warehouses for default warehouse assignment
-  const { data: warehousesData } = useQuery({
+  const { data: warehousesData } = useQuery<Warehouse[]>({
     queryKey: ["/api/warehouses"],
   });
 
+  // Fetch warehouse assignments for the user being edited
+  const { data: userWarehousesData } = useQuery<{ userId: number; warehouseIds: string[] }>({
+    queryKey: [`/api/users/${currentUser?.id}/warehouses`],
+    enabled: isEditDialogOpen && !!currentUser,
+  });
+
+  useEffect(() => {
+    setAssignedWarehouseIds(userWarehousesData?.warehouseIds ?? []);
+  }, [userWarehousesData]);
+
   // Create form for new user
   const createForm = useForm<z.infer<typeof userFormSchema>>({
     resolver: zodResolver(userFormSchema),
@@ -129,7 +156,7 @@ export default function UsersPage() {
       firstName: "",
       lastName: "",
       isActive: true,
-      isAdmin: false,
+      role: "VIEWER",
     },
   });
 
@@ -142,7 +169,7 @@ export default function UsersPage() {
       firstName: "",
       lastName: "",
       isActive: true,
-      isAdmin: false,
+      role: "VIEWER",
     },
   });
 
@@ -151,7 +178,7 @@ export default function UsersPage() {
     mutationFn: async (data: z.infer<typeof userFormSchema> & { password: string }) => {
       // Remove confirmPassword before sending to API
       const { confirmPassword, ...userData } = data;
-      return await apiRequest("POST", "/api/register", userData);
+      return await apiRequest("POST", "/api/users", userData);
     },
     onSuccess: () => {
       toast({
@@ -160,7 +187,7 @@ export default function UsersPage() {
       });
       setIsCreateDialogOpen(false);
       createForm.reset();
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      invalidateUsers();
     },
     onError: (error) => {
       toast({
@@ -184,7 +211,7 @@ export default function UsersPage() {
         description: "User has been updated successfully",
       });
       setIsEditDialogOpen(false);
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      invalidateUsers();
     },
     onError: (error) => {
       toast({
@@ -195,6 +222,23 @@ export default function UsersPage() {
     },
   });
 
+  // Update warehouse access mutation
+  const warehouseAccessMutation = useMutation({
+    mutationFn: async ({ id, warehouseIds }: { id: number; warehouseIds: string[] }) => {
+      return await apiRequest("PUT", `/api/users/${id}/warehouses`, { warehouseIds });
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${id}/warehouses`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update warehouse access: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete user mutation
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -207,7 +251,7 @@ export default function UsersPage() {
       });
       setIsDeleteDialogOpen(false);
       setCurrentUser(null);
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      invalidateUsers();
     },
     onError: (error) => {
       toast({
@@ -218,6 +262,110 @@ export default function UsersPage() {
     },
   });
 
+  // Send password reset link mutation
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/users/${id}/reset-password`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reset Link Sent",
+        description: "A password reset link has been emailed to the user",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to send reset link: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Unlock user mutation
+  const unlockMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/users/${id}/unlock`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "User Unlocked",
+        description: "The account lockout has been cleared",
+      });
+      invalidateUsers();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to unlock user: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Reset two-factor authentication mutation
+  const resetTwoFactorMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/users/${id}/2fa/reset`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-Factor Reset",
+        description: "The user can now log in with their password and enroll again",
+      });
+      invalidateUsers();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reset two-factor authentication: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Force logout mutation
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/users/${id}/sessions`);
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "User Signed Out",
+        description: `${data.revoked} active session(s) ended`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to sign out user: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Restore user mutation
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest("POST", `/api/users/${id}/restore`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "User Restored",
+        description: "User has been restored successfully",
+      });
+      invalidateUsers();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore user: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   const onCreateSubmit = (data: z.infer<typeof userFormSchema> & { password: string }) => {
     if (!data.password) {
       toast({
@@ -238,6 +386,15 @@ export default function UsersPage() {
     const updateData = password ? { ...restData, password } : restData;
     
     updateMutation.mutate({ id: currentUser.id, data: updateData });
+    warehouseAccessMutation.mutate({ id: currentUser.id, warehouseIds: assignedWarehouseIds });
+  };
+
+  const toggleWarehouseAccess = (warehouseId: string, checked: boolean) => {
+    setAssignedWarehouseIds((current) =>
+      checked
+        ? [...current, warehouseId]
+        : current.filter((id) => id !== warehouseId)
+    );
   };
 
   const handleEdit = (user: User) => {
@@ -257,7 +414,7 @@ export default function UsersPage() {
       defaultWarehouseId: user.defaultWarehouseId || "",
       languagePreference: user.languagePreference || "",
       isActive: user.isActive,
-      isAdmin: user.isAdmin,
+      role: getEffectiveRole(user),
     });
     setIsEditDialogOpen(true);
   };
@@ -281,9 +438,7 @@ export default function UsersPage() {
         user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
         `${user.firstName} ${user.lastName}`.toLowerCase().includes(searchTerm.toLowerCase());
       
-      const matchesRole = roleFilter === "_all" || 
-        (roleFilter === "admin" && user.isAdmin) ||
-        (roleFilter === "user" && !user.isAdmin);
+      const matchesRole = roleFilter === "_all" || getEffectiveRole(user) === roleFilter;
       
       return matchesSearch && matchesRole;
     })
@@ -371,220 +526,232 @@ export default function UsersPage() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
-          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" /> New User
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="sm:max-w-[600px]">
-              <DialogHeader>
-                <DialogTitle>Create New User</DialogTitle>
-                <DialogDescription>
-                  Fill in the details to create a new user account.
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...createForm}>
-                <form onSubmit={createForm.handleSubmit(onCreateSubmit)} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={createForm.control}
-                      name="firstName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>First Name*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="First name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={createForm.control}
-                      name="lastName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Last Name*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Last name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+          {canManageUsers && (
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" /> New User
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[600px]">
+                <DialogHeader>
+                  <DialogTitle>Create New User</DialogTitle>
+                  <DialogDescription>
+                    Fill in the details to create a new user account.
+                  </DialogDescription>
+                </DialogHeader>
+                <Form {...createForm}>
+                  <form onSubmit={createForm.handleSubmit(onCreateSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={createForm.control}
+                        name="firstName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>First Name*</FormLabel>
+                            <FormControl>
+                              <Input placeholder="First name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createForm.control}
+                        name="lastName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Last Name*</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Last name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={createForm.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username*</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Username" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={createForm.control}
-                      name="email"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Email*</FormLabel>
-                          <FormControl>
-                            <Input type="email" placeholder="Email address" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={createForm.control}
+                        name="username"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Username*</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Username" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createForm.control}
+                        name="email"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email*</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="Email address" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={createForm.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password*</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="password" 
-                              placeholder="Enter password" 
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={createForm.control}
-                      name="confirmPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Confirm Password*</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="password" 
-                              placeholder="Confirm password" 
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={createForm.control}
+                        name="password"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Password*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="password" 
+                                placeholder="Enter password" 
+                                {...field} 
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createForm.control}
+                        name="confirmPassword"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Confirm Password*</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="password" 
+                                placeholder="Confirm password" 
+                                {...field} 
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={createForm.control}
-                      name="phone"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Phone</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Phone number" {...field} value={field.value || ""} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={createForm.control}
-                      name="defaultWarehouseId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Default Warehouse</FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            value={field.value}
-                          >
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={createForm.control}
+                        name="phone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Phone</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select a warehouse" />
-                              </SelectTrigger>
+                              <Input placeholder="Phone number" {...field} value={field.value || ""} />
                             </FormControl>
-                            <SelectContent>
-                              {warehousesData?.map((warehouse: any) => (
-                                <SelectItem key={warehouse.id} value={warehouse.id}>
-                                  {warehouse.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={createForm.control}
+                        name="defaultWarehouseId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Default Warehouse</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a warehouse" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {warehousesData?.map((warehouse: any) => (
+                                  <SelectItem key={warehouse.id} value={warehouse.id}>
+                                    {warehouse.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={createForm.control}
-                      name="isActive"
-                      render={({ field }) => (
-                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
-                          <div className="space-y-0.5">
-                            <FormLabel>Active</FormLabel>
-                            <FormDescription>
-                              User can log in and access the system
-                            </FormDescription>
-                          </div>
-                          <FormControl>
-                            <Switch
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={createForm.control}
+                        name="isActive"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                            <div className="space-y-0.5">
+                              <FormLabel>Active</FormLabel>
+                              <FormDescription>
+                                User can log in and access the system
+                              </FormDescription>
+                            </div>
+                            <FormControl>
+                              <Switch
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
                     
-                    <FormField
-                      control={createForm.control}
-                      name="isAdmin"
-                      render={({ field }) => (
-                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
-                          <div className="space-y-0.5">
-                            <FormLabel>Administrator</FormLabel>
+                      <FormField
+                        control={createForm.control}
+                        name="role"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Role</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select a role" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <FormDescription>
-                              User has full admin privileges
+                              Determines what the user can see and do
                             </FormDescription>
-                          </div>
-                          <FormControl>
-                            <Switch
-                              checked={field.value}
-                              onCheckedChange={field.onChange}
-                            />
-                          </FormControl>
-                        </FormItem>
-                      )}
-                    />
-                  </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
                   
-                  <DialogFooter>
-                    <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={createMutation.isPending}>
-                      {createMutation.isPending ? (
-                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                      ) : (
-                        <UserPlus className="mr-2 h-4 w-4" />
-                      )}
-                      Create User
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit" disabled={createMutation.isPending}>
+                        {createMutation.isPending ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserPlus className="mr-2 h-4 w-4" />
+                        )}
+                        Create User
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </div>
 
@@ -615,10 +782,25 @@ export default function UsersPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="_all">All Roles</SelectItem>
-                <SelectItem value="admin">Administrators</SelectItem>
-                <SelectItem value="user">Regular Users</SelectItem>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {canManageUsers && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="show-deleted"
+                  checked={showDeleted}
+                  onCheckedChange={setShowDeleted}
+                />
+                <label htmlFor="show-deleted" className="text-sm text-muted-foreground">
+                  Show deleted
+                </label>
+              </div>
+            )}
             {(searchTerm || roleFilter !== "_all") && (
               <Button variant="outline" onClick={() => {
                 setSearchTerm("");
@@ -694,15 +876,9 @@ export default function UsersPage() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {user.isAdmin ? (
-                          <Badge variant="default">
-                            Administrator
-                          </Badge>
-                        ) : (
-                          <Badge variant="outline">
-                            User
-                          </Badge>
-                        )}
+                        <Badge variant={getEffectiveRole(user) === "ADMIN" ? "default" : "outline"}>
+                          {ROLE_LABELS[getEffectiveRole(user)]}
+                        </Badge>
                         {user.defaultWarehouseId && (
                           <div className="text-xs text-muted-foreground flex items-center mt-1">
                             <Building className="h-3 w-3 mr-1" />
@@ -711,7 +887,11 @@ export default function UsersPage() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {user.isActive ? (
+                        {user.deletedAt ? (
+                          <Badge variant="outline" className="border-gray-300 text-gray-600 dark:border-gray-600 dark:text-gray-400">
+                            <Trash2 className="mr-1 h-3 w-3" /> Deleted
+                          </Badge>
+                        ) : user.isActive ? (
                           <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
                             <CheckCircle className="mr-1 h-3 w-3" /> Active
                           </Badge>
@@ -720,6 +900,11 @@ export default function UsersPage() {
                             <XCircle className="mr-1 h-3 w-3" /> Inactive
                           </Badge>
                         )}
+                        {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                          <Badge variant="outline" className="ml-1 border-amber-200 text-amber-800 dark:border-amber-800 dark:text-amber-300">
+                            <LockIcon className="mr-1 h-3 w-3" /> Locked
+                          </Badge>
+                        )}
                         {user.lastLogin && (
                           <div className="text-xs text-muted-foreground mt-1">
                             Last login: {new Date(user.lastLogin).toLocaleDateString()}
@@ -727,34 +912,64 @@ export default function UsersPage() {
                         )}
                       </TableCell>
                       <TableCell className="text-right">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <Button variant="ghost" size="icon">
-                              <MoreHorizontal className="h-4 w-4" />
-                              <span className="sr-only">Open menu</span>
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                            <DropdownMenuSeparator />
-                            <DropdownMenuItem onClick={() => handleEdit(user)}>
-                              <Edit className="mr-2 h-4 w-4" /> Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem onClick={() => handleDelete(user)}>
-                              <Trash2 className="mr-2 h-4 w-4 text-red-500" /> Delete
-                            </DropdownMenuItem>
-                            <DropdownMenuSeparator />
-                            {user.isActive ? (
-                              <DropdownMenuItem onClick={() => updateMutation.mutate({ id: user.id, data: { isActive: false } })}>
-                                <LockIcon className="mr-2 h-4 w-4" /> Deactivate
+                        {canManageUsers && user.deletedAt && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => restoreMutation.mutate(user.id)}
+                            disabled={restoreMutation.isPending}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" /> Restore
+                          </Button>
+                        )}
+                        {canManageUsers && !user.deletedAt && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon">
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">Open menu</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem onClick={() => handleEdit(user)}>
+                                <Edit className="mr-2 h-4 w-4" /> Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => resetPasswordMutation.mutate(user.id)}>
+                                <KeyRound className="mr-2 h-4 w-4" /> Send Password Reset
                               </DropdownMenuItem>
-                            ) : (
-                              <DropdownMenuItem onClick={() => updateMutation.mutate({ id: user.id, data: { isActive: true } })}>
-                                <UnlockIcon className="mr-2 h-4 w-4" /> Activate
+                              <DropdownMenuItem onClick={() => handleDelete(user)}>
+                                <Trash2 className="mr-2 h-4 w-4 text-red-500" /> Delete
                               </DropdownMenuItem>
-                            )}
-                          </DropdownMenuContent>
-                        </DropdownMenu>
+                              <DropdownMenuSeparator />
+                              {user.lockedUntil && new Date(user.lockedUntil) > new Date() && (
+                                <DropdownMenuItem onClick={() => unlockMutation.mutate(user.id)}>
+                                  <UnlockIcon className="mr-2 h-4 w-4" /> Unlock
+                                </DropdownMenuItem>
+                              )}
+                              {user.id !== authUser?.id && (
+                                <DropdownMenuItem onClick={() => forceLogoutMutation.mutate(user.id)}>
+                                  <LogOut className="mr-2 h-4 w-4" /> Force Logout
+                                </DropdownMenuItem>
+                              )}
+                              {user.twoFactorEnabled && (
+                                <DropdownMenuItem onClick={() => resetTwoFactorMutation.mutate(user.id)}>
+                                  <ShieldOff className="mr-2 h-4 w-4" /> Reset 2FA
+                                </DropdownMenuItem>
+                              )}
+                              {user.isActive ? (
+                                <DropdownMenuItem onClick={() => updateMutation.mutate({ id: user.id, data: { isActive: false } })}>
+                                  <LockIcon className="mr-2 h-4 w-4" /> Deactivate
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => updateMutation.mutate({ id: user.id, data: { isActive: true } })}>
+                                  <UnlockIcon className="mr-2 h-4 w-4" /> Activate
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
@@ -1002,26 +1217,54 @@ export default function UsersPage() {
                 
                 <FormField
                   control={editForm.control}
-                  name="isAdmin"
+                  name="role"
                   render={({ field }) => (
-                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
-                      <div className="space-y-0.5">
-                        <FormLabel>Administrator</FormLabel>
-                        <FormDescription>
-                          User has full admin privileges
-                        </FormDescription>
-                      </div>
-                      <FormControl>
-                        <Switch
-                          checked={field.value}
-                          onCheckedChange={field.onChange}
-                        />
-                      </FormControl>
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a role" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Determines what the user can see and do
+                      </FormDescription>
+                      <FormMessage />
                     </FormItem>
                   )}
                 />
               </div>
               
+              <div className="rounded-lg border p-3 shadow-sm">
+                <FormLabel>Warehouse Access</FormLabel>
+                <p className="text-sm text-muted-foreground mb-2">
+                  Warehouses this user can view and move stock in. Administrators can access all warehouses.
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {warehousesData?.map((warehouse: any) => (
+                    <label key={warehouse.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={assignedWarehouseIds.includes(warehouse.id)}
+                        onCheckedChange={(checked) => toggleWarehouseAccess(warehouse.id, checked === true)}
+                      />
+                      <span>{warehouse.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+              
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsEditDialogOpen(false)}>
                   Cancel
@@ -1046,13 +1289,13 @@ export default function UsersPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete the user "{currentUser?.username}"? This action cannot be undone.
+              Are you sure you want to delete the user "{currentUser?.username}"?
             </DialogDescription>
           </DialogHeader>
           <div className="my-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-md border border-yellow-200 dark:border-yellow-900">
             <p className="text-sm text-yellow-800 dark:text-yellow-200">
-              Warning: This will permanently remove the user account and all associated data.
-              Consider deactivating the account instead.
+              The user will no longer be able to log in. Deleted users can be restored
+              from the user list with "Show deleted" enabled.
             </p>
           </div>
           <DialogFooter>
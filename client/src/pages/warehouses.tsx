@@ -53,6 +53,9 @@ import {
   Check,
   X,
   Building,
+  HistoryIcon,
+  Archive,
+  Boxes,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -67,7 +70,12 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { Warehouse } from "@shared/schema";
+import { NEGATIVE_STOCK_POLICIES, Warehouse } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { HistoryDrawer } from "@/components/audit/history-drawer";
+import { TrashDialog, describeDeleteError } from "@/components/trash/trash-dialog";
+import { NegativeStockPolicySelect } from "@/components/inventory/negative-stock-policy-select";
+import { LocationBrowser } from "@/components/warehouses/location-browser";
 
 export default function WarehousesPage() {
   const { toast } = useToast();
@@ -76,6 +84,10 @@ export default function WarehousesPage() {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [currentWarehouse, setCurrentWarehouse] = useState<Warehouse | null>(null);
+  const [historyWarehouse, setHistoryWarehouse] = useState<Warehouse | null>(null);
+  const [locationsWarehouse, setLocationsWarehouse] = useState<Warehouse | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const { hasPermission } = useAuth();
 
   // Define form schema with zod
   const warehouseFormSchema = z.object({
@@ -90,6 +102,10 @@ export default function WarehousesPage() {
     contactName: z.string().optional(),
     contactEmail: z.string().email("Invalid email").optional().or(z.literal("")),
     contactPhone: z.string().optional(),
+    negativeStockPolicy: z.enum(NEGATIVE_STOCK_POLICIES).default("BLOCK"),
+    countApprovalValue: z.string().optional(),
+    countApprovalPercent: z.string().optional(),
+    adjustmentApprovalValue: z.string().optional(),
     isActive: z.boolean().default(true),
   });
 
@@ -113,6 +129,10 @@ export default function WarehousesPage() {
       contactName: "",
       contactEmail: "",
       contactPhone: "",
+      negativeStockPolicy: "BLOCK",
+      countApprovalValue: "",
+      countApprovalPercent: "",
+      adjustmentApprovalValue: "",
       isActive: true,
     },
   });
@@ -132,14 +152,26 @@ export default function WarehousesPage() {
       contactName: "",
       contactEmail: "",
       contactPhone: "",
+      negativeStockPolicy: "BLOCK",
+      countApprovalValue: "",
+      countApprovalPercent: "",
+      adjustmentApprovalValue: "",
       isActive: true,
     },
   });
 
+  // An empty threshold means "no limit", which the API takes as null
+  const toPayload = (data: z.infer<typeof warehouseFormSchema>) => ({
+    ...data,
+    countApprovalValue: data.countApprovalValue || null,
+    countApprovalPercent: data.countApprovalPercent || null,
+    adjustmentApprovalValue: data.adjustmentApprovalValue || null,
+  });
+
   // Create warehouse mutation
   const createMutation = useMutation({
     mutationFn: async (data: z.infer<typeof warehouseFormSchema>) => {
-      return await apiRequest("POST", "/api/warehouses", data);
+      return await apiRequest("POST", "/api/warehouses", toPayload(data));
     },
     onSuccess: () => {
       toast({
@@ -162,7 +194,7 @@ export default function WarehousesPage() {
   // Update warehouse mutation
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: z.infer<typeof warehouseFormSchema> }) => {
-      return await apiRequest("PUT", `/api/warehouses/${id}`, data);
+      return await apiRequest("PUT", `/api/warehouses/${id}`, toPayload(data));
     },
     onSuccess: () => {
       toast({
@@ -198,7 +230,7 @@ export default function WarehousesPage() {
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete warehouse: ${error.message}`,
+        description: `Failed to delete warehouse: ${describeDeleteError(error)}`,
         variant: "destructive",
       });
     },
@@ -227,6 +259,10 @@ export default function WarehousesPage() {
       contactName: warehouse.contactName || "",
       contactEmail: warehouse.contactEmail || "",
       contactPhone: warehouse.contactPhone || "",
+      negativeStockPolicy: warehouse.negativeStockPolicy,
+      countApprovalValue: warehouse.countApprovalValue ?? "",
+      countApprovalPercent: warehouse.countApprovalPercent ?? "",
+      adjustmentApprovalValue: warehouse.adjustmentApprovalValue ?? "",
       isActive: warehouse.isActive !== false,
     });
     setIsEditDialogOpen(true);
@@ -298,6 +334,11 @@ export default function WarehousesPage() {
           </p>
         </div>
         <div className="mt-4 sm:mt-0 flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-2">
+          {hasPermission("warehouses.manage") && (
+            <Button variant="outline" onClick={() => setIsTrashOpen(true)}>
+              <Archive className="mr-2 h-4 w-4" /> Trash
+            </Button>
+          )}
           <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -485,6 +526,75 @@ export default function WarehousesPage() {
                     </div>
                   </div>
                   
+                  <FormField
+                    control={createForm.control}
+                    name="negativeStockPolicy"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Negative Stock</FormLabel>
+                        <FormControl>
+                          <NegativeStockPolicySelect
+                            value={field.value}
+                            onChange={(value) => field.onChange(value ?? "BLOCK")}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          What happens when an outgoing movement exceeds the quantity on hand. Product categories can override this.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={createForm.control}
+                      name="countApprovalValue"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Count Approval Value</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" step="0.01" placeholder="No limit" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={createForm.control}
+                      name="countApprovalPercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Count Approval %</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" step="0.1" placeholder="No limit" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormDescription className="col-span-2">
+                      Count variances above either limit, by value or by percent of the expected quantity, wait for a manager's approval before they are posted.
+                    </FormDescription>
+                  </div>
+                  
+                  <FormField
+                    control={createForm.control}
+                    name="adjustmentApprovalValue"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Adjustment Approval Value</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="0.01" placeholder="No limit" {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Adjustments worth more than this wait for a manager's approval before they are posted.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={createForm.control}
                     name="isActive"
@@ -628,6 +738,16 @@ export default function WarehousesPage() {
                               <Building className="mr-2 h-4 w-4" />
                               View Inventory
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setLocationsWarehouse(warehouse)}>
+                              <Boxes className="mr-2 h-4 w-4" />
+                              Locations
+                            </DropdownMenuItem>
+                            {hasPermission("audit.view") && (
+                              <DropdownMenuItem onClick={() => setHistoryWarehouse(warehouse)}>
+                                <HistoryIcon className="mr-2 h-4 w-4" />
+                                History
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
                             <DropdownMenuItem
                               className="text-red-600"
@@ -838,6 +958,75 @@ export default function WarehousesPage() {
                 </div>
               </div>
               
+              <FormField
+                control={editForm.control}
+                name="negativeStockPolicy"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Negative Stock</FormLabel>
+                    <FormControl>
+                      <NegativeStockPolicySelect
+                        value={field.value}
+                        onChange={(value) => field.onChange(value ?? "BLOCK")}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      What happens when an outgoing movement exceeds the quantity on hand. Product categories can override this.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={editForm.control}
+                  name="countApprovalValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Count Approval Value</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" placeholder="No limit" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={editForm.control}
+                  name="countApprovalPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Count Approval %</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.1" placeholder="No limit" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormDescription className="col-span-2">
+                  Count variances above either limit, by value or by percent of the expected quantity, wait for a manager's approval before they are posted.
+                </FormDescription>
+              </div>
+              
+              <FormField
+                control={editForm.control}
+                name="adjustmentApprovalValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Adjustment Approval Value</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" placeholder="No limit" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Adjustments worth more than this wait for a manager's approval before they are posted.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              
               <FormField
                 control={editForm.control}
                 name="isActive"
@@ -884,7 +1073,7 @@ export default function WarehousesPage() {
           <DialogHeader>
             <DialogTitle>Confirm Deletion</DialogTitle>
             <DialogDescription>
-              Are you sure you want to delete this warehouse? This action cannot be undone.
+              Are you sure you want to delete this warehouse? A warehouse that still holds inventory cannot be deleted. It can be restored from the trash.
             </DialogDescription>
           </DialogHeader>
           <div className="py-4">
@@ -915,6 +1104,28 @@ export default function WarehousesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <HistoryDrawer
+        entityType="warehouse"
+        entityId={historyWarehouse?.id ?? null}
+        title={historyWarehouse?.name ?? ""}
+        open={historyWarehouse !== null}
+        onOpenChange={(open) => !open && setHistoryWarehouse(null)}
+      />
+
+      <LocationBrowser
+        warehouse={locationsWarehouse}
+        onOpenChange={(open) => !open && setLocationsWarehouse(null)}
+      />
+
+      <TrashDialog<Warehouse>
+        endpoint="/api/warehouses"
+        title="Deleted Warehouses"
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        getLabel={(warehouse) => warehouse.name}
+        getDetail={(warehouse) => warehouse.id}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
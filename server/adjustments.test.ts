@@ -0,0 +1,47 @@
+// Adjustment approval. Needs the database described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AdjustmentWithLines } from "@shared/schema";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+describe("POST /api/adjustments/:id/approve", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let authorToken: string;
+  let approverToken: string;
+  let warehouseId: string;
+  let productId: number;
+
+  before(async () => {
+    app = await startTestApp();
+    const suffix = app.uniqueSuffix();
+    // Every adjustment here waits for approval
+    warehouseId = (await app.storage.createWarehouse({ id: `A${suffix}`, name: `Adjustment test ${suffix}`, adjustmentApprovalValue: "0.00" })).id;
+    productId = (await app.storage.createProduct({ sku: `ADJ-${suffix}`, name: `Adjustment test ${suffix}`, cost: "1.00" })).id;
+    ({ token: authorToken } = await app.createUser("WAREHOUSE_MANAGER", [warehouseId]));
+    ({ token: approverToken } = await app.createUser("WAREHOUSE_MANAGER", [warehouseId]));
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("only lets someone other than the author approve", async () => {
+    const [reason] = await app.storage.getAdjustmentReasons();
+    const created = await app.request(authorToken, "POST", "/api/adjustments", {
+      warehouseId,
+      reasonCode: reason.code,
+      lines: [{ productId, direction: "IN", quantity: 4 }],
+    });
+    assert.equal(created.status, 201);
+    const adjustment: AdjustmentWithLines = await created.json();
+    assert.equal(adjustment.status, "PENDING_APPROVAL");
+
+    const selfApproved = await app.request(authorToken, "POST", `/api/adjustments/${adjustment.id}/approve`);
+    assert.equal(selfApproved.status, 403);
+    assert.equal((await app.storage.getAdjustment(adjustment.id))?.status, "PENDING_APPROVAL");
+
+    const approved = await app.request(approverToken, "POST", `/api/adjustments/${adjustment.id}/approve`);
+    assert.equal(approved.status, 200);
+    assert.equal((await approved.json()).status, "POSTED");
+  });
+});
@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { ApiToken, User as SelectUser } from "@shared/schema";
+import { PERMISSIONS, hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by isAuthenticated when the request carried a bearer token
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const TOKEN_PREFIX = "wms_";
+
+// Avoid a database write on every request just to bump lastUsedAt
+const LAST_USED_RESOLUTION_MS = 1000 * 60;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  permissions: z.array(z.enum(PERMISSIONS)).min(1, "Select at least one permission"),
+  // Omitted or null: the owner's own warehouse scope
+  warehouseIds: z.array(z.string()).nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Shape returned to the client; the hash never leaves the server
+export function toApiTokenResponse(token: ApiToken) {
+  const { tokenHash, ...safeToken } = token;
+  return safeToken;
+}
+
+// Issues a token for `owner`. The plain token is only returned here, so callers
+// must show it to the user straight away. Returns an error message when the
+// requested permissions or warehouses exceed what the owner may do.
+export async function issueApiToken(
+  owner: SelectUser,
+  input: z.infer<typeof createApiTokenSchema>,
+  ownerScope: string[] | null,
+): Promise<{ token: string; apiToken: ApiToken } | { error: string }> {
+  const excessPermissions = input.permissions.filter((permission) => !hasPermission(owner, permission));
+  if (excessPermissions.length > 0) {
+    return { error: `The token owner does not have: ${excessPermissions.join(", ")}` };
+  }
+
+  const warehouseIds = input.warehouseIds ?? null;
+  if (warehouseIds && ownerScope && warehouseIds.some((id) => !ownerScope.includes(id))) {
+    return { error: "The token owner cannot access every selected warehouse" };
+  }
+
+  if (input.expiresAt && input.expiresAt <= new Date()) {
+    return { error: "Expiry must be in the future" };
+  }
+
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const apiToken = await storage.createApiToken({
+    userId: owner.id,
+    name: input.name,
+    tokenPrefix: token.slice(0, 12),
+    tokenHash: hashApiToken(token),
+    permissions: input.permissions,
+    warehouseIds,
+    expiresAt: input.expiresAt ?? null,
+  });
+  return { token, apiToken };
+}
+
+// Resolves a bearer token to its owner, or null when the token is unknown,
+// revoked, expired or belongs to a user who may no longer sign in
+export async function authenticateApiToken(token: string, ip: string | undefined) {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && apiToken.expiresAt <= new Date())) {
+    return null;
+  }
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || user.isActive === false) {
+    return null;
+  }
+
+  if (!apiToken.lastUsedAt || Date.now() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.recordApiTokenUse(apiToken.id, ip);
+  }
+  return { user, apiToken };
+}
+
+export function apiTokenAllows(apiToken: ApiToken | undefined, permission: Permission) {
+  return !apiToken || apiToken.permissions.includes(permission);
+}
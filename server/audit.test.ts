@@ -0,0 +1,56 @@
+// Audit trail visibility for users limited to some warehouses. Needs the database
+// described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AuditLogEntry } from "@shared/schema";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+describe("GET /api/audit for a warehouse-scoped user", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let adminToken: string;
+  let managerToken: string;
+  let ownWarehouseId: string;
+  let otherWarehouseId: string;
+  let productId: number;
+
+  const history = async (token: string, entityType: string, entityId: string | number): Promise<AuditLogEntry[]> => {
+    const response = await app.request(token, "GET", `/api/audit?entityType=${entityType}&entityId=${entityId}`);
+    assert.equal(response.status, 200);
+    return response.json();
+  };
+
+  const receive = async (warehouseId: string) => {
+    const response = await app.request(adminToken, "POST", "/api/stock-movements", { productId, warehouseId, direction: "IN", quantity: 1 });
+    assert.equal(response.status, 201);
+    return (await response.json()).id as number;
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    const suffix = app.uniqueSuffix();
+    ownWarehouseId = (await app.storage.createWarehouse({ id: `O${suffix}`, name: `Audit own ${suffix}` })).id;
+    otherWarehouseId = (await app.storage.createWarehouse({ id: `X${suffix}`, name: `Audit other ${suffix}` })).id;
+    productId = (await app.storage.createProduct({ sku: `AUD-${suffix}`, name: `Audit test ${suffix}`, cost: "1.00" })).id;
+    ({ token: adminToken } = await app.createUser("ADMIN"));
+    ({ token: managerToken } = await app.createUser("WAREHOUSE_MANAGER", [ownWarehouseId]));
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("shows changes in the user's warehouses and hides the others", async () => {
+    const ownMovement = await receive(ownWarehouseId);
+    const otherMovement = await receive(otherWarehouseId);
+
+    assert.equal((await history(managerToken, "stock_movement", ownMovement)).length, 1);
+    assert.equal((await history(managerToken, "stock_movement", otherMovement)).length, 0);
+    assert.equal((await history(adminToken, "stock_movement", otherMovement)).length, 1);
+    assert.equal((await history(managerToken, "warehouse", ownWarehouseId)).length, 1);
+    assert.equal((await history(managerToken, "warehouse", otherWarehouseId)).length, 0);
+  });
+
+  it("keeps master data visible", async () => {
+    assert.equal((await history(managerToken, "product", productId)).length, 1);
+  });
+});
@@ -0,0 +1,98 @@
+import { AsyncLocalStorage } from "async_hooks";
+import type { Request, Response, NextFunction } from "express";
+import type { AuditChanges, InsertAuditLogEntry } from "@shared/schema";
+
+export const AUDIT_ENTITY_TYPES = [
+  "product",
+  "product_category",
+  "unit_of_measure",
+  "warehouse",
+  "warehouse_location",
+  "customer",
+  "user",
+  "inventory",
+  "stock_movement",
+  "stock_reservation",
+  "order",
+  "order_item",
+  "transfer",
+  "transfer_line",
+  "count_session",
+  "adjustment",
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ACTIONS = ["CREATE", "UPDATE", "DELETE", "RESTORE", "PURGE"] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+// Values that must never be copied into the log; changes are recorded without them
+const REDACTED_FIELDS = new Set(["password", "twoFactorSecret"]);
+
+// Bookkeeping that changes on almost every write and would only add noise
+const IGNORED_FIELDS = new Set(["updatedAt", "updatedBy", "lastLogin", "twoFactorLastCounter"]);
+
+// The request being served, so storage can attribute writes without every
+// method taking an actor argument
+const requestContext = new AsyncLocalStorage<Request>();
+
+// Registered after authentication so the context sees the final req.user
+export function auditContext(req: Request, res: Response, next: NextFunction) {
+  requestContext.run(req, next);
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Field-level diff between two versions of a row; `null` stands for "did not exist"
+export function diffRecords(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (sameValue(from, to)) return;
+
+    changes[field] = REDACTED_FIELDS.has(field)
+      ? { from: "[redacted]", to: "[redacted]" }
+      : { from, to };
+  });
+  return changes;
+}
+
+// Builds the log row for a write, attributed to the current request's user.
+// Returns null when no row was touched or an update changed nothing worth recording.
+export function buildAuditEntry(
+  entityType: AuditEntityType,
+  action: AuditAction,
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined,
+): InsertAuditLogEntry | null {
+  if (!before && !after) {
+    return null;
+  }
+
+  const changes = diffRecords(before, after);
+  if (action === "UPDATE" && Object.keys(changes).length === 0) {
+    return null;
+  }
+
+  const req = requestContext.getStore();
+  return {
+    entityType,
+    entityId: String((after ?? before)?.id),
+    action,
+    changes,
+    actorId: req?.user?.id ?? null,
+    apiTokenId: req?.apiToken?.id ?? null,
+    ip: req?.ip ?? null,
+  };
+}
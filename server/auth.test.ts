@@ -0,0 +1,65 @@
+// Sign-in with a second factor. Needs the database described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+describe("POST /api/login with two-factor authentication", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let baseUrl: string;
+  let username: string;
+  const password = "Correct-horse-battery-9";
+
+  // Each call starts a fresh browser session, as an attacker retrying the password would
+  const signIn = async () => {
+    const response = await fetch(`${baseUrl}/api/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username, password }),
+    });
+    const cookie = response.headers.getSetCookie().map((header) => header.split(";")[0]).join("; ");
+    return { response, cookie };
+  };
+
+  const verify = (cookie: string, code: string) =>
+    fetch(`${baseUrl}/api/login/2fa`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Cookie: cookie },
+      body: JSON.stringify({ code }),
+    });
+
+  before(async () => {
+    app = await startTestApp();
+    baseUrl = app.baseUrl;
+    const { hashPassword } = await import("./auth");
+    const { generateTotpSecret } = await import("./totp");
+    const suffix = app.uniqueSuffix();
+    username = `two-factor-${suffix}`.toLowerCase();
+    const user = await app.storage.createUser({
+      username,
+      password: await hashPassword(password),
+      email: `${username}@example.test`,
+      firstName: "Two",
+      lastName: "Factor",
+      role: "VIEWER",
+    });
+    await app.storage.updateUser(user.id, { twoFactorEnabled: true, twoFactorSecret: generateTotpSecret() });
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("locks the account after too many bad codes even when the password is re-entered between them", async () => {
+    const { authSettings } = await import("./auth");
+    for (let attempt = 0; attempt < authSettings.maxFailedLogins; attempt++) {
+      const { response, cookie } = await signIn();
+      assert.equal(response.status, 200);
+      assert.deepEqual(await response.json(), { twoFactorRequired: true });
+      assert.equal((await verify(cookie, "000000")).status, 401);
+    }
+
+    const { response } = await signIn();
+    assert.equal(response.status, 401);
+    assert.match((await response.json()).message, /locked/);
+  });
+});
@@ -1,11 +1,30 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type NextFunction, type Request, type Response } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, insertUserSchema } from "@shared/schema";
+import { getPermissionsForUser, hasPermission, isRole } from "@shared/permissions";
+import { passwordPolicy, validatePasswordStrength } from "./password-policy";
+import { sendMail } from "./mail";
+import { rateLimit } from "./rate-limit";
+import { generateTotpSecret, buildOtpAuthUrl } from "./totp";
+import {
+  twoFactorSettings,
+  isTwoFactorRequired,
+  needsTwoFactorSetup,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "./two-factor";
+import { sessionLifetime, trackSession, sessionPublicId, toSessionResponse } from "./sessions";
+import { createApiTokenSchema, issueApiToken, toApiTokenResponse } from "./api-tokens";
+import { getWarehouseScope } from "./middleware";
+import { auditContext } from "./audit";
+import QRCode from "qrcode";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
 
 declare global {
   namespace Express {
@@ -15,27 +34,159 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+const RESET_TOKEN_TTL_MS = 1000 * 60 * 60; // 1 hour
+
+export const authSettings = {
+  maxFailedLogins: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || "5"),
+  lockoutSeconds: parseInt(process.env.LOGIN_LOCKOUT_SECONDS || "900"), // 15 minutes
+  // Set ALLOW_SELF_REGISTRATION=false so only admins can create accounts
+  selfRegistrationEnabled: process.env.ALLOW_SELF_REGISTRATION !== "false",
+};
+
+// The only account fields a registrant supplies; everything else (warehouse, status, flags)
+// is set by user managers through the users API
+const registerUserSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+});
+
+const loginRateLimit = rateLimit({
+  windowMs: 1000 * 60 * 15,
+  max: parseInt(process.env.LOGIN_RATE_LIMIT || "20"),
+  message: "Too many login attempts, please try again later",
+});
+
+const registerRateLimit = rateLimit({
+  windowMs: 1000 * 60 * 60,
+  max: parseInt(process.env.REGISTER_RATE_LIMIT || "10"),
+  message: "Too many registration attempts, please try again later",
+});
+
+// Deactivated and soft-deleted users may neither log in nor keep an existing session
+function canSignIn(user: SelectUser | undefined): user is SelectUser {
+  return !!user && user.isActive !== false && !user.deletedAt;
+}
+
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// True when the password matches the current one or one of the recent previous ones
+async function isPasswordReused(user: SelectUser, password: string) {
+  if (passwordPolicy.historySize <= 0) return false;
+
+  const previousHashes = [
+    user.password,
+    ...(await storage.getPasswordHistory(user.id, passwordPolicy.historySize - 1)),
+  ];
+  for (const hash of previousHashes) {
+    if (await comparePasswords(password, hash)) return true;
+  }
+  return false;
+}
+
+// Policy violations for a user's new password, including reuse of recent passwords
+export async function validateNewPassword(user: SelectUser, newPassword: string): Promise<string[]> {
+  const errors = validatePasswordStrength(newPassword);
+  if (errors.length === 0 && (await isPasswordReused(user, newPassword))) {
+    errors.push(`Password cannot match any of the last ${passwordPolicy.historySize} passwords`);
+  }
+  return errors;
+}
+
+// Stores the new hash, keeps the old one in history and signs the user out
+// everywhere except `keepSessionId` (the session that made the change, if any).
+// Returns the policy violations; an empty list means the password was changed.
+export async function setUserPassword(user: SelectUser, newPassword: string, keepSessionId?: string): Promise<string[]> {
+  const errors = await validateNewPassword(user, newPassword);
+  if (errors.length > 0) return errors;
+
+  await storage.addPasswordHistory(user.id, user.password);
+  await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+  await storage.deleteUserSessions(user.id, keepSessionId);
+  return [];
+}
+
+// Creates a single-use reset token and mails the reset link to the user
+export async function issuePasswordReset(user: SelectUser, requestedBy?: number) {
+  const token = randomBytes(32).toString("hex");
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+    createdBy: requestedBy,
+  });
+
+  const baseUrl = process.env.APP_BASE_URL || "http://localhost:5000";
+  await sendMail({
+    to: user.email,
+    subject: "Reset your WMS password",
+    text: [
+      `Hello ${user.firstName || user.username},`,
+      "",
+      requestedBy
+        ? "An administrator has requested a password reset for your account."
+        : "We received a request to reset your password.",
+      `Use the link below within ${RESET_TOKEN_TTL_MS / 60000} minutes to choose a new password:`,
+      "",
+      `${baseUrl}/reset-password?token=${token}`,
+      "",
+      "If you did not expect this email you can ignore it.",
+    ].join("\n"),
+  });
+}
+
+// Shape returned to the client: no password hash or 2FA secret, effective permissions attached
+export function toUserResponse(user: SelectUser) {
+  const { password, twoFactorSecret, twoFactorLastCounter, ...safeUser } = user;
+  return {
+    ...safeUser,
+    permissions: getPermissionsForUser(user),
+    twoFactorSetupRequired: needsTwoFactorSetup(user),
+  };
+}
+
+// Signs the user in once every factor has passed. The failure counter is only cleared
+// here, so re-entering a correct password between bad codes cannot undo a 2FA lockout.
+async function completeLogin(req: Request, res: Response, next: NextFunction, user: SelectUser) {
+  try {
+    await storage.updateUser(user.id, { lastLogin: new Date(), failedLoginAttempts: 0, lockedUntil: null });
+    req.login(user, (err) => {
+      if (err) return next(err);
+      res.status(200).json(toUserResponse(user));
+    });
+  } catch (err) {
+    next(err);
+  }
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "wms-secret-key",
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
+    // Refresh the cookie on every response so maxAge acts as the idle timeout;
+    // the absolute lifetime is enforced by trackSession
+    rolling: true,
     cookie: {
-      maxAge: 1000 * 60 * 60 * 24, // 1 day
+      maxAge: sessionLifetime.idleTimeoutMs,
       secure: process.env.NODE_ENV === "production",
       sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
     },
@@ -45,18 +196,37 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSession);
+  app.use(auditContext);
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
-          return done(null, false);
-        } else {
-          // Update last login time
-          await storage.updateUser(user.id, { lastLogin: new Date() });
-          return done(null, user);
+        if (!user) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+
+        if (user.lockedUntil && user.lockedUntil > new Date()) {
+          return done(null, false, { message: "Account is temporarily locked after too many failed attempts" });
+        }
+
+        if (!(await comparePasswords(password, user.password))) {
+          const updated = await storage.recordFailedLogin(user.id, authSettings.maxFailedLogins, authSettings.lockoutSeconds);
+          const locked = !!updated?.lockedUntil && updated.lockedUntil > new Date();
+          return done(null, false, {
+            message: locked
+              ? "Account is temporarily locked after too many failed attempts"
+              : "Invalid username or password",
+          });
         }
+
+        // Only reveal the account state once the password has been verified
+        if (!canSignIn(user)) {
+          return done(null, false, { message: "Account is deactivated" });
+        }
+
+        return done(null, user);
       } catch (err) {
         return done(err);
       }
@@ -67,35 +237,119 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, canSignIn(user) ? user : false);
     } catch (err) {
       done(err);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", registerRateLimit, async (req, res, next) => {
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const canManageUsers = req.isAuthenticated() && hasPermission(req.user!, "users.manage");
+      if (!authSettings.selfRegistrationEnabled && !canManageUsers) {
+        return res.status(403).json({ message: "Self-registration is disabled. Ask an administrator for an account." });
+      }
+
+      const userData = registerUserSchema.parse(req.body);
+      const existingUser = await storage.getUserByUsername(userData.username);
       if (existingUser) {
         return res.status(400).send("Username already exists");
       }
 
+      const passwordErrors = validatePasswordStrength(userData.password);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+
+      // Only user managers may choose a role; everyone else registers as a viewer
+      const { role } = req.body;
+      if (canManageUsers && role !== undefined && !isRole(role)) {
+        return res.status(400).json({ message: "Invalid role" });
+      }
+      const assignedRole = canManageUsers && role ? role : "VIEWER";
+
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        ...userData,
+        role: assignedRole,
+        isAdmin: assignedRole === "ADMIN",
+        password: await hashPassword(userData.password),
       });
 
+      // Admins creating accounts stay logged in as themselves
+      if (req.isAuthenticated()) {
+        return res.status(201).json(toUserResponse(user));
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(toUserResponse(user));
       });
     } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: fromZodError(err).message
+        });
+      }
       next(err);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", loginRateLimit, (req, res, next) => {
+    passport.authenticate("local", (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+
+      // Password was correct; hold the login until the second factor is verified
+      if (user.twoFactorEnabled) {
+        req.session.pendingTwoFactor = {
+          userId: user.id,
+          expiresAt: Date.now() + twoFactorSettings.pendingLoginTtlMs,
+        };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+
+      completeLogin(req, res, next, user);
+    })(req, res, next);
+  });
+
+  app.post("/api/login/2fa", loginRateLimit, async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Login session expired, please sign in again" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!canSignIn(user) || !user.twoFactorEnabled) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Login session expired, please sign in again" });
+      }
+
+      // Failed codes count towards the same lockout as failed passwords
+      if (user.lockedUntil && user.lockedUntil > new Date()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Account is temporarily locked after too many failed attempts" });
+      }
+
+      const { code, recoveryCode } = req.body;
+      if (!(await verifySecondFactor(user, { code, recoveryCode }))) {
+        const updated = await storage.recordFailedLogin(user.id, authSettings.maxFailedLogins, authSettings.lockoutSeconds);
+        if (updated?.lockedUntil && updated.lockedUntil > new Date()) {
+          delete req.session.pendingTwoFactor;
+          return res.status(401).json({ message: "Account is temporarily locked after too many failed attempts" });
+        }
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      await completeLogin(req, res, next, user);
+    } catch (err) {
+      next(err);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -105,8 +359,300 @@ export function setupAuth(app: Express) {
     });
   });
 
+  app.get("/api/password-policy", (_req, res) => {
+    res.json(passwordPolicy);
+  });
+
+  app.get("/api/auth-settings", (_req, res) => {
+    res.json({ selfRegistrationEnabled: authSettings.selfRegistrationEnabled });
+  });
+
+  app.post("/api/change-password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password are required" });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const errors = await setUserPassword(user, newPassword, req.sessionID);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors });
+      }
+
+      await storage.invalidatePasswordResetTokens(user.id);
+      res.sendStatus(200);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Always answers 202 so the endpoint cannot be used to discover accounts
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const email = typeof req.body.email === "string" ? req.body.email : "";
+      const user = email ? await storage.getUserByEmail(email) : undefined;
+      if (user && user.isActive !== false) {
+        await issuePasswordReset(user);
+      }
+      res.sendStatus(202);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const { token, newPassword } = req.body;
+      if (typeof token !== "string" || typeof newPassword !== "string") {
+        return res.status(400).json({ message: "Token and new password are required" });
+      }
+
+      const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+      if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(resetToken.userId);
+      if (!user) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const passwordErrors = await validateNewPassword(user, newPassword);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+
+      // Consume the token before changing the password so it cannot be replayed
+      if (!(await storage.markPasswordResetTokenUsed(resetToken.id))) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const errors = await setUserPassword(user, newPassword);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors });
+      }
+
+      // A completed reset also lifts any lockout
+      await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+      await storage.invalidatePasswordResetTokens(user.id);
+      res.sendStatus(200);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Active sessions of the signed-in user
+  app.get("/api/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id);
+      res.json(sessions.map((stored) => toSessionResponse(stored, req.sessionID)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Signs out every other device
+  app.delete("/api/sessions", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const revoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/sessions/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await storage.getUserSessions(req.user!.id);
+      const target = sessions.find((stored) => sessionPublicId(stored.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(409).json({ message: "Use logout to end the current session" });
+      }
+
+      await storage.deleteSession(target.sid);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Personal API tokens of the signed-in user; only manageable from a browser session
+  app.get("/api/api-tokens", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const tokens = await storage.getApiTokensByUser(req.user!.id);
+      res.json(tokens.map(toApiTokenResponse));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/api-tokens", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const input = createApiTokenSchema.parse(req.body);
+      const result = await issueApiToken(req.user!, input, await getWarehouseScope(req.user!));
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.status(201).json({ ...toApiTokenResponse(result.apiToken), token: result.token });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: fromZodError(err).message
+        });
+      }
+      next(err);
+    }
+  });
+
+  app.delete("/api/api-tokens/:id", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const token = await storage.getApiToken(parseInt(req.params.id));
+      if (!token || token.userId !== req.user!.id || token.revokedAt) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.revokeApiToken(token.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Two-factor enrollment for the signed-in user
+  app.get("/api/2fa", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      res.json({
+        enabled: req.user!.twoFactorEnabled,
+        required: isTwoFactorRequired(req.user!),
+        recoveryCodesRemaining: req.user!.twoFactorEnabled
+          ? await storage.countUnusedRecoveryCodes(req.user!.id)
+          : 0,
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/setup", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user!.twoFactorEnabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUser(req.user!.id, { twoFactorSecret: secret, twoFactorLastCounter: null });
+
+      const otpauthUrl = buildOtpAuthUrl(twoFactorSettings.issuer, req.user!.username, secret);
+      res.json({
+        secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl),
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/enable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.twoFactorSecret || user.twoFactorEnabled) {
+        return res.status(409).json({ message: "Start two-factor setup first" });
+      }
+
+      if (!(await verifySecondFactor(user, { code: req.body.code }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUser(user.id, { twoFactorEnabled: true });
+      const recoveryCodes = await regenerateRecoveryCodes(user.id);
+      res.json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/recovery-codes", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.twoFactorEnabled) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (!(await verifySecondFactor(user, { code: req.body.code }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      const recoveryCodes = await regenerateRecoveryCodes(user.id);
+      res.json({ recoveryCodes });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user?.twoFactorEnabled) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+
+      if (isTwoFactorRequired(user)) {
+        return res.status(409).json({ message: "Two-factor authentication is required for your role" });
+      }
+
+      const { password, code } = req.body;
+      if (!password || !(await comparePasswords(password, user.password))) {
+        return res.status(400).json({ message: "Password is incorrect" });
+      }
+      if (!(await verifySecondFactor(user, { code }))) {
+        return res.status(400).json({ message: "Invalid verification code" });
+      }
+
+      await storage.updateUser(user.id, { twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastCounter: null });
+      await storage.deleteRecoveryCodes(user.id);
+      res.sendStatus(200);
+    } catch (err) {
+      next(err);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toUserResponse(req.user));
   });
 }
@@ -0,0 +1,80 @@
+// Count sessions whose stock keeps moving while they are open. Needs the database
+// described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { CountSessionWithLines } from "@shared/schema";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+describe("Count sessions with stock moving during the count", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let token: string;
+
+  // A warehouse holding 10 of one product at 2.00, and an open full count of it
+  const openCount = async (countApprovalValue: string | null) => {
+    const suffix = app.uniqueSuffix();
+    const warehouse = await app.storage.createWarehouse({ id: `N${suffix}`, name: `Count test ${suffix}`, countApprovalValue });
+    const product = await app.storage.createProduct({ sku: `CNT-${suffix}`, name: `Count test ${suffix}`, cost: "2.00" });
+    const move = async (direction: "IN" | "OUT", quantity: number) => {
+      const response = await app.request(token, "POST", "/api/stock-movements", { productId: product.id, warehouseId: warehouse.id, direction, quantity });
+      assert.equal(response.status, 201);
+    };
+    await move("IN", 10);
+
+    const opened = await app.request(token, "POST", "/api/counts", { warehouseId: warehouse.id, scope: "FULL" });
+    assert.equal(opened.status, 201);
+    const session: CountSessionWithLines = await opened.json();
+    const count = async (quantity: number) => {
+      const response = await app.request(token, "POST", `/api/counts/${session.id}/entries`, { entries: [{ lineId: session.lines[0].id, quantity }] });
+      assert.equal(response.status, 200);
+    };
+    const step = async (action: "submit" | "approve"): Promise<CountSessionWithLines> => {
+      const response = await app.request(token, "POST", `/api/counts/${session.id}/${action}`);
+      assert.equal(response.status, 200);
+      return response.json();
+    };
+    const onHand = async () => {
+      const balances = await app.storage.getInventoryByProduct(product.id);
+      return balances.filter((balance) => balance.warehouseId === warehouse.id).reduce((total, balance) => total + Number(balance.quantity), 0);
+    };
+    return { move, count, step, onHand };
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    ({ token } = await app.createUser("ADMIN"));
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("approves and posts the same variance when stock moves between the count and the submit", async () => {
+    const { move, count, step, onHand } = await openCount("0.00");
+    await count(8);
+    await move("OUT", 3);
+
+    const submitted = await step("submit");
+    assert.equal(submitted.status, "PENDING_APPROVAL");
+    assert.equal(submitted.lines[0].varianceQuantity, "-2.00");
+    assert.equal(submitted.varianceValue, "-4.00");
+
+    await move("OUT", 1);
+    const approved = await step("approve");
+    assert.equal(approved.status, "POSTED");
+    assert.equal(approved.lines[0].varianceQuantity, "-2.00");
+    // 10 - 3 shipped after the count - 1 shipped after the submit - 2 short
+    assert.equal(await onHand(), 4);
+  });
+
+  it("does not count stock moved before the line was counted as a variance", async () => {
+    const { move, count, step, onHand } = await openCount("0.00");
+    await move("OUT", 3);
+    await count(7);
+
+    const submitted = await step("submit");
+    assert.equal(submitted.status, "POSTED");
+    assert.equal(submitted.lines[0].varianceQuantity, "0.00");
+    assert.equal(submitted.varianceValue, "0.00");
+    assert.equal(await onHand(), 7);
+  });
+});
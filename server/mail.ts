@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { log } from "./vite";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints messages to the server log; the default when no transport is configured
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    log(`to: ${message.to} | subject: ${message.subject}\n${message.text}`, "mail");
+  }
+}
+
+// Writes each message as a .txt file into an outbox directory
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.txt`;
+    const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.writeFile(path.join(this.directory, fileName), contents, "utf8");
+  }
+}
+
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "file") {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve("mail-outbox"));
+  }
+  return new ConsoleMailTransport();
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+// Lets a real transport (SMTP, API provider) be plugged in at startup
+export function setMailTransport(newTransport: MailTransport) {
+  transport = newTransport;
+}
+
+export function sendMail(message: MailMessage): Promise<void> {
+  return transport.send(message);
+}
@@ -0,0 +1,86 @@
+import type { Request, Response, NextFunction } from "express";
+import { getEffectiveRole, hasPermission, type Permission } from "@shared/permissions";
+import { storage } from "./storage";
+import { needsTwoFactorSetup } from "./two-factor";
+import { authenticateApiToken, apiTokenAllows } from "./api-tokens";
+import type { ApiToken } from "@shared/schema";
+
+// Middleware to check if user is authenticated, either by session cookie
+// or by an `Authorization: Bearer <token>` API token
+export async function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+  try {
+    const bearer = req.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (bearer) {
+      const result = await authenticateApiToken(bearer, req.ip);
+      if (!result) {
+        return res.status(401).json({ message: "Invalid or expired API token" });
+      }
+      req.user = result.user;
+      req.apiToken = result.apiToken;
+    } else if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    // Roles that require 2FA can only reach the enrollment endpoints until they enroll
+    if (needsTwoFactorSetup(req.user!)) {
+      return res.status(403).json({ message: "Two-factor authentication setup required", code: "TWO_FACTOR_SETUP_REQUIRED" });
+    }
+
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+// Credential management must be done from a signed-in browser session
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ message: "Not available to API tokens" });
+  }
+  next();
+}
+
+// API tokens are limited to the permissions they were issued with
+export function holdsPermission(req: Request, permission: Permission) {
+  return hasPermission(req.user!, permission) && apiTokenAllows(req.apiToken, permission);
+}
+
+// Middleware factory to check that the user holds every listed permission
+export function requirePermission(...permissions: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+
+    const missing = permissions.filter((permission) => !holdsPermission(req, permission));
+    if (missing.length > 0) {
+      return res.status(403).json({ message: "Forbidden", missingPermissions: missing });
+    }
+
+    next();
+  };
+}
+
+// Warehouses the user may access, or null when unrestricted (admins).
+// The user's default warehouse always counts as assigned, and an API token
+// with its own warehouse list narrows the scope further.
+export async function getWarehouseScope(user: Express.User, apiToken?: ApiToken): Promise<string[] | null> {
+  let scope: string[] | null = null;
+  if (getEffectiveRole(user) !== "ADMIN") {
+    scope = await storage.getUserWarehouseIds(user.id);
+    if (user.defaultWarehouseId && !scope.includes(user.defaultWarehouseId)) {
+      scope.push(user.defaultWarehouseId);
+    }
+  }
+
+  const tokenWarehouseIds = apiToken?.warehouseIds;
+  if (tokenWarehouseIds) {
+    return scope === null ? tokenWarehouseIds : scope.filter((id) => tokenWarehouseIds.includes(id));
+  }
+  return scope;
+}
+
+export function canAccessWarehouse(scope: string[] | null, warehouseId: string | null | undefined) {
+  if (scope === null) return true;
+  return !!warehouseId && scope.includes(warehouseId);
+}
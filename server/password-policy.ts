@@ -0,0 +1,50 @@
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+  historySize: number; // number of previous passwords that cannot be reused
+}
+
+function envNumber(name: string, fallback: number) {
+  const value = process.env[name];
+  return value !== undefined && !isNaN(parseInt(value)) ? parseInt(value) : fallback;
+}
+
+function envFlag(name: string, fallback: boolean) {
+  const value = process.env[name];
+  return value !== undefined ? value === "true" : fallback;
+}
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: envNumber("PASSWORD_MIN_LENGTH", 8),
+  requireUppercase: envFlag("PASSWORD_REQUIRE_UPPERCASE", true),
+  requireLowercase: envFlag("PASSWORD_REQUIRE_LOWERCASE", true),
+  requireDigit: envFlag("PASSWORD_REQUIRE_DIGIT", true),
+  requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", false),
+  historySize: envNumber("PASSWORD_HISTORY_SIZE", 5),
+};
+
+// Returns a list of human-readable violations; empty when the password is acceptable
+export function validatePasswordStrength(password: string, policy: PasswordPolicy = passwordPolicy): string[] {
+  const errors: string[] = [];
+
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    errors.push("Password must contain a digit");
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+
+  return errors;
+}
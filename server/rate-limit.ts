@@ -0,0 +1,39 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+}
+
+// In-memory fixed-window limiter keyed by client IP. Counts are per process,
+// which is sufficient for the single-instance deployment this app runs as.
+export function rateLimit({ windowMs, max, message = "Too many requests, please try again later" }: RateLimitOptions) {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || "unknown";
+
+    // Drop expired windows so the map cannot grow without bound
+    if (hits.size > 10000) {
+      hits.forEach((entry, entryKey) => {
+        if (entry.resetAt <= now) hits.delete(entryKey);
+      });
+    }
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > max) {
+      res.setHeader("Retry-After", Math.ceil((entry.resetAt - now) / 1000).toString());
+      return res.status(429).json({ message });
+    }
+
+    next();
+  };
+}
@@ -1,8 +1,26 @@
-import type { Express } from "express";
+import express, { type Express, type Request } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
-import { storage } from "./storage";
-import { ZodError } from "zod";
+import { setupAuth, hashPassword, toUserResponse, setUserPassword, issuePasswordReset } from "./auth";
+import { toSessionResponse } from "./sessions";
+import { createApiTokenSchema, issueApiToken, toApiTokenResponse } from "./api-tokens";
+import { AUDIT_ENTITY_TYPES, AUDIT_ACTIONS } from "./audit";
+import { validatePasswordStrength } from "./password-policy";
+import {
+  storage,
+  InsufficientStockError,
+  LotError,
+  SerialError,
+  TransferStatusError,
+  TransferReceiptError,
+  CountSessionError,
+  AdjustmentStatusError,
+  OrderStatusError,
+  OrderEditError,
+  RESERVING_ORDER_STATUSES,
+  ISSUING_ORDER_TYPES,
+} from "./storage";
+import { isAuthenticated, requireSession, requirePermission, holdsPermission, getWarehouseScope, canAccessWarehouse } from "./middleware";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
 import { 
   insertProductSchema, 
@@ -12,15 +30,217 @@ import {
   insertStockMovementSchema,
   insertOrderSchema,
   insertOrderItemSchema,
-  insertWarehouseSchema
+  updateOrderSchema,
+  updateOrderItemSchema,
+  EDITABLE_ORDER_STATUSES,
+  insertWarehouseSchema,
+  insertCustomerSchema,
+  insertTransferSchema,
+  insertWarehouseLocationSchema,
+  updateWarehouseLocationSchema,
+  LOCATION_LEVELS,
+  receiveTransferSchema,
+  insertCountSessionSchema,
+  countEntriesSchema,
+  insertAdjustmentReasonSchema,
+  updateAdjustmentReasonSchema,
+  insertAdjustmentSchema,
+  rejectAdjustmentSchema,
+  insertUserSchema,
+  ORDER_STATUSES,
+  ORDER_TYPES,
+  ORDER_STATUS_TRANSITIONS,
+  type Order,
+  type CustomerAddress,
+  type InsertCustomer,
+  type User
 } from "@shared/schema";
+import { ROLES, getEffectiveRole } from "@shared/permissions";
 
-// Middleware to check if user is authenticated
-function isAuthenticated(req: any, res: any, next: any) {
-  if (req.isAuthenticated()) {
-    return next();
+
+// Role replaces the isAdmin flag on input; isAdmin is kept in sync with it
+const createUserSchema = insertUserSchema
+  .omit({ isAdmin: true, role: true })
+  .extend({ role: z.enum(ROLES).default("VIEWER") });
+
+const updateUserSchema = insertUserSchema
+  .omit({ isAdmin: true, role: true })
+  .partial()
+  .extend({ role: z.enum(ROLES).optional() });
+
+const stockCheckSchema = z.object({
+  warehouseId: z.string().min(1),
+  items: z.array(z.object({
+    productId: z.number().int(),
+    quantity: z.coerce.number().positive(),
+  })).min(1),
+});
+
+const fefoQuerySchema = z.object({
+  productId: z.coerce.number().int(),
+  warehouseId: z.string().min(1),
+  quantity: z.coerce.number().positive(),
+});
+
+const serialQuerySchema = z.object({
+  productId: z.coerce.number().int(),
+  warehouseId: z.string().min(1),
+});
+
+const valuationQuerySchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(),
+  warehouseId: z.string().min(1).optional(),
+});
+
+const orderQuerySchema = z.object({
+  status: z.enum(ORDER_STATUSES).optional(),
+  type: z.enum(ORDER_TYPES).optional(),
+  warehouseId: z.string().min(1).optional(),
+});
+
+// Sent with an edit of a PROCESSING order; recorded in the order's history
+const orderOverrideSchema = z.object({
+  overrideReason: z.string().trim().min(1).max(500).optional(),
+});
+
+const orderStatusSchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().max(500).optional(),
+});
+
+const auditQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  actorId: z.coerce.number().int().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Explains why stock cannot go through a location of the warehouse, or null when it can.
+// Stock can still be taken out of an inactive location, but nothing new goes in.
+async function locationError(warehouseId: string, locationId: number, receives: boolean) {
+  const location = await storage.getWarehouseLocation(locationId);
+  if (!location || location.warehouseId !== warehouseId) {
+    return `Location ${locationId} does not belong to this warehouse`;
+  }
+  if (receives && !location.isActive) {
+    return `Location ${location.path} is inactive`;
+  }
+  return null;
+}
+
+// Why this request may not edit the order, with the status to answer, or null. DRAFT and
+// PENDING orders are open to anyone creating orders; a PROCESSING order needs a manager
+// (orders.approve) giving an override reason.
+async function orderEditError(req: Request, order: Order, overrideReason: string | undefined) {
+  if (!EDITABLE_ORDER_STATUSES.includes(order.status)) {
+    if (order.status !== "PROCESSING") {
+      return { status: 409, message: `${order.status} orders can no longer be edited` };
+    }
+    if (!overrideReason) {
+      return { status: 409, message: "The order is being processed; editing it needs a manager override with a reason" };
+    }
+    if (!holdsPermission(req, "orders.approve")) {
+      return { status: 403, message: "Only a manager can override a processing order" };
+    }
+  }
+
+  const scope = await getWarehouseScope(req.user!, req.apiToken);
+  for (const warehouseId of [order.warehouseId, order.destinationWarehouseId]) {
+    if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+      return { status: 403, message: "No access to this warehouse" };
+    }
+  }
+  return null;
+}
+
+// Mirrors the storage order scope: an order is visible from either of its warehouses, or to
+// everyone until it is assigned one
+function canAccessOrder(scope: string[] | null, order: Order) {
+  return !order.warehouseId ||
+    canAccessWarehouse(scope, order.warehouseId) ||
+    canAccessWarehouse(scope, order.destinationWarehouseId);
+}
+
+// Why the customer cannot be saved with this code and default warehouse, with the status to answer, or null
+async function customerError(customer: InsertCustomer, id?: number) {
+  const sameCode = await storage.getCustomerByCode(customer.code);
+  if (sameCode && sameCode.id !== id) {
+    return {
+      status: 409,
+      message: sameCode.deletedAt
+        ? `Customer code ${customer.code} belongs to a deleted customer; restore it instead`
+        : `Customer code ${customer.code} already exists`,
+    };
+  }
+  if (customer.defaultWarehouseId && !await storage.getWarehouse(customer.defaultWarehouseId)) {
+    return { status: 400, message: `Warehouse ${customer.defaultWarehouseId} not found` };
+  }
+  return null;
+}
+
+// Postal form of a customer address as stored on orders
+function customerAddressText(address: CustomerAddress) {
+  const locality = [address.city, address.state, address.postalCode].filter(Boolean).join(" ");
+  return [address.address, locality, address.country].filter(Boolean).join("\n");
+}
+
+// Fills what the order leaves out from its customer: the fulfilling warehouse and the
+// default shipping and billing addresses. Returns null when there is no active customer.
+async function withCustomerDefaults<T extends { customerId?: number | null; warehouseId?: string | null; shippingAddress?: string | null; billingAddress?: string | null }>(order: T) {
+  if (!order.customerId) return order;
+  const customer = await storage.getCustomer(order.customerId);
+  if (!customer?.isActive) return null;
+
+  const defaultAddress = (type: CustomerAddress["addressType"]) => {
+    const address = customer.addresses.find((address) => address.addressType === type && address.isDefault);
+    return address ? customerAddressText(address) : null;
+  };
+  return {
+    ...order,
+    warehouseId: order.warehouseId || customer.defaultWarehouseId,
+    shippingAddress: order.shippingAddress || defaultAddress("SHIPPING"),
+    billingAddress: order.billingAddress || defaultAddress("BILLING"),
+  };
+}
+
+// Explains which lot, expiry or serial details a line is missing for its product, or null
+async function trackingError(line: {
+  productId: number;
+  direction: string;
+  lotNumber?: string | null;
+  expiryDate?: string | null;
+  serialNumbers?: string[] | null;
+}) {
+  const product = await storage.getProduct(line.productId);
+  if (product?.isLotControlled && !line.lotNumber) {
+    return `${product.name} is lot-controlled; a lot number is required`;
+  }
+  if (product?.isSerialized && !line.serialNumbers?.length) {
+    return `${product.name} is serialized; select the serial numbers being moved`;
+  }
+  if (product?.isExpiryControlled && line.direction === "IN" && !line.expiryDate) {
+    const lot = line.lotNumber ? await storage.getLot(product.id, line.lotNumber) : undefined;
+    if (!lot) {
+      return `${product.name} is expiry-controlled; new stock needs an expiry date`;
+    }
+  }
+  return null;
+}
+
+function isActiveAdmin(user: Pick<User, "role" | "isAdmin" | "isActive" | "deletedAt">) {
+  return getEffectiveRole(user) === "ADMIN" && user.isActive !== false && !user.deletedAt;
+}
+
+// True when applying the changes would leave the system without an active admin
+async function wouldRemoveLastAdmin(user: User, changes: Partial<User>) {
+  if (!isActiveAdmin(user) || isActiveAdmin({ ...user, ...changes })) {
+    return false;
   }
-  res.status(401).json({ message: "Unauthorized" });
+  return (await storage.countActiveAdmins(user.id)) === 0;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -28,18 +248,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
 
   // Dashboard data endpoints
-  app.get("/api/dashboard/stats", isAuthenticated, async (req, res, next) => {
+  app.get("/api/dashboard/stats", isAuthenticated, requirePermission("dashboard.view"), async (req, res, next) => {
     try {
-      const inventoryValue = await storage.getInventoryValue();
-      const lowStockItems = await storage.getLowStockItems();
-      const recentOrders = await storage.getRecentOrders(5);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const inventoryValue = await storage.getInventoryValue(scope);
+      const lowStockItems = await storage.getLowStockItems(scope);
+      const recentOrders = await storage.getRecentOrders(5, scope);
       
       // Count active products
       const products = await storage.getAllProducts();
       const activeProducts = products.filter(p => p.isActive).length;
       
       // Count pending orders
-      const pendingOrders = (await storage.getOrdersByStatus("PENDING")).length;
+      const pendingOrders = (await storage.getOrdersByStatus("PENDING", scope)).length;
       
       res.json({
         inventoryValue,
@@ -47,7 +268,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         pendingOrders,
         lowStockItemsCount: lowStockItems.length,
         recentOrders,
-        inventoryLevelsByCategory: await storage.getInventoryLevelsByCategory(),
+        inventoryLevelsByCategory: await storage.getInventoryLevelsByCategory(scope),
         orderTrends: await storage.getOrderTrends(),
       });
     } catch (err) {
@@ -55,9 +276,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/dashboard/activities", isAuthenticated, async (req, res, next) => {
+  app.get("/api/dashboard/activities", isAuthenticated, requirePermission("dashboard.view"), async (req, res, next) => {
     try {
-      const recentStockMovements = await storage.getRecentStockMovements(10);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const recentStockMovements = await storage.getRecentStockMovements(10, scope);
       res.json(recentStockMovements);
     } catch (err) {
       next(err);
@@ -65,7 +287,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Products endpoints
-  app.get("/api/products", isAuthenticated, async (req, res, next) => {
+  app.get("/api/products", isAuthenticated, requirePermission("products.view"), async (req, res, next) => {
     try {
       const query = req.query.q as string;
       let products;
@@ -82,7 +304,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/products/:id", isAuthenticated, async (req, res, next) => {
+  app.get("/api/products/trash", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const products = await storage.getDeletedProducts();
+      res.json(products);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/products/:id", isAuthenticated, requirePermission("products.view"), async (req, res, next) => {
     try {
       const product = await storage.getProduct(parseInt(req.params.id));
       if (!product) {
@@ -94,7 +325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/products", isAuthenticated, async (req, res, next) => {
+  app.post("/api/products", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
       const validatedData = insertProductSchema.parse(req.body);
       const product = await storage.createProduct({
@@ -113,7 +344,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/products/:id", isAuthenticated, async (req, res, next) => {
+  app.put("/api/products/:id", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
       const existing = await storage.getProduct(id);
@@ -133,7 +364,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/products/:id", isAuthenticated, async (req, res, next) => {
+  app.delete("/api/products/:id", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
       const id = parseInt(req.params.id);
       const existing = await storage.getProduct(id);
@@ -142,19 +373,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Product not found" });
       }
       
-      await storage.updateProduct(id, {
-        deletedBy: req.user!.id,
-        deletedAt: new Date()
-      });
+      const blockers = await storage.getDeleteBlockers("product", id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Product is still in use", blockers });
+      }
       
+      await storage.deleteProduct(id, req.user!.id);
       res.status(204).send();
     } catch (err) {
       next(err);
     }
   });
   
+  app.post("/api/products/:id/restore", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const restoredProduct = await storage.restoreProduct(parseInt(req.params.id));
+      if (!restoredProduct) {
+        return res.status(404).json({ message: "Deleted product not found" });
+      }
+      res.json(restoredProduct);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
   // Product Categories endpoints
-  app.get("/api/product-categories", isAuthenticated, async (req, res, next) => {
+  app.get("/api/product-categories", isAuthenticated, requirePermission("products.view"), async (req, res, next) => {
     try {
       const categories = await storage.getAllProductCategories();
       res.json(categories);
@@ -163,7 +407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/product-categories", isAuthenticated, async (req, res, next) => {
+  app.post("/api/product-categories", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
       const validatedData = insertProductCategorySchema.parse(req.body);
       const category = await storage.createProductCategory({
@@ -182,8 +426,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.put("/api/product-categories/:id", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getProductCategory(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const validatedData = insertProductCategorySchema.partial().parse(req.body);
+      const updatedCategory = await storage.updateProductCategory(id, {
+        ...validatedData,
+        updatedBy: req.user!.id.toString(),
+      });
+      res.json(updatedCategory);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.get("/api/product-categories/trash", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const categories = await storage.getDeletedProductCategories();
+      res.json(categories);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.delete("/api/product-categories/:id", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getProductCategory(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const blockers = await storage.getDeleteBlockers("product_category", id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Category is still in use", blockers });
+      }
+      
+      await storage.deleteProductCategory(id, req.user!.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/product-categories/:id/restore", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
+    try {
+      const restoredCategory = await storage.restoreProductCategory(parseInt(req.params.id));
+      if (!restoredCategory) {
+        return res.status(404).json({ message: "Deleted category not found" });
+      }
+      res.json(restoredCategory);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
   // Units of Measure endpoints
-  app.get("/api/units-of-measure", isAuthenticated, async (req, res, next) => {
+  app.get("/api/units-of-measure", isAuthenticated, requirePermission("products.view"), async (req, res, next) => {
     try {
       const units = await storage.getAllUnitsOfMeasure();
       res.json(units);
@@ -192,7 +504,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/units-of-measure", isAuthenticated, async (req, res, next) => {
+  app.post("/api/units-of-measure", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
       const validatedData = insertUnitOfMeasureSchema.parse(req.body);
       const unit = await storage.createUnitOfMeasure({
@@ -211,39 +523,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Inventory endpoints
-  app.get("/api/inventory", isAuthenticated, async (req, res, next) => {
+  app.get("/api/units-of-measure/trash", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
-      const inventory = await storage.getAllInventory();
-      res.json(inventory);
+      const units = await storage.getDeletedUnitsOfMeasure();
+      res.json(units);
     } catch (err) {
       next(err);
     }
   });
   
-  app.get("/api/inventory/product/:productId", isAuthenticated, async (req, res, next) => {
+  app.delete("/api/units-of-measure/:id", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
-      const inventory = await storage.getInventoryByProduct(parseInt(req.params.productId));
-      res.json(inventory);
+      const id = req.params.id;
+      const existing = await storage.getUnitOfMeasure(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Unit of measure not found" });
+      }
+      
+      const blockers = await storage.getDeleteBlockers("unit_of_measure", id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Unit of measure is still in use", blockers });
+      }
+      
+      await storage.deleteUnitOfMeasure(id, req.user!.id);
+      res.status(204).send();
     } catch (err) {
       next(err);
     }
   });
   
-  app.get("/api/inventory/warehouse/:warehouseId", isAuthenticated, async (req, res, next) => {
+  app.post("/api/units-of-measure/:id/restore", isAuthenticated, requirePermission("products.manage"), async (req, res, next) => {
     try {
-      const inventory = await storage.getInventoryByWarehouse(req.params.warehouseId);
+      const restoredUnit = await storage.restoreUnitOfMeasure(req.params.id);
+      if (!restoredUnit) {
+        return res.status(404).json({ message: "Deleted unit of measure not found" });
+      }
+      res.json(restoredUnit);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Inventory endpoints
+  app.get("/api/inventory", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const inventory = await storage.getAllInventory(scope);
       res.json(inventory);
     } catch (err) {
       next(err);
     }
   });
   
-  app.post("/api/inventory", isAuthenticated, async (req, res, next) => {
+  // Where to pick a quantity from, soonest-expiring lots first
+  app.get("/api/inventory/fefo", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const validatedData = insertInventorySchema.parse(req.body);
-      const inventory = await storage.createInventory(validatedData);
-      res.status(201).json(inventory);
+      const { productId, warehouseId, quantity } = fefoQuerySchema.parse(req.query);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const picks = await storage.suggestFefoPicks(productId, warehouseId, quantity);
+      res.json(picks);
     } catch (err) {
       if (err instanceof ZodError) {
         return res.status(400).json({ 
@@ -255,15 +598,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Stock Movements endpoints
-  app.post("/api/stock-movements", isAuthenticated, async (req, res, next) => {
+  // Lots on hand that expire within the given number of days, including those already expired
+  app.get("/api/inventory/near-expiry", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const validatedData = insertStockMovementSchema.parse(req.body);
-      const movement = await storage.createStockMovement({
-        ...validatedData,
-        createdBy: req.user!.id,
-      });
-      res.status(201).json(movement);
+      const days = req.query.days ? parseInt(req.query.days as string) : 30;
+      if (isNaN(days) || days < 0) {
+        return res.status(400).json({ message: "days must be a non-negative number" });
+      }
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const items = await storage.getNearExpiryStock(days, scope);
+      res.json(items);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Stock value per warehouse and category at the end of the asOf day (default: now)
+  app.get("/api/inventory/valuation", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const { asOf, warehouseId } = valuationQuerySchema.parse(req.query);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const rows = await storage.getValuationReport(
+        asOf ? new Date(`${asOf}T23:59:59.999`) : new Date(),
+        warehouseId ? [warehouseId] : scope
+      );
+      res.json(rows);
     } catch (err) {
       if (err instanceof ZodError) {
         return res.status(400).json({ 
@@ -275,67 +638,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/stock-movements/recent", isAuthenticated, async (req, res, next) => {
+  app.get("/api/inventory/product/:productId", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const movements = await storage.getRecentStockMovements(limit);
-      res.json(movements);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const inventory = await storage.getInventoryByProduct(parseInt(req.params.productId), scope);
+      res.json(inventory);
     } catch (err) {
       next(err);
     }
   });
   
-  // Orders endpoints
-  app.get("/api/orders", isAuthenticated, async (req, res, next) => {
+  app.get("/api/inventory/warehouse/:warehouseId", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const status = req.query.status as string;
-      let orders;
-      
-      if (status) {
-        orders = await storage.getOrdersByStatus(status);
-      } else {
-        orders = await storage.getAllOrders();
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, req.params.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
       }
       
-      res.json(orders);
+      const inventory = await storage.getInventoryByWarehouse(req.params.warehouseId);
+      res.json(inventory);
     } catch (err) {
       next(err);
     }
   });
   
-  app.get("/api/orders/:id", isAuthenticated, async (req, res, next) => {
+  app.post("/api/inventory", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
     try {
-      const order = await storage.getOrder(parseInt(req.params.id));
-      if (!order) {
-        return res.status(404).json({ message: "Order not found" });
+      const validatedData = insertInventorySchema.parse(req.body);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, validatedData.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
       }
       
-      const items = await storage.getOrderItems(order.id);
-      res.json({ ...order, items });
+      const inventory = await storage.createInventory(validatedData);
+      res.status(201).json(inventory);
     } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
       next(err);
     }
   });
   
-  app.post("/api/orders", isAuthenticated, async (req, res, next) => {
+  // Stock Movements endpoints
+  app.post("/api/stock-movements", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
     try {
-      const validatedData = insertOrderSchema.parse(req.body);
-      const orderItems = req.body.items || [];
+      // Clients retrying a request send the same Idempotency-Key so it is only posted once
+      const validatedData = insertStockMovementSchema.parse({
+        ...req.body,
+        idempotencyKey: req.get("Idempotency-Key") ?? req.body?.idempotencyKey,
+      });
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, validatedData.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      for (const [locationId, receives] of [[validatedData.fromLocationId, false], [validatedData.toLocationId, true]] as const) {
+        if (!locationId) continue;
+        const message = await locationError(validatedData.warehouseId, locationId, receives);
+        if (message) {
+          return res.status(400).json({ message });
+        }
+      }
+      
+      const trackingMessage = await trackingError(validatedData);
+      if (trackingMessage) {
+        return res.status(400).json({ message: trackingMessage });
+      }
       
-      const order = await storage.createOrder({
+      const result = await storage.createStockMovement({
         ...validatedData,
         createdBy: req.user!.id,
       });
+      if (result.status === "conflict") {
+        return res.status(409).json({ message: "Idempotency key was already used for a different movement" });
+      }
+      res
+        .status(result.status === "created" ? 201 : 200)
+        .json(result.shortfalls.length > 0 ? { ...result.movement, shortfalls: result.shortfalls } : result.movement);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof LotError) {
+        return res.status(err.code === "EXPIRED" ? 409 : 400).json({ message: err.message });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Reports which OUT lines would overdraw stock, without posting anything
+  app.post("/api/stock-movements/check", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const { warehouseId, items } = stockCheckSchema.parse(req.body);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
       
-      // Create order items
-      for (const item of orderItems) {
-        await storage.createOrderItem({
-          ...item,
-          orderId: order.id,
+      const shortfalls = await storage.checkStockAvailability(warehouseId, items);
+      res.json({ shortfalls });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
         });
       }
+      next(err);
+    }
+  });
+  
+  app.get("/api/stock-movements/recent", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const movements = await storage.getRecentStockMovements(limit, scope);
+      res.json(movements);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Serial number endpoints
+  app.get("/api/serials", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const { productId, warehouseId } = serialQuerySchema.parse(req.query);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
       
-      res.status(201).json(order);
+      const serials = await storage.getSerialsInStock(productId, warehouseId);
+      res.json(serials);
     } catch (err) {
       if (err instanceof ZodError) {
         return res.status(400).json({ 
@@ -347,70 +794,1620 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Users endpoints
-  app.get("/api/users", isAuthenticated, async (req, res, next) => {
+  // Where a serial is now and how it got there; one entry per product using the number
+  app.get("/api/serials/lookup", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const users = await storage.getAllUsers();
-      // Remove password field from response
-      const safeUsers = users.map(({ password, ...user }) => user);
-      res.json(safeUsers);
+      const serialNumber = typeof req.query.serial === "string" ? req.query.serial.trim() : "";
+      if (!serialNumber) {
+        return res.status(400).json({ message: "serial is required" });
+      }
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const units = await storage.lookupSerial(serialNumber, scope);
+      res.json(units);
     } catch (err) {
       next(err);
     }
   });
   
-  // Warehouses endpoints
-  app.get("/api/warehouses", isAuthenticated, async (req, res, next) => {
+  // Transfer endpoints
+  app.get("/api/transfers", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const warehouses = await storage.getAllWarehouses();
-      res.json(warehouses);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const transfers = await storage.getTransfers(scope);
+      res.json(transfers);
     } catch (err) {
       next(err);
     }
   });
   
-  app.post("/api/warehouses", isAuthenticated, async (req, res, next) => {
+  app.get("/api/transfers/in-transit", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const warehouseData = insertWarehouseSchema.parse(req.body);
-      const newWarehouse = await storage.createWarehouse(warehouseData);
-      res.status(201).json(newWarehouse);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const inTransit = await storage.getInTransitStock(scope);
+      res.json(inTransit);
     } catch (err) {
       next(err);
     }
   });
   
-  app.put("/api/warehouses/:id", isAuthenticated, async (req, res, next) => {
+  app.get("/api/transfers/:id", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
     try {
-      const id = req.params.id;
-      const existing = await storage.getWarehouse(id);
-      
-      if (!existing) {
-        return res.status(404).json({ message: "Warehouse not found" });
+      const transfer = await storage.getTransfer(parseInt(req.params.id));
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
       }
       
-      const updatedWarehouse = await storage.updateWarehouse(id, req.body);
-      res.json(updatedWarehouse);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, transfer.sourceWarehouseId) && !canAccessWarehouse(scope, transfer.destinationWarehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      res.json(transfer);
     } catch (err) {
       next(err);
     }
   });
   
-  app.delete("/api/warehouses/:id", isAuthenticated, async (req, res, next) => {
+  app.post("/api/transfers", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
     try {
-      const id = req.params.id;
-      const existing = await storage.getWarehouse(id);
+      const validatedData = insertTransferSchema.parse(req.body);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, validatedData.sourceWarehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
       
+      const transfer = await storage.createTransfer(validatedData, req.user!.id);
+      res.status(201).json(transfer);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  // Posts the OUT movements at the source; the stock is in transit until received
+  app.post("/api/transfers/:id/dispatch", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const existing = await storage.getTransfer(parseInt(req.params.id));
       if (!existing) {
-        return res.status(404).json({ message: "Warehouse not found" });
+        return res.status(404).json({ message: "Transfer not found" });
       }
       
-      const result = await storage.deleteWarehouse(id);
-      if (result) {
-        res.status(204).send();
-      } else {
-        res.status(500).json({ message: "Could not delete warehouse" });
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.sourceWarehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const transfer = await storage.dispatchTransfer(existing.id, req.user!.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
       }
+      res.json(transfer);
     } catch (err) {
+      if (err instanceof TransferStatusError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Posts the IN movements at the destination for what actually arrived
+  app.post("/api/transfers/:id/receive", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const receipt = receiveTransferSchema.parse(req.body);
+      const existing = await storage.getTransfer(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.destinationWarehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const unknownLine = receipt.lines.find((received) => !existing.lines.some((line) => line.id === received.lineId));
+      if (unknownLine) {
+        return res.status(400).json({ message: `Line ${unknownLine.lineId} is not part of this transfer` });
+      }
+      
+      const transfer = await storage.receiveTransfer(existing.id, receipt, req.user!.id);
+      if (!transfer) {
+        return res.status(404).json({ message: "Transfer not found" });
+      }
+      res.json(transfer);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof TransferStatusError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof TransferReceiptError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Count session endpoints
+  app.get("/api/counts", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const sessions = await storage.getCountSessions(scope);
+      res.json(sessions);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/counts/:id", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const session = await storage.getCountSession(parseInt(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, session.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      res.json(session);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/counts", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const validatedData = insertCountSessionSchema.parse(req.body);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, validatedData.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const session = await storage.createCountSession(validatedData, req.user!.id);
+      res.status(201).json(session);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof CountSessionError) {
+        return res.status(400).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Records blind counts; each counter's entries are kept, the latest one per line is used
+  app.post("/api/counts/:id/entries", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const counts = countEntriesSchema.parse(req.body);
+      const existing = await storage.getCountSession(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const unknownLine = counts.entries.find((entry) => !existing.lines.some((line) => line.id === entry.lineId));
+      if (unknownLine) {
+        return res.status(400).json({ message: `Line ${unknownLine.lineId} is not part of this count` });
+      }
+      
+      const session = await storage.recordCountEntries(existing.id, counts, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      res.json(session);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof CountSessionError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Ends counting; posts the variances unless a line needs approval first
+  app.post("/api/counts/:id/submit", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const existing = await storage.getCountSession(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const session = await storage.submitCountSession(existing.id, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      res.json(session);
+    } catch (err) {
+      if (err instanceof CountSessionError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Posts the variances of a count that was held for approval
+  app.post("/api/counts/:id/approve", isAuthenticated, requirePermission("inventory.approve"), async (req, res, next) => {
+    try {
+      const existing = await storage.getCountSession(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const session = await storage.approveCountSession(existing.id, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      res.json(session);
+    } catch (err) {
+      if (err instanceof CountSessionError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  app.post("/api/counts/:id/cancel", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const existing = await storage.getCountSession(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const session = await storage.cancelCountSession(existing.id, req.user!.id);
+      if (!session) {
+        return res.status(404).json({ message: "Count not found" });
+      }
+      res.json(session);
+    } catch (err) {
+      if (err instanceof CountSessionError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      next(err);
+    }
+  });
+  
+  // Adjustment reason endpoints
+  app.get("/api/adjustment-reasons", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const reasons = await storage.getAdjustmentReasons();
+      res.json(reasons);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/adjustment-reasons", isAuthenticated, requirePermission("inventory.approve"), async (req, res, next) => {
+    try {
+      const validatedData = insertAdjustmentReasonSchema.parse(req.body);
+      const existing = (await storage.getAdjustmentReasons()).find((reason) => reason.code === validatedData.code);
+      if (existing) {
+        return res.status(409).json({ message: `Reason code ${validatedData.code} already exists` });
+      }
+      
+      const reason = await storage.createAdjustmentReason(validatedData);
+      res.status(201).json(reason);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.put("/api/adjustment-reasons/:id", isAuthenticated, requirePermission("inventory.approve"), async (req, res, next) => {
+    try {
+      const validatedData = updateAdjustmentReasonSchema.parse(req.body);
+      const reason = await storage.updateAdjustmentReason(parseInt(req.params.id), validatedData);
+      if (!reason) {
+        return res.status(404).json({ message: "Adjustment reason not found" });
+      }
+      res.json(reason);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  // Adjustment endpoints
+  app.get("/api/adjustments", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const adjustments = await storage.getAdjustments(scope);
+      res.json(adjustments);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/adjustments/:id", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const adjustment = await storage.getAdjustment(parseInt(req.params.id));
+      if (!adjustment) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, adjustment.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      res.json(adjustment);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Validates every line up front, then posts them together or holds the document for approval
+  app.post("/api/adjustments", isAuthenticated, requirePermission("inventory.adjust"), async (req, res, next) => {
+    try {
+      const validatedData = insertAdjustmentSchema.parse({
+        ...req.body,
+        idempotencyKey: req.get("Idempotency-Key") ?? req.body?.idempotencyKey,
+      });
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, validatedData.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const reason = (await storage.getAdjustmentReasons()).find((reason) => reason.code === validatedData.reasonCode);
+      if (!reason?.isActive) {
+        return res.status(400).json({ message: `${validatedData.reasonCode} is not an active adjustment reason` });
+      }
+      
+      for (let index = 0; index < validatedData.lines.length; index++) {
+        const line = validatedData.lines[index];
+        const product = await storage.getProduct(line.productId);
+        if (!product) {
+          return res.status(400).json({ message: `Line ${index + 1}: product ${line.productId} not found` });
+        }
+        // Serial numbers are recorded through stock movements, not adjustment lines
+        if (product.isSerialized) {
+          return res.status(400).json({ message: `Line ${index + 1}: ${product.name} is serialized; adjust it with a stock movement` });
+        }
+        const message =
+          (line.locationId && await locationError(validatedData.warehouseId, line.locationId, line.direction === "IN")) ||
+          await trackingError(line);
+        if (message) {
+          return res.status(400).json({ message: `Line ${index + 1}: ${message}` });
+        }
+      }
+      
+      const result = await storage.createAdjustment(validatedData, req.user!.id);
+      if (result.status === "conflict") {
+        return res.status(409).json({ message: "Idempotency key was already used for a different adjustment" });
+      }
+      res
+        .status(result.status === "created" ? 201 : 200)
+        .json(result.shortfalls.length > 0 ? { ...result.adjustment, shortfalls: result.shortfalls } : result.adjustment);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof LotError) {
+        return res.status(err.code === "EXPIRED" ? 409 : 400).json({ message: err.message });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Posts an adjustment that was held because of its value
+  app.post("/api/adjustments/:id/approve", isAuthenticated, requirePermission("inventory.approve"), async (req, res, next) => {
+    try {
+      const existing = await storage.getAdjustment(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      // The approval is a second pair of eyes, so the author cannot give it
+      if (existing.createdBy === req.user!.id) {
+        return res.status(403).json({ message: "An adjustment cannot be approved by the user who created it" });
+      }
+      
+      const result = await storage.approveAdjustment(existing.id, req.user!.id);
+      if (!result) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      res.json(result.shortfalls.length > 0 ? { ...result.adjustment, shortfalls: result.shortfalls } : result.adjustment);
+    } catch (err) {
+      if (err instanceof AdjustmentStatusError) {
+        return res.status(409).json({ message: err.message });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof LotError) {
+        return res.status(err.code === "EXPIRED" ? 409 : 400).json({ message: err.message });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  app.post("/api/adjustments/:id/reject", isAuthenticated, requirePermission("inventory.approve"), async (req, res, next) => {
+    try {
+      const { reason } = rejectAdjustmentSchema.parse(req.body);
+      const existing = await storage.getAdjustment(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const adjustment = await storage.rejectAdjustment(existing.id, reason, req.user!.id);
+      if (!adjustment) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      res.json(adjustment);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof AdjustmentStatusError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // The request body is the file itself; its name travels in the `filename` query parameter
+  app.post(
+    "/api/adjustments/:id/attachments",
+    isAuthenticated,
+    requirePermission("inventory.adjust"),
+    express.raw({ type: () => true, limit: "5mb" }),
+    async (req, res, next) => {
+      try {
+        const fileName = typeof req.query.filename === "string" ? req.query.filename.trim() : "";
+        if (!fileName || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Send the file as the request body with a filename parameter" });
+        }
+        
+        const existing = await storage.getAdjustment(parseInt(req.params.id));
+        if (!existing) {
+          return res.status(404).json({ message: "Adjustment not found" });
+        }
+        
+        const scope = await getWarehouseScope(req.user!, req.apiToken);
+        if (!canAccessWarehouse(scope, existing.warehouseId)) {
+          return res.status(403).json({ message: "No access to this warehouse" });
+        }
+        
+        const attachment = await storage.addAdjustmentAttachment(
+          existing.id,
+          {
+            fileName: fileName.slice(0, 255),
+            contentType: (req.get("Content-Type") || "application/octet-stream").slice(0, 100),
+            content: req.body,
+          },
+          req.user!.id
+        );
+        res.status(201).json(attachment);
+      } catch (err) {
+        next(err);
+      }
+    }
+  );
+  
+  app.get("/api/adjustments/:id/attachments/:attachmentId", isAuthenticated, requirePermission("inventory.view"), async (req, res, next) => {
+    try {
+      const existing = await storage.getAdjustment(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Adjustment not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const attachment = await storage.getAdjustmentAttachment(existing.id, parseInt(req.params.attachmentId));
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res
+        .type(attachment.contentType)
+        .attachment(attachment.fileName)
+        .send(attachment.content);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Customers endpoints
+  app.get("/api/customers", isAuthenticated, requirePermission("customers.view"), async (req, res, next) => {
+    try {
+      const customers = await storage.getAllCustomers();
+      res.json(customers);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/customers/trash", isAuthenticated, requirePermission("customers.manage"), async (req, res, next) => {
+    try {
+      const customers = await storage.getDeletedCustomers();
+      res.json(customers);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/customers/:id", isAuthenticated, requirePermission("customers.view"), async (req, res, next) => {
+    try {
+      const customer = await storage.getCustomer(parseInt(req.params.id));
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(customer);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/customers", isAuthenticated, requirePermission("customers.manage"), async (req, res, next) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const error = await customerError(validatedData);
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      
+      const customer = await storage.createCustomer(validatedData);
+      res.status(201).json(customer);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  // Replaces the customer's contacts and addresses with the ones sent
+  app.put("/api/customers/:id", isAuthenticated, requirePermission("customers.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const validatedData = insertCustomerSchema.parse(req.body);
+      const error = await customerError(validatedData, id);
+      if (error) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      
+      const customer = await storage.updateCustomer(id, validatedData);
+      res.json(customer);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/customers/:id", isAuthenticated, requirePermission("customers.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const blockers = await storage.getDeleteBlockers("customer", id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Customer is still in use", blockers });
+      }
+      
+      await storage.deleteCustomer(id, req.user!.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/customers/:id/restore", isAuthenticated, requirePermission("customers.manage"), async (req, res, next) => {
+    try {
+      const restoredCustomer = await storage.restoreCustomer(parseInt(req.params.id));
+      if (!restoredCustomer) {
+        return res.status(404).json({ message: "Deleted customer not found" });
+      }
+      res.json(restoredCustomer);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Orders endpoints
+  app.get("/api/orders", isAuthenticated, requirePermission("orders.view"), async (req, res, next) => {
+    try {
+      const { status, type, warehouseId } = orderQuerySchema.parse(req.query);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const orders = await storage.getAllOrders({ status, orderType: type, warehouseId, scope });
+      res.json(orders);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.get("/api/orders/:id", isAuthenticated, requirePermission("orders.view"), async (req, res, next) => {
+    try {
+      const order = await storage.getOrder(parseInt(req.params.id));
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!order || !canAccessOrder(scope, order)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const customer = order.customerId ? await storage.getCustomer(order.customerId) : undefined;
+      const items = await storage.getOrderItems(order.id);
+      const reservations = await storage.getOrderReservations(order.id);
+      const statusHistory = await storage.getOrderStatusHistory(order.id);
+      res.json({ ...order, customerName: customer?.name ?? null, items, reservations, statusHistory });
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/orders", isAuthenticated, requirePermission("orders.create"), async (req, res, next) => {
+    try {
+      const validatedData = await withCustomerDefaults(insertOrderSchema.parse(req.body));
+      if (!validatedData) {
+        return res.status(400).json({ message: `Customer ${req.body.customerId} not found or inactive` });
+      }
+      const status = validatedData.status;
+      const reserves = ISSUING_ORDER_TYPES.includes(validatedData.orderType) && RESERVING_ORDER_STATUSES.includes(status);
+      if (reserves) {
+        if (!validatedData.warehouseId) {
+          return res.status(400).json({ message: "A warehouse is required to reserve stock for the order" });
+        }
+      }
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      for (const warehouseId of [validatedData.warehouseId, validatedData.destinationWarehouseId]) {
+        if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+          return res.status(403).json({ message: "No access to this warehouse" });
+        }
+      }
+      
+      for (let index = 0; index < validatedData.items.length; index++) {
+        const item = validatedData.items[index];
+        if (!await storage.getProduct(item.productId)) {
+          return res.status(400).json({ message: `Line ${index + 1}: product ${item.productId} not found` });
+        }
+      }
+      
+      // Reserving orders start as drafts so the items exist before stock is reserved for them
+      const order = await storage.createOrder(
+        { ...validatedData, status: reserves ? "DRAFT" : status },
+        req.user!.id
+      );
+      
+      if (!reserves) {
+        return res.status(201).json(order);
+      }
+      try {
+        const result = await storage.updateOrderStatus(order.id, status, req.user!.id);
+        res.status(201).json(result!.shortfalls.length > 0 ? { ...result!.order, shortfalls: result!.shortfalls } : result!.order);
+      } catch (err) {
+        if (err instanceof InsufficientStockError) {
+          return res.status(409).json({
+            message: `${err.message}; the order was saved as a draft`,
+            order,
+            shortfalls: err.shortfalls,
+          });
+        }
+        throw err;
+      }
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  // Only transitions in ORDER_STATUS_TRANSITIONS are accepted. For outbound and transfer orders
+  // PENDING/PROCESSING reserve stock, CANCELLED releases it and SHIPPED posts the OUT movements;
+  // COMPLETED posts the IN movements of inbound, return and transfer orders
+  app.patch("/api/orders/:id/status", isAuthenticated, requirePermission("orders.approve"), async (req, res, next) => {
+    try {
+      const { status, note } = orderStatusSchema.parse(req.body);
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!ORDER_STATUS_TRANSITIONS[order.status].includes(status)) {
+        return res.status(409).json({
+          message: `Order cannot move from ${order.status} to ${status}`,
+          allowed: ORDER_STATUS_TRANSITIONS[order.status],
+        });
+      }
+      
+      const movesStock = ISSUING_ORDER_TYPES.includes(order.orderType)
+        ? RESERVING_ORDER_STATUSES.includes(status) || status === "SHIPPED"
+        : status === "COMPLETED";
+      if (movesStock && !order.warehouseId) {
+        return res.status(409).json({ message: "Assign a warehouse to the order before moving its stock" });
+      }
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      for (const warehouseId of [order.warehouseId, order.destinationWarehouseId]) {
+        if (warehouseId && !canAccessWarehouse(scope, warehouseId)) {
+          return res.status(403).json({ message: "No access to this warehouse" });
+        }
+      }
+      
+      const result = await storage.updateOrderStatus(order.id, status, req.user!.id, note);
+      if (!result) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(result.shortfalls.length > 0 ? { ...result.order, shortfalls: result.shortfalls } : result.order);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof SerialError) {
+        return res.status(err.code === "COUNT_MISMATCH" ? 400 : 409).json({ message: err.message });
+      }
+      // The status changed between the check above and the locked update
+      if (err instanceof OrderStatusError) {
+        return res.status(409).json({ message: err.message, allowed: err.allowed });
+      }
+      next(err);
+    }
+  });
+  
+  // Edits below recompute the order's totals and re-reserve its stock. Lines that can no
+  // longer be reserved reject the edit with 409.
+  app.put("/api/orders/:id", isAuthenticated, requirePermission("orders.create"), async (req, res, next) => {
+    try {
+      const changes = updateOrderSchema.parse(req.body);
+      const { overrideReason } = orderOverrideSchema.parse(req.body);
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const editError = await orderEditError(req, order, overrideReason);
+      if (editError) {
+        return res.status(editError.status).json({ message: editError.message });
+      }
+      if (changes.customerId && !(await storage.getCustomer(changes.customerId))?.isActive) {
+        return res.status(400).json({ message: `Customer ${changes.customerId} not found or inactive` });
+      }
+      
+      const warehouseId = changes.warehouseId !== undefined ? changes.warehouseId : order.warehouseId;
+      const destinationWarehouseId =
+        changes.destinationWarehouseId !== undefined ? changes.destinationWarehouseId : order.destinationWarehouseId;
+      if (order.orderType === "TRANSFER" && (!warehouseId || !destinationWarehouseId)) {
+        return res.status(400).json({ message: "A transfer order needs a source and a destination warehouse" });
+      }
+      if (order.orderType === "TRANSFER" ? warehouseId === destinationWarehouseId : destinationWarehouseId) {
+        return res.status(400).json({ message: "Only transfer orders have a destination, and it must differ from the source warehouse" });
+      }
+      if (!warehouseId && order.status !== "DRAFT") {
+        return res.status(400).json({ message: "A submitted order needs a warehouse" });
+      }
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      for (const id of [changes.warehouseId, changes.destinationWarehouseId]) {
+        if (id && !canAccessWarehouse(scope, id)) {
+          return res.status(403).json({ message: "No access to this warehouse" });
+        }
+      }
+      
+      const result = await storage.updateOrder(order.id, changes, req.user!.id, overrideReason);
+      if (!result) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(result.shortfalls.length > 0 ? { ...result.order, shortfalls: result.shortfalls } : result.order);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      // The status changed between the check above and the locked update
+      if (err instanceof OrderEditError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  app.post("/api/orders/:id/items", isAuthenticated, requirePermission("orders.create"), async (req, res, next) => {
+    try {
+      const item = insertOrderItemSchema.parse(req.body);
+      const { overrideReason } = orderOverrideSchema.parse(req.body);
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const editError = await orderEditError(req, order, overrideReason);
+      if (editError) {
+        return res.status(editError.status).json({ message: editError.message });
+      }
+      if (!await storage.getProduct(item.productId)) {
+        return res.status(400).json({ message: `Product ${item.productId} not found` });
+      }
+      
+      const result = await storage.createOrderItem(order.id, item, req.user!.id, overrideReason);
+      if (!result) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.status(201).json(result.shortfalls.length > 0 ? { ...result.order, shortfalls: result.shortfalls } : result.order);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof OrderEditError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  app.put("/api/orders/:id/items/:itemId", isAuthenticated, requirePermission("orders.create"), async (req, res, next) => {
+    try {
+      const changes = updateOrderItemSchema.parse(req.body);
+      const { overrideReason } = orderOverrideSchema.parse(req.body);
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const itemId = parseInt(req.params.itemId);
+      if (!(await storage.getOrderItems(order.id)).some((item) => item.id === itemId)) {
+        return res.status(404).json({ message: "Order line not found" });
+      }
+      const editError = await orderEditError(req, order, overrideReason);
+      if (editError) {
+        return res.status(editError.status).json({ message: editError.message });
+      }
+      
+      const result = await storage.updateOrderItem(order.id, itemId, changes, req.user!.id, overrideReason);
+      if (!result) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(result.shortfalls.length > 0 ? { ...result.order, shortfalls: result.shortfalls } : result.order);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof OrderEditError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/orders/:id/items/:itemId", isAuthenticated, requirePermission("orders.create"), async (req, res, next) => {
+    try {
+      const { overrideReason } = orderOverrideSchema.parse(req.body ?? {});
+      const order = await storage.getOrder(parseInt(req.params.id));
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      const itemId = parseInt(req.params.itemId);
+      if (!(await storage.getOrderItems(order.id)).some((item) => item.id === itemId)) {
+        return res.status(404).json({ message: "Order line not found" });
+      }
+      const editError = await orderEditError(req, order, overrideReason);
+      if (editError) {
+        return res.status(editError.status).json({ message: editError.message });
+      }
+      
+      const result = await storage.deleteOrderItem(order.id, itemId, req.user!.id, overrideReason);
+      if (!result) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      res.json(result.order);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      if (err instanceof InsufficientStockError) {
+        return res.status(409).json({ message: err.message, shortfalls: err.shortfalls });
+      }
+      if (err instanceof OrderEditError) {
+        return res.status(409).json({ message: err.message });
+      }
+      next(err);
+    }
+  });
+  
+  // Users endpoints
+  app.get("/api/users", isAuthenticated, requirePermission("users.view"), async (req, res, next) => {
+    try {
+      const includeDeleted = req.query.includeDeleted === "true";
+      const users = await storage.getAllUsers({ includeDeleted });
+      // Remove password field from response
+      res.json(users.map(toUserResponse));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/users/:id", isAuthenticated, requirePermission("users.view"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toUserResponse(user));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/users", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const { role, ...validatedData } = createUserSchema.parse(req.body);
+      
+      const passwordErrors = validatePasswordStrength(validatedData.password);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+      
+      const conflict = await storage.findUserByUsernameOrEmail(validatedData.username, validatedData.email);
+      if (conflict) {
+        return res.status(409).json({ message: "Username or email already exists" });
+      }
+      
+      const user = await storage.createUser({
+        ...validatedData,
+        role,
+        isAdmin: role === "ADMIN",
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toUserResponse(user));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.put("/api/users/:id", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUser(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { role, password, ...validatedData } = updateUserSchema.parse(req.body);
+      const changes: Partial<User> = { ...validatedData };
+      if (role) {
+        changes.role = role;
+        changes.isAdmin = role === "ADMIN";
+      }
+      
+      if (changes.username || changes.email) {
+        const conflict = await storage.findUserByUsernameOrEmail(
+          changes.username ?? existing.username,
+          changes.email ?? existing.email,
+          id
+        );
+        if (conflict) {
+          return res.status(409).json({ message: "Username or email already exists" });
+        }
+      }
+      
+      if (await wouldRemoveLastAdmin(existing, changes)) {
+        return res.status(409).json({ message: "Cannot demote or deactivate the last remaining administrator" });
+      }
+      
+      if (password) {
+        // Admins changing their own password stay signed in on this device
+        const passwordErrors = await setUserPassword(existing, password, id === req.user!.id ? req.sessionID : undefined);
+        if (passwordErrors.length > 0) {
+          return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+        }
+      }
+      
+      const updatedUser = await storage.updateUser(id, changes);
+      if (changes.isActive === false) {
+        await storage.deleteUserSessions(id);
+      }
+      res.json(toUserResponse(updatedUser!));
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/users/:id", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUser(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (id === req.user!.id) {
+        return res.status(409).json({ message: "You cannot delete your own account" });
+      }
+      
+      if (await wouldRemoveLastAdmin(existing, { deletedAt: new Date() })) {
+        return res.status(409).json({ message: "Cannot delete the last remaining administrator" });
+      }
+      
+      await storage.deleteUser(id, req.user!.id);
+      await storage.deleteUserSessions(id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/users/:id/reset-password", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      await issuePasswordReset(user, req.user!.id);
+      res.status(202).json({ message: `Password reset link sent to ${user.email}` });
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/users/:id/unlock", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+      res.json(toUserResponse(updatedUser!));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/users/:id/sessions", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const sessions = await storage.getUserSessions(parseInt(req.params.id));
+      res.json(sessions.map((stored) => toSessionResponse(stored, req.sessionID)));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Force logout: ends every session of the user
+  app.delete("/api/users/:id/sessions", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (id === req.user!.id) {
+        return res.status(409).json({ message: "Use the sessions list in settings to sign out your own devices" });
+      }
+      
+      const revoked = await storage.deleteUserSessions(id);
+      res.json({ revoked });
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // Tokens of any user, e.g. service accounts used by scanners and sync jobs
+  app.get("/api/users/:id/api-tokens", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const tokens = await storage.getApiTokensByUser(parseInt(req.params.id));
+      res.json(tokens.map(toApiTokenResponse));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/users/:id/api-tokens", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const owner = await storage.getUser(parseInt(req.params.id));
+      if (!owner) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const input = createApiTokenSchema.parse(req.body);
+      const result = await issueApiToken(owner, input, await getWarehouseScope(owner));
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      res.status(201).json({ ...toApiTokenResponse(result.apiToken), token: result.token });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/users/:id/api-tokens/:tokenId", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const token = await storage.getApiToken(parseInt(req.params.tokenId));
+      if (!token || token.userId !== parseInt(req.params.id) || token.revokedAt) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      
+      await storage.revokeApiToken(token.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  // For users who lost both their authenticator and recovery codes
+  app.post("/api/users/:id/2fa/reset", isAuthenticated, requireSession, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updatedUser = await storage.updateUser(user.id, {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorLastCounter: null,
+      });
+      await storage.deleteRecoveryCodes(user.id);
+      res.json(toUserResponse(updatedUser!));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/users/:id/restore", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUserIncludingDeleted(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!existing.deletedAt) {
+        return res.status(409).json({ message: "User is not deleted" });
+      }
+      
+      const restoredUser = await storage.restoreUser(id);
+      res.json(toUserResponse(restoredUser!));
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/users/:id/warehouses", isAuthenticated, requirePermission("users.view"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const warehouseIds = await storage.getUserWarehouseIds(user.id);
+      res.json({ userId: user.id, warehouseIds });
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.put("/api/users/:id/warehouses", isAuthenticated, requirePermission("users.manage"), async (req, res, next) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { warehouseIds } = z.object({ warehouseIds: z.array(z.string()) }).parse(req.body);
+      for (const warehouseId of warehouseIds) {
+        if (!(await storage.getWarehouse(warehouseId))) {
+          return res.status(400).json({ message: `Warehouse ${warehouseId} not found` });
+        }
+      }
+      
+      const assigned = await storage.setUserWarehouses(user.id, warehouseIds, req.user!.id);
+      res.json({ userId: user.id, warehouseIds: assigned });
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  // Warehouses endpoints
+  app.get("/api/warehouses", isAuthenticated, requirePermission("warehouses.view"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const warehouses = await storage.getAllWarehouses(scope);
+      res.json(warehouses);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.get("/api/warehouses/trash", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const warehouses = await storage.getDeletedWarehouses(scope);
+      res.json(warehouses);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/warehouses", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const warehouseData = insertWarehouseSchema.parse(req.body);
+      const newWarehouse = await storage.createWarehouse(warehouseData);
+      
+      // Scoped users keep access to the warehouses they create. Only the new warehouse is
+      // added to their stored assignments, whatever an API token narrows them to.
+      if (getEffectiveRole(req.user!) !== "ADMIN") {
+        await storage.addUserWarehouse(req.user!.id, newWarehouse.id, req.user!.id);
+      }
+      
+      res.status(201).json(newWarehouse);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.put("/api/warehouses/:id", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const id = req.params.id;
+      const existing = await storage.getWarehouse(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, id)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const warehouseData = insertWarehouseSchema.partial().parse(req.body);
+      const updatedWarehouse = await storage.updateWarehouse(id, warehouseData);
+      res.json(updatedWarehouse);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/warehouses/:id", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const id = req.params.id;
+      const existing = await storage.getWarehouse(id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, id)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const blockers = await storage.getDeleteBlockers("warehouse", id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Warehouse still holds inventory", blockers });
+      }
+      
+      const result = await storage.deleteWarehouse(id, req.user!.id);
+      if (result) {
+        res.status(204).send();
+      } else {
+        res.status(500).json({ message: "Could not delete warehouse" });
+      }
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/warehouses/:id/restore", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const id = req.params.id;
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, id)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const restoredWarehouse = await storage.restoreWarehouse(id);
+      if (!restoredWarehouse) {
+        return res.status(404).json({ message: "Deleted warehouse not found" });
+      }
+      res.json(restoredWarehouse);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Warehouse locations
+  app.get("/api/warehouses/:id/locations", isAuthenticated, requirePermission("warehouses.view"), async (req, res, next) => {
+    try {
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, req.params.id)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const locations = await storage.getWarehouseLocations(req.params.id);
+      res.json(locations);
+    } catch (err) {
+      next(err);
+    }
+  });
+  
+  app.post("/api/warehouses/:id/locations", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const warehouseId = req.params.id;
+      const warehouse = await storage.getWarehouse(warehouseId);
+      if (!warehouse) {
+        return res.status(404).json({ message: "Warehouse not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const validatedData = insertWarehouseLocationSchema.parse(req.body);
+      const locations = await storage.getWarehouseLocations(warehouseId);
+      const parent = validatedData.parentId
+        ? locations.find((location) => location.id === validatedData.parentId)
+        : undefined;
+      if (validatedData.parentId && !parent) {
+        return res.status(400).json({ message: "Parent location not found in this warehouse" });
+      }
+      
+      // Zones sit at the top; every other level goes directly inside the level before it
+      const expectedParentLevel = LOCATION_LEVELS[LOCATION_LEVELS.indexOf(validatedData.level) - 1];
+      if ((parent?.level ?? undefined) !== expectedParentLevel) {
+        return res.status(400).json({
+          message: expectedParentLevel
+            ? `A ${validatedData.level.toLowerCase()} must be inside a ${expectedParentLevel.toLowerCase()}`
+            : "Zones cannot be inside another location",
+        });
+      }
+      
+      const code = validatedData.code.toUpperCase();
+      const path = parent ? `${parent.path}-${code}` : code;
+      if (locations.some((location) => location.path === path)) {
+        return res.status(409).json({ message: `Location ${path} already exists` });
+      }
+      
+      const location = await storage.createWarehouseLocation(warehouseId, validatedData);
+      res.status(201).json(location);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.put("/api/warehouses/:id/locations/:locationId", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const existing = await storage.getWarehouseLocation(parseInt(req.params.locationId));
+      if (!existing || existing.warehouseId !== req.params.id) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const locationData = updateWarehouseLocationSchema.parse(req.body);
+      const updatedLocation = await storage.updateWarehouseLocation(existing.id, locationData);
+      res.json(updatedLocation);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
+      next(err);
+    }
+  });
+  
+  app.delete("/api/warehouses/:id/locations/:locationId", isAuthenticated, requirePermission("warehouses.manage"), async (req, res, next) => {
+    try {
+      const existing = await storage.getWarehouseLocation(parseInt(req.params.locationId));
+      if (!existing || existing.warehouseId !== req.params.id) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      if (!canAccessWarehouse(scope, existing.warehouseId)) {
+        return res.status(403).json({ message: "No access to this warehouse" });
+      }
+      
+      const blockers = await storage.getLocationDeleteBlockers(existing.id);
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: "Location is still in use", blockers });
+      }
+      
+      await storage.deleteWarehouseLocation(existing.id);
+      res.status(204).send();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Audit log
+  app.get("/api/audit", isAuthenticated, requirePermission("audit.view"), async (req, res, next) => {
+    try {
+      const filters = auditQuerySchema.parse(req.query);
+      const scope = await getWarehouseScope(req.user!, req.apiToken);
+      const entries = await storage.getAuditLog({ ...filters, scope });
+      res.json(entries);
+    } catch (err) {
+      if (err instanceof ZodError) {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: fromZodError(err).message 
+        });
+      }
       next(err);
     }
   });
@@ -0,0 +1,67 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import type { StoredSession } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    // Device details for the active sessions list, set on the first authenticated request
+    meta?: {
+      createdAt: number;
+      lastSeenAt: number;
+      ip?: string;
+      userAgent?: string;
+    };
+  }
+}
+
+export const sessionLifetime = {
+  // Sessions expire after this long without a request; every request pushes the expiry out
+  idleTimeoutMs: parseInt(process.env.SESSION_IDLE_TIMEOUT_MINUTES || "120") * 60 * 1000,
+  // Hard limit from sign-in regardless of activity
+  absoluteLifetimeMs: parseInt(process.env.SESSION_MAX_LIFETIME_HOURS || "24") * 60 * 60 * 1000,
+};
+
+// Avoid rewriting the session row on every request just to bump lastSeenAt
+const LAST_SEEN_RESOLUTION_MS = 1000 * 60;
+
+// Identifier exposed to clients; the raw sid stays on the server
+export function sessionPublicId(sid: string) {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+export function toSessionResponse(stored: StoredSession, currentSid?: string) {
+  const meta = stored.sess.meta;
+  return {
+    id: sessionPublicId(stored.sid),
+    current: stored.sid === currentSid,
+    ip: meta?.ip ?? null,
+    userAgent: meta?.userAgent ?? null,
+    createdAt: meta ? new Date(meta.createdAt) : null,
+    lastSeenAt: meta ? new Date(meta.lastSeenAt) : null,
+    expiresAt: stored.expire,
+  };
+}
+
+// Runs after passport.session(): ends sessions past their absolute lifetime
+// and keeps the device details used by the sessions list up to date
+export function trackSession(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) return next();
+
+  const now = Date.now();
+  const meta = req.session.meta;
+  if (!meta) {
+    req.session.meta = { createdAt: now, lastSeenAt: now, ip: req.ip, userAgent: req.get("user-agent") };
+    return next();
+  }
+
+  if (now - meta.createdAt > sessionLifetime.absoluteLifetimeMs) {
+    // Logging out regenerates the session, so the request continues unauthenticated
+    return req.logout((err) => next(err));
+  }
+
+  if (now - meta.lastSeenAt > LAST_SEEN_RESOLUTION_MS) {
+    meta.lastSeenAt = now;
+    meta.ip = req.ip;
+  }
+  next();
+}
@@ -0,0 +1,120 @@
+// Concurrency tests for POST /api/stock-movements. They post in parallel, so they need the
+// real database described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+const PARALLEL_REQUESTS = 25;
+
+describe("POST /api/stock-movements under concurrency", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let token: string;
+  let warehouseId: string;
+  let productId: number;
+
+  const post = (body: Record<string, unknown>, idempotencyKey?: string) =>
+    app.request(token, "POST", "/api/stock-movements", body, idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {});
+
+  const onHand = async () => {
+    const balances = await app.storage.getInventoryByProduct(productId);
+    return balances
+      .filter((balance) => balance.warehouseId === warehouseId)
+      .reduce((total, balance) => total + Number(balance.quantity), 0);
+  };
+
+  const movementCount = async () => {
+    const movements = await app.storage.getStockMovementsByProduct(productId);
+    return movements.filter((movement) => movement.warehouseId === warehouseId).length;
+  };
+
+  before(async () => {
+    app = await startTestApp();
+    const suffix = app.uniqueSuffix();
+    const warehouse = await app.storage.createWarehouse({
+      id: `T${suffix}`,
+      name: `Concurrency test ${suffix}`,
+      negativeStockPolicy: "BLOCK",
+    });
+    warehouseId = warehouse.id;
+    const product = await app.storage.createProduct({ sku: `TEST-${suffix}`, name: `Concurrency test ${suffix}`, cost: "1.00" });
+    productId = product.id;
+    ({ token } = await app.createUser("ADMIN"));
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("never issues more stock than is on hand", async () => {
+    const stock = 10;
+    const received = await post({ productId, warehouseId, direction: "IN", quantity: stock });
+    assert.equal(received.status, 201);
+
+    const responses = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, () => post({ productId, warehouseId, direction: "OUT", quantity: 1 }))
+    );
+    const statuses = responses.map((response) => response.status);
+
+    assert.equal(statuses.filter((status) => status === 201).length, stock);
+    assert.equal(statuses.filter((status) => status === 409).length, PARALLEL_REQUESTS - stock);
+    assert.equal(await onHand(), 0);
+    assert.equal(await movementCount(), stock + 1);
+  });
+
+  it("keeps the balance consistent when receipts and issues interleave", async () => {
+    const before = await onHand();
+    const received = await post({ productId, warehouseId, direction: "IN", quantity: PARALLEL_REQUESTS });
+    assert.equal(received.status, 201);
+
+    // Every issue is covered even if all of them run before any receipt
+    const responses = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS * 2 }, (_, i) =>
+        post({ productId, warehouseId, direction: i % 2 === 0 ? "IN" : "OUT", quantity: 1 })
+      )
+    );
+
+    assert.deepEqual(responses.map((response) => response.status), responses.map(() => 201));
+    assert.equal(await onHand(), before + PARALLEL_REQUESTS);
+  });
+
+  it("posts a movement once when it is retried in parallel with the same idempotency key", async () => {
+    const before = await onHand();
+    const movementsBefore = await movementCount();
+    const key = `concurrency-${app.uniqueSuffix()}`;
+
+    const responses = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, () => post({ productId, warehouseId, direction: "IN", quantity: 3 }, key))
+    );
+    const bodies = await Promise.all(responses.map((response) => response.json()));
+    const statuses = responses.map((response) => response.status);
+
+    assert.equal(statuses.filter((status) => status === 201).length, 1);
+    assert.equal(statuses.filter((status) => status === 200).length, PARALLEL_REQUESTS - 1);
+    assert.equal(new Set(bodies.map((body) => body.id)).size, 1);
+    assert.equal(await onHand(), before + 3);
+    assert.equal(await movementCount(), movementsBefore + 1);
+  });
+
+  it("rejects an idempotency key reused for a different movement", async () => {
+    const key = `concurrency-${app.uniqueSuffix()}`;
+    const first = await post({ productId, warehouseId, direction: "IN", quantity: 2 }, key);
+    assert.equal(first.status, 201);
+
+    const before = await onHand();
+    const retry = await post({ productId, warehouseId, direction: "IN", quantity: 5 }, key);
+    assert.equal(retry.status, 409);
+    assert.equal(await onHand(), before);
+  });
+
+  it("does not let a hand-entered movement pass itself off as a document's", async () => {
+    const before = await onHand();
+    const responses = await Promise.all(
+      ["COUNT", "count", "ORDER", "TRANSFER", "ADJUSTMENT"].map((referenceType) =>
+        post({ productId, warehouseId, direction: "OUT", quantity: before + 5, referenceType })
+      )
+    );
+
+    assert.deepEqual(responses.map((response) => response.status), responses.map(() => 400));
+    assert.equal(await onHand(), before);
+  });
+});
@@ -1,38 +1,379 @@
 import { 
   users, type User, type InsertUser,
   products, type Product, type InsertProduct,
+  lots, type Lot, type FefoPick, type NearExpiryItem,
+  serialNumbers, stockMovementSerials, type SerialNumber, type SerialLookup,
   productCategories, type ProductCategory, type InsertProductCategory,
   unitsOfMeasure, type UnitOfMeasure, type InsertUnitOfMeasure,
-  inventory, type Inventory, type InsertInventory,
+  inventory, type Inventory, type InsertInventory, type InventoryWithAvailability,
   stockMovements, type StockMovement, type InsertStockMovement,
-  orders, type Order, type InsertOrder,
-  orderItems, type OrderItem, type InsertOrderItem,
+  customers, customerContacts, customerAddresses, type Customer, type CustomerWithDetails, type InsertCustomer,
+  orders, type Order, type OrderWithCustomer, type InsertOrder, type UpdateOrder, EDITABLE_ORDER_STATUSES,
+  orderItems, type OrderItem, type InsertOrderItem, type UpdateOrderItem,
+  stockReservations, type StockReservation, type OrderStatus, type OrderType,
+  orderStatusHistory, ORDER_STATUS_TRANSITIONS, type OrderStatusHistoryEntry,
+  transfers, transferLines, type Transfer, type TransferLineWithLot, type TransferWithLines,
+  type InsertTransfer, type ReceiveTransfer, type TransferStatus,
+  countSessions, countLines, countEntries, type CountSession, type CountLine, type CountLineDetail,
+  type CountSessionWithLines, type InsertCountSession, type CountEntries, type CountStatus, type AbcClass,
+  adjustmentReasons, adjustments, adjustmentLines, adjustmentAttachments, DEFAULT_ADJUSTMENT_REASONS,
+  type AdjustmentReason, type InsertAdjustmentReason, type UpdateAdjustmentReason, type Adjustment,
+  type AdjustmentLine, type AdjustmentWithLines, type AdjustmentAttachment, type AdjustmentAttachmentInfo,
+  type InsertAdjustment, type AdjustmentStatus,
+  costLayers, type ValuationReportRow,
   warehouses, type Warehouse, type InsertWarehouse,
+  warehouseLocations, type WarehouseLocation, type WarehouseLocationWithStock,
+  type InsertWarehouseLocation, type UpdateWarehouseLocation,
+  userWarehouses,
+  passwordHistory,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  twoFactorRecoveryCodes,
+  apiTokens, type ApiToken, type InsertApiToken,
+  auditLog, type AuditLogEntry,
   classTypes, type ClassType,
+  type NegativeStockPolicy,
+  type StockShortfall,
   tuOrientationTypes, type TuOrientationType
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, like, and, isNull, desc, sql, not } from "drizzle-orm";
+import { eq, like, and, or, isNull, isNotNull, desc, sql, not, ne, inArray, gt, gte, lt, lte, getTableColumns, type SQL } from "drizzle-orm";
+import { alias, type AnyPgColumn, type PgTable } from "drizzle-orm/pg-core";
+import { buildAuditEntry, type AuditAction, type AuditEntityType } from "./audit";
+import type { SoftDeleteEntity } from "./trash";
+import { effectiveValuationMethod } from "./valuation";
+import { createHash, randomBytes } from "crypto";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 
 const PostgresSessionStore = connectPg(session);
+const SESSION_TABLE = "session";
+
+// Warehouse scope passed to queries: null/undefined means unrestricted
+export type WarehouseScope = string[] | null | undefined;
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type DbExecutor = typeof db | DbTransaction;
+
+// Orders that still expect to pick or receive their lines
+const OPEN_ORDER_STATUSES: OrderStatus[] = ["DRAFT", "PENDING", "PROCESSING"];
+
+// Orders in these statuses hold stock reservations
+export const RESERVING_ORDER_STATUSES: OrderStatus[] = ["PENDING", "PROCESSING"];
+
+// Order types that reserve stock and ship it out of the order's warehouse. The
+// others (and a TRANSFER's destination) receive their lines when COMPLETED.
+export const ISSUING_ORDER_TYPES: OrderType[] = ["OUTBOUND", "TRANSFER"];
+
+// Stock movements that send goods out of the warehouse; expired lots may not leave this way
+const SHIPPING_REFERENCE_TYPES = ["ORDER", "TRANSFER"];
+
+// Quarantined stock and expired lots are never available
+const isUnavailableStock = sql`(${warehouseLocations.locationType} = 'QUARANTINE' OR ${lots.expiryDate} < current_date)`;
+
+// Inventory columns plus available to promise, location path and lot; select
+// from inventory left-joined to warehouseLocations and lots
+const inventoryWithAvailability = {
+  ...getTableColumns(inventory),
+  availableQuantity: sql<string>`CASE WHEN ${isUnavailableStock} THEN 0
+    ELSE ${inventory.quantity} - coalesce(${inventory.reservedQuantity}, 0) END`,
+  locationPath: warehouseLocations.path,
+  lotNumber: lots.lotNumber,
+  expiryDate: lots.expiryDate,
+};
+
+function isExpired(lot: Lot) {
+  return !!lot.expiryDate && lot.expiryDate < new Date().toISOString().slice(0, 10);
+}
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Amounts of an order line: the discount comes off the gross price and tax is charged on the rest
+function priceOrderLine(quantity: number, unitPrice: number, discountPercent: number, taxRate: number) {
+  const gross = roundMoney(quantity * unitPrice);
+  const discountAmount = roundMoney(gross * discountPercent / 100);
+  const taxAmount = roundMoney((gross - discountAmount) * taxRate / 100);
+  return { gross, discountAmount, taxAmount, totalPrice: roundMoney(gross - discountAmount + taxAmount) };
+}
+
+// Orders at or bound for a warehouse in scope; orders not yet assigned a warehouse stay visible
+function orderScopeCondition(scope: WarehouseScope) {
+  if (!scope) return undefined;
+  return or(
+    isNull(orders.warehouseId),
+    inArray(orders.warehouseId, scope),
+    inArray(orders.destinationWarehouseId, scope)
+  );
+}
+
+// One NOT EXISTS condition per column that may point at `key`
+function unreferenced(key: AnyPgColumn, references: AnyPgColumn[]) {
+  return references.map((column) => sql`NOT EXISTS (SELECT 1 FROM ${column.table} WHERE ${column} = ${key})`);
+}
+
+// Entries of master data, or touching at least one warehouse in scope
+function auditScopeCondition(scope: WarehouseScope) {
+  if (!scope) return undefined;
+  if (scope.length === 0) return isNull(auditLog.warehouseIds);
+  return or(
+    isNull(auditLog.warehouseIds),
+    sql`${auditLog.warehouseIds} ?| array[${sql.join(scope.map((id) => sql`${id}`), sql`, `)}]::text[]`
+  );
+}
+
+function availableQuantity(balance: Inventory) {
+  return Number(balance.quantity) - Number(balance.reservedQuantity ?? 0);
+}
+
+// Fingerprint of an adjustment submission, so a retried idempotency key can be told
+// apart from the same key sent with different content
+function adjustmentPayloadHash(
+  { warehouseId, reasonCode, notes }: Omit<InsertAdjustment, "lines">,
+  lines: InsertAdjustment["lines"],
+  createdBy?: number
+) {
+  const payload = {
+    warehouseId,
+    reasonCode,
+    notes: notes ?? null,
+    createdBy: createdBy ?? null,
+    lines: lines.map((line) => [
+      line.productId,
+      line.direction,
+      Number(line.quantity),
+      line.locationId ?? null,
+      line.lotNumber ?? null,
+      line.expiryDate ?? null,
+    ]),
+  };
+  return createHash("sha256").update(JSON.stringify(payload)).digest("hex");
+}
+
+const fromLocations = alias(warehouseLocations, "from_locations");
+const toLocations = alias(warehouseLocations, "to_locations");
+
+// Movement columns plus the paths of the locations and the lot it names
+const stockMovementWithLocations = {
+  ...getTableColumns(stockMovements),
+  fromLocationPath: fromLocations.path,
+  toLocationPath: toLocations.path,
+  lotNumber: lots.lotNumber,
+};
+
+export type StockMovementWithLocations = StockMovement & {
+  fromLocationPath: string | null;
+  toLocationPath: string | null;
+  lotNumber: string | null;
+};
+
+// Totals of one product across all locations of a warehouse
+type WarehouseStock = {
+  onHand: number;
+  available: number;
+};
+
+export type OrderStatusResult = {
+  order: Order;
+  // Lines reserved or shipped beyond available stock under a WARN policy
+  shortfalls: StockShortfall[];
+};
+
+export type StockMovementResult = {
+  movement: StockMovement;
+  // "replayed": the idempotency key was already posted and the original movement is returned.
+  // "conflict": the key belongs to a different movement; nothing was posted.
+  status: "created" | "replayed" | "conflict";
+  // Overdraws posted under a WARN policy
+  shortfalls: StockShortfall[];
+};
+
+// Thrown while posting when a BLOCK policy rejects an overdraw; the surrounding transaction rolls back
+export class InsufficientStockError extends Error {
+  constructor(public shortfalls: StockShortfall[]) {
+    super("Insufficient stock");
+    this.name = "InsufficientStockError";
+  }
+}
+
+// Movement input as posted internally: documents that already know the lot pass its id
+type StockMovementInput = InsertStockMovement & { lotId?: number | null };
+
+// Set by the document posting a movement, never taken from the request
+type PostingOptions = {
+  // A count posts what is physically there, so its corrections are never held back
+  ignoreShortfall?: boolean;
+};
+
+// Thrown while posting when a movement names a lot it may not use
+export class LotError extends Error {
+  constructor(public code: "UNKNOWN_LOT" | "EXPIRY_MISMATCH" | "EXPIRED", message: string) {
+    super(message);
+    this.name = "LotError";
+  }
+}
+
+// Thrown while posting when the serial numbers of a movement do not match the units it moves
+export class SerialError extends Error {
+  constructor(public code: "COUNT_MISMATCH" | "ALREADY_IN_STOCK" | "NOT_AVAILABLE", message: string) {
+    super(message);
+    this.name = "SerialError";
+  }
+}
+
+// Thrown when the order lifecycle does not allow the requested status change
+export class OrderStatusError extends Error {
+  constructor(public from: OrderStatus, public to: OrderStatus) {
+    super(`Order cannot move from ${from} to ${to}`);
+    this.name = "OrderStatusError";
+  }
+
+  get allowed(): OrderStatus[] {
+    return ORDER_STATUS_TRANSITIONS[this.from];
+  }
+}
+
+// Thrown when an order is edited in a status that no longer allows it
+export class OrderEditError extends Error {
+  constructor(public status: OrderStatus) {
+    super(
+      status === "PROCESSING"
+        ? "The order is being processed; editing it needs a manager override"
+        : `${status} orders can no longer be edited`
+    );
+    this.name = "OrderEditError";
+  }
+}
+
+// Thrown when a transfer is not in the status the requested step starts from
+export class TransferStatusError extends Error {
+  constructor(public status: TransferStatus, expected: TransferStatus) {
+    super(`Transfer is ${status}; this step requires ${expected}`);
+    this.name = "TransferStatusError";
+  }
+}
+
+// Thrown when a receipt books more of a line than is still in transit
+export class TransferReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransferReceiptError";
+  }
+}
+
+// Thrown when a count session cannot take the requested step
+export class CountSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CountSessionError";
+  }
+}
+
+// Thrown when an adjustment is not in the status the requested step starts from
+export class AdjustmentStatusError extends Error {
+  constructor(public status: AdjustmentStatus, expected: AdjustmentStatus) {
+    super(`Adjustment is ${status}; this step requires ${expected}`);
+    this.name = "AdjustmentStatusError";
+  }
+}
+
+export type AdjustmentResult = {
+  adjustment: AdjustmentWithLines;
+  // "conflict": the idempotency key belongs to a different submission; nothing was saved
+  status: "created" | "replayed" | "conflict";
+  // Lines posted past the available quantity under a WARN policy
+  shortfalls: StockShortfall[];
+};
+
+// Stock dispatched but not yet received, per product and route
+export type InTransitStock = {
+  productId: number;
+  sourceWarehouseId: string;
+  destinationWarehouseId: string;
+  quantity: string;
+};
+
+export type OrderFilters = {
+  status?: OrderStatus;
+  orderType?: OrderType;
+  warehouseId?: string;
+  scope?: WarehouseScope;
+};
+
+export type AuditLogFilters = {
+  scope?: WarehouseScope;
+  entityType?: string;
+  entityId?: string;
+  actorId?: number;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+// Row of the express-session store table
+export type StoredSession = { sid: string; sess: session.SessionData & Record<string, any>; expire: Date };
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
-  deleteUser(id: number): Promise<boolean>;
-  getAllUsers(): Promise<User[]>;
+  deleteUser(id: number, deletedBy?: number): Promise<boolean>;
+  restoreUser(id: number): Promise<User | undefined>;
+  recordFailedLogin(id: number, maxAttempts: number, lockoutSeconds: number): Promise<User | undefined>;
+  getAllUsers(options?: { includeDeleted?: boolean }): Promise<User[]>;
+  getUserIncludingDeleted(id: number): Promise<User | undefined>;
+  findUserByUsernameOrEmail(username: string, email: string, excludeId?: number): Promise<User | undefined>;
+  countActiveAdmins(excludeId?: number): Promise<number>;
+
+  // Passwords
+  addPasswordHistory(userId: number, passwordHash: string): Promise<void>;
+  getPasswordHistory(userId: number, limit: number): Promise<string[]>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  markPasswordResetTokenUsed(id: number): Promise<boolean>;
+  invalidatePasswordResetTokens(userId: number): Promise<void>;
+
+  // Two-Factor Authentication
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  deleteRecoveryCodes(userId: number): Promise<void>;
+  recordTwoFactorCounter(userId: number, counter: number): Promise<boolean>;
+
+  // API Tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  revokeApiToken(id: number): Promise<boolean>;
+  recordApiTokenUse(id: number, ip: string | undefined): Promise<void>;
+
+  // Audit Log (append-only: there are deliberately no update or delete methods)
+  getAuditLog(filters: AuditLogFilters): Promise<(AuditLogEntry & { actorName: string | null })[]>;
+
+  // Sessions
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+
+  // User Warehouse Access
+  getUserWarehouseIds(userId: number): Promise<string[]>;
+  setUserWarehouses(userId: number, warehouseIds: string[], assignedBy?: number): Promise<string[]>;
+  addUserWarehouse(userId: number, warehouseId: string, assignedBy?: number): Promise<string[]>;
 
   // Products
   getProduct(id: number): Promise<Product | undefined>;
   getProductBySku(sku: string): Promise<Product | undefined>;
   createProduct(product: InsertProduct): Promise<Product>;
   updateProduct(id: number, product: Partial<Product>): Promise<Product | undefined>;
-  deleteProduct(id: number): Promise<boolean>;
+  deleteProduct(id: number, deletedBy?: number): Promise<boolean>;
+  restoreProduct(id: number): Promise<Product | undefined>;
+  getDeletedProducts(): Promise<Product[]>;
   getAllProducts(): Promise<Product[]>;
   searchProducts(query: string): Promise<Product[]>;
 
@@ -40,14 +381,18 @@ export interface IStorage {
   getProductCategory(id: number): Promise<ProductCategory | undefined>;
   createProductCategory(category: InsertProductCategory): Promise<ProductCategory>;
   updateProductCategory(id: number, category: Partial<ProductCategory>): Promise<ProductCategory | undefined>;
-  deleteProductCategory(id: number): Promise<boolean>;
+  deleteProductCategory(id: number, deletedBy?: number): Promise<boolean>;
+  restoreProductCategory(id: number): Promise<ProductCategory | undefined>;
+  getDeletedProductCategories(): Promise<ProductCategory[]>;
   getAllProductCategories(): Promise<ProductCategory[]>;
 
   // Units of Measure
   getUnitOfMeasure(id: string): Promise<UnitOfMeasure | undefined>;
   createUnitOfMeasure(uom: InsertUnitOfMeasure): Promise<UnitOfMeasure>;
   updateUnitOfMeasure(id: string, uom: Partial<UnitOfMeasure>): Promise<UnitOfMeasure | undefined>;
-  deleteUnitOfMeasure(id: string): Promise<boolean>;
+  deleteUnitOfMeasure(id: string, deletedBy?: number): Promise<boolean>;
+  restoreUnitOfMeasure(id: string): Promise<UnitOfMeasure | undefined>;
+  getDeletedUnitsOfMeasure(): Promise<UnitOfMeasure[]>;
   getAllUnitsOfMeasure(): Promise<UnitOfMeasure[]>;
 
   // Inventory
@@ -55,43 +400,108 @@ export interface IStorage {
   createInventory(inv: InsertInventory): Promise<Inventory>;
   updateInventory(id: number, inv: Partial<Inventory>): Promise<Inventory | undefined>;
   deleteInventory(id: number): Promise<boolean>;
-  getInventoryByProduct(productId: number): Promise<Inventory[]>;
-  getInventoryByWarehouse(warehouseId: string): Promise<Inventory[]>;
-  getAllInventory(): Promise<Inventory[]>;
+  getInventoryByProduct(productId: number, scope?: WarehouseScope): Promise<InventoryWithAvailability[]>;
+  getInventoryByWarehouse(warehouseId: string): Promise<InventoryWithAvailability[]>;
+  getAllInventory(scope?: WarehouseScope): Promise<InventoryWithAvailability[]>;
 
   // Stock Movements
-  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
-  getStockMovementsByProduct(productId: number): Promise<StockMovement[]>;
-  getStockMovementsByWarehouse(warehouseId: string): Promise<StockMovement[]>;
-  getRecentStockMovements(limit?: number): Promise<StockMovement[]>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovementResult>;
+  checkStockAvailability(warehouseId: string, lines: { productId: number; quantity: number }[]): Promise<StockShortfall[]>;
+  getLot(productId: number, lotNumber: string): Promise<Lot | undefined>;
+  getSerialsInStock(productId: number, warehouseId: string): Promise<(SerialNumber & { locationPath: string | null })[]>;
+  lookupSerial(serialNumber: string, scope?: WarehouseScope): Promise<SerialLookup[]>;
+  suggestFefoPicks(productId: number, warehouseId: string, quantity: number): Promise<FefoPick[]>;
+  getNearExpiryStock(withinDays: number, scope?: WarehouseScope): Promise<NearExpiryItem[]>;
+  getValuationReport(asOf: Date, scope?: WarehouseScope): Promise<ValuationReportRow[]>;
+  getStockMovementsByProduct(productId: number, scope?: WarehouseScope): Promise<StockMovementWithLocations[]>;
+  getStockMovementsByWarehouse(warehouseId: string): Promise<StockMovementWithLocations[]>;
+  getRecentStockMovements(limit?: number, scope?: WarehouseScope): Promise<StockMovementWithLocations[]>;
+
+  // Customers
+  getCustomer(id: number): Promise<CustomerWithDetails | undefined>;
+  getAllCustomers(): Promise<Customer[]>;
+  getCustomerByCode(code: string): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<CustomerWithDetails>;
+  updateCustomer(id: number, customer: InsertCustomer): Promise<CustomerWithDetails | undefined>;
+  deleteCustomer(id: number, deletedBy?: number): Promise<boolean>;
+  restoreCustomer(id: number): Promise<Customer | undefined>;
+  getDeletedCustomers(): Promise<Customer[]>;
 
   // Orders
   getOrder(id: number): Promise<Order | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrder(id: number, order: Partial<Order>): Promise<Order | undefined>;
+  createOrder(order: InsertOrder, createdBy: number): Promise<Order>;
+  updateOrder(id: number, changes: UpdateOrder, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined>;
   deleteOrder(id: number): Promise<boolean>;
-  getAllOrders(): Promise<Order[]>;
-  getOrdersByStatus(status: string): Promise<Order[]>;
-  getRecentOrders(limit?: number): Promise<Order[]>;
+  getAllOrders(filters?: OrderFilters): Promise<OrderWithCustomer[]>;
+  getOrdersByStatus(status: OrderStatus, scope?: WarehouseScope): Promise<Order[]>;
+  getRecentOrders(limit?: number, scope?: WarehouseScope): Promise<Order[]>;
+  updateOrderStatus(id: number, status: OrderStatus, updatedBy?: number, note?: string): Promise<OrderStatusResult | undefined>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]>;
+  getOrderReservations(orderId: number): Promise<StockReservation[]>;
 
   // Order Items
   getOrderItems(orderId: number): Promise<OrderItem[]>;
-  createOrderItem(item: InsertOrderItem): Promise<OrderItem>;
-  updateOrderItem(id: number, item: Partial<OrderItem>): Promise<OrderItem | undefined>;
-  deleteOrderItem(id: number): Promise<boolean>;
+  createOrderItem(orderId: number, item: InsertOrderItem, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined>;
+  updateOrderItem(orderId: number, itemId: number, changes: UpdateOrderItem, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined>;
+  deleteOrderItem(orderId: number, itemId: number, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined>;
+
+  // Transfers
+  getTransfer(id: number): Promise<TransferWithLines | undefined>;
+  getTransfers(scope?: WarehouseScope): Promise<Transfer[]>;
+  createTransfer(transfer: InsertTransfer, createdBy?: number): Promise<TransferWithLines>;
+  dispatchTransfer(id: number, dispatchedBy?: number): Promise<TransferWithLines | undefined>;
+  receiveTransfer(id: number, receipt: ReceiveTransfer, receivedBy?: number): Promise<TransferWithLines | undefined>;
+  getInTransitStock(scope?: WarehouseScope): Promise<InTransitStock[]>;
+  getAdjustmentReasons(): Promise<AdjustmentReason[]>;
+  createAdjustmentReason(reason: InsertAdjustmentReason): Promise<AdjustmentReason>;
+  updateAdjustmentReason(id: number, reason: UpdateAdjustmentReason): Promise<AdjustmentReason | undefined>;
+  getAdjustments(scope?: WarehouseScope): Promise<Adjustment[]>;
+  getAdjustment(id: number): Promise<AdjustmentWithLines | undefined>;
+  createAdjustment(adjustment: InsertAdjustment, createdBy?: number): Promise<AdjustmentResult>;
+  approveAdjustment(id: number, approvedBy?: number): Promise<AdjustmentResult | undefined>;
+  rejectAdjustment(id: number, reason: string, rejectedBy?: number): Promise<AdjustmentWithLines | undefined>;
+  addAdjustmentAttachment(
+    id: number,
+    file: { fileName: string; contentType: string; content: Buffer },
+    createdBy?: number
+  ): Promise<AdjustmentAttachmentInfo>;
+  getAdjustmentAttachment(id: number, attachmentId: number): Promise<AdjustmentAttachment | undefined>;
+  getCountSessions(scope?: WarehouseScope): Promise<CountSession[]>;
+  getCountSession(id: number): Promise<CountSessionWithLines | undefined>;
+  createCountSession(session: InsertCountSession, createdBy?: number): Promise<CountSessionWithLines>;
+  recordCountEntries(id: number, counts: CountEntries, countedBy?: number): Promise<CountSessionWithLines | undefined>;
+  submitCountSession(id: number, submittedBy?: number): Promise<CountSessionWithLines | undefined>;
+  approveCountSession(id: number, approvedBy?: number): Promise<CountSessionWithLines | undefined>;
+  cancelCountSession(id: number, cancelledBy?: number): Promise<CountSessionWithLines | undefined>;
 
   // Warehouses
   getWarehouse(id: string): Promise<Warehouse | undefined>;
-  getAllWarehouses(): Promise<Warehouse[]>;
+  getAllWarehouses(scope?: WarehouseScope): Promise<Warehouse[]>;
+  deleteWarehouse(id: string, deletedBy?: number): Promise<boolean>;
+  restoreWarehouse(id: string): Promise<Warehouse | undefined>;
+  getDeletedWarehouses(scope?: WarehouseScope): Promise<Warehouse[]>;
+
+  // Warehouse Locations
+  getWarehouseLocation(id: number): Promise<WarehouseLocation | undefined>;
+  getWarehouseLocations(warehouseId: string): Promise<WarehouseLocationWithStock[]>;
+  createWarehouseLocation(warehouseId: string, location: InsertWarehouseLocation): Promise<WarehouseLocation>;
+  updateWarehouseLocation(id: number, location: UpdateWarehouseLocation): Promise<WarehouseLocation | undefined>;
+  deleteWarehouseLocation(id: number): Promise<boolean>;
+  getLocationDeleteBlockers(id: number): Promise<string[]>;
+
+  // Trash. Deleting any soft-delete entity only stamps deletedAt/deletedBy;
+  // getters skip those rows, getDeleted* lists them and restore* clears the stamp.
+  getDeleteBlockers(entity: SoftDeleteEntity, id: string | number): Promise<string[]>;
+  purgeDeleted(entity: SoftDeleteEntity, deletedBefore: Date): Promise<number>;
 
   // Class Types
   getClassType(id: string): Promise<ClassType | undefined>;
   getAllClassTypes(): Promise<ClassType[]>;
 
   // Dashboard Data
-  getInventoryValue(): Promise<number>;
-  getLowStockItems(): Promise<{product: Product, inventory: Inventory}[]>;
-  getInventoryLevelsByCategory(): Promise<{category: string, value: number}[]>;
+  getInventoryValue(scope?: WarehouseScope): Promise<number>;
+  getLowStockItems(scope?: WarehouseScope): Promise<{product: Product, inventory: Inventory}[]>;
+  getInventoryLevelsByCategory(scope?: WarehouseScope): Promise<{category: string, value: number}[]>;
   getOrderTrends(): Promise<{date: string, incoming: number, outgoing: number}[]>;
 
   // Session store
@@ -104,11 +514,57 @@ export class DatabaseStorage implements IStorage {
   constructor() {
     this.sessionStore = new PostgresSessionStore({
       pool: pool,
-      tableName: 'session',
+      tableName: SESSION_TABLE,
       createTableIfMissing: true,
     });
   }
 
+  // Writes the audit entry in the same transaction as the change it describes
+  private async recordAudit(
+    tx: DbTransaction,
+    entityType: AuditEntityType,
+    action: AuditAction,
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined
+  ): Promise<void> {
+    const entry = buildAuditEntry(entityType, action, before, after);
+    if (entry) {
+      await tx.insert(auditLog).values({ ...entry, warehouseIds: await this.auditWarehouses(tx, entityType, before, after) });
+    }
+  }
+
+  // Warehouses an audited row belongs to, before and after the change. Lines take their
+  // document's warehouses; rows without any (products, customers, users) return null.
+  private async auditWarehouses(
+    tx: DbTransaction,
+    entityType: AuditEntityType,
+    before: Record<string, any> | null | undefined,
+    after: Record<string, any> | null | undefined
+  ): Promise<string[] | null> {
+    const row = (after ?? before)!;
+    if (entityType === "warehouse") return [String(row.id)];
+    const versions: (Record<string, any> | null | undefined)[] =
+      entityType === "order_item" ? await tx.select().from(orders).where(eq(orders.id, row.orderId))
+      : entityType === "transfer_line" ? await tx.select().from(transfers).where(eq(transfers.id, row.transferId))
+      : [before, after];
+
+    const warehouseIds = new Set<string>();
+    for (const version of versions) {
+      for (const field of ["warehouseId", "sourceWarehouseId", "destinationWarehouseId"]) {
+        if (version?.[field]) warehouseIds.add(version[field]);
+      }
+    }
+    return warehouseIds.size > 0 ? Array.from(warehouseIds).sort() : null;
+  }
+  private async countRows(table: PgTable, where: SQL | undefined): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(table)
+      .where(where);
+    return result?.count ?? 0;
+  }
+
+
   // Users
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db
@@ -128,40 +584,395 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), isNull(users.deletedAt)))
+      .limit(1);
+    return user;
+  }
+
   async createUser(user: InsertUser): Promise<User> {
-    const [newUser] = await db
-      .insert(users)
-      .values(user)
-      .returning();
-    return newUser;
+    return db.transaction(async (tx) => {
+      const [newUser] = await tx
+        .insert(users)
+        .values(user)
+        .returning();
+      await this.recordAudit(tx, "user", "CREATE", null, newUser);
+      return newUser;
+    });
   }
 
   async updateUser(id: number, user: Partial<User>): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      const [updatedUser] = await tx
+        .update(users)
+        .set({ ...user, updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+      await this.recordAudit(tx, "user", "UPDATE", before, updatedUser);
+      return updatedUser;
+    });
+  }
+
+  async deleteUser(id: number, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      const [deletedUser] = await tx
+        .update(users)
+        .set({ deletedAt: new Date(), deletedBy: deletedBy ?? null })
+        .where(and(eq(users.id, id), isNull(users.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "user", "DELETE", before, deletedUser);
+      return !!deletedUser;
+    });
+  }
+
+  // Increments the failure counter atomically; reaching maxAttempts locks the account and resets the counter
+  async recordFailedLogin(id: number, maxAttempts: number, lockoutSeconds: number): Promise<User | undefined> {
+    const reachesLimit = sql`${users.failedLoginAttempts} + 1 >= ${maxAttempts}`;
     const [updatedUser] = await db
       .update(users)
-      .set({ ...user, updatedAt: new Date() })
+      .set({
+        failedLoginAttempts: sql`CASE WHEN ${reachesLimit} THEN 0 ELSE ${users.failedLoginAttempts} + 1 END`,
+        lockedUntil: sql`CASE WHEN ${reachesLimit} THEN now() + (${lockoutSeconds} * interval '1 second') ELSE ${users.lockedUntil} END`,
+      })
       .where(eq(users.id, id))
       .returning();
     return updatedUser;
   }
 
-  async deleteUser(id: number): Promise<boolean> {
-    const [deletedUser] = await db
-      .update(users)
-      .set({ deletedAt: new Date() })
-      .where(eq(users.id, id))
-      .returning();
-    return !!deletedUser;
+  async restoreUser(id: number): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      const [restoredUser] = await tx
+        .update(users)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(and(eq(users.id, id), isNotNull(users.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "user", "RESTORE", before, restoredUser);
+      return restoredUser;
+    });
   }
 
-  async getAllUsers(): Promise<User[]> {
+  async getAllUsers(options: { includeDeleted?: boolean } = {}): Promise<User[]> {
     return db
       .select()
       .from(users)
-      .where(isNull(users.deletedAt))
+      .where(options.includeDeleted ? undefined : isNull(users.deletedAt))
       .orderBy(users.username);
   }
 
+  async getUserIncludingDeleted(id: number): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, id))
+      .limit(1);
+    return user;
+  }
+
+  // Soft-deleted users still hold their username and email
+  async findUserByUsernameOrEmail(username: string, email: string, excludeId?: number): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(
+        and(
+          or(eq(users.username, username), eq(users.email, email)),
+          excludeId !== undefined ? ne(users.id, excludeId) : undefined
+        )
+      )
+      .limit(1);
+    return user;
+  }
+
+  async countActiveAdmins(excludeId?: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(users)
+      .where(
+        and(
+          isNull(users.deletedAt),
+          eq(users.isActive, true),
+          or(eq(users.isAdmin, true), eq(users.role, "ADMIN")),
+          excludeId !== undefined ? ne(users.id, excludeId) : undefined
+        )
+      );
+    return result?.count ?? 0;
+  }
+
+  // Passwords
+  async addPasswordHistory(userId: number, passwordHash: string): Promise<void> {
+    await db
+      .insert(passwordHistory)
+      .values({ userId, passwordHash });
+  }
+
+  async getPasswordHistory(userId: number, limit: number): Promise<string[]> {
+    const rows = await db
+      .select({ passwordHash: passwordHistory.passwordHash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+    return rows.map((row) => row.passwordHash);
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await db
+      .insert(passwordResetTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash))
+      .limit(1);
+    return token;
+  }
+
+  // Conditional on usedAt so a token can only be consumed once, even under concurrent requests
+  async markPasswordResetTokenUsed(id: number): Promise<boolean> {
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async invalidatePasswordResetTokens(userId: number): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+
+  // Two-Factor Authentication
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(twoFactorRecoveryCodes)
+        .where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx
+        .insert(twoFactorRecoveryCodes)
+        .values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          eq(twoFactorRecoveryCodes.codeHash, codeHash),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        )
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async deleteRecoveryCodes(userId: number): Promise<void> {
+    await db
+      .delete(twoFactorRecoveryCodes)
+      .where(eq(twoFactorRecoveryCodes.userId, userId));
+  }
+
+  // Stores the accepted TOTP step only if it is newer than the last one, so each code works once
+  async recordTwoFactorCounter(userId: number, counter: number): Promise<boolean> {
+    const result = await db
+      .update(users)
+      .set({ twoFactorLastCounter: counter })
+      .where(
+        and(
+          eq(users.id, userId),
+          sql`(${users.twoFactorLastCounter} IS NULL OR ${users.twoFactorLastCounter} < ${counter})`
+        )
+      )
+      .returning();
+    return result.length > 0;
+  }
+
+  // API Tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await db
+      .insert(apiTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.id, id))
+      .limit(1);
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, tokenHash))
+      .limit(1);
+    return token;
+  }
+
+  // Revoked tokens are kept for reference but not listed
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return await db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+
+  async revokeApiToken(id: number): Promise<boolean> {
+    const result = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, id), isNull(apiTokens.revokedAt)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async recordApiTokenUse(id: number, ip: string | undefined): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date(), lastUsedIp: ip ?? null })
+      .where(eq(apiTokens.id, id));
+  }
+
+  // Audit Log
+  async getAuditLog(filters: AuditLogFilters): Promise<(AuditLogEntry & { actorName: string | null })[]> {
+    const rows = await db
+      .select({ entry: auditLog, actorName: users.username })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.actorId, users.id))
+      .where(
+        and(
+          auditScopeCondition(filters.scope),
+          filters.entityType ? eq(auditLog.entityType, filters.entityType) : undefined,
+          filters.entityId ? eq(auditLog.entityId, filters.entityId) : undefined,
+          filters.actorId ? eq(auditLog.actorId, filters.actorId) : undefined,
+          filters.action ? eq(auditLog.action, filters.action) : undefined,
+          filters.from ? gte(auditLog.occurredAt, filters.from) : undefined,
+          filters.to ? lte(auditLog.occurredAt, filters.to) : undefined
+        )
+      )
+      .orderBy(desc(auditLog.occurredAt), desc(auditLog.id))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    return rows.map((row) => ({ ...row.entry, actorName: row.actorName }));
+  }
+
+  // Sessions are keyed by the user id passport serializes into the session
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await db.execute(sql`
+      SELECT sid, sess, expire
+      FROM ${sql.identifier(SESSION_TABLE)}
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+        AND expire > now()
+      ORDER BY expire DESC
+    `);
+
+    return result.rows.map((row: any) => ({
+      sid: row.sid,
+      sess: row.sess,
+      expire: new Date(row.expire),
+    }));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await db.execute(sql`
+      DELETE FROM ${sql.identifier(SESSION_TABLE)} WHERE sid = ${sid}
+    `);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const result = await db.execute(sql`
+      DELETE FROM ${sql.identifier(SESSION_TABLE)}
+      WHERE sess->'passport'->>'user' = ${String(userId)}
+        ${exceptSid ? sql`AND sid <> ${exceptSid}` : sql``}
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // User Warehouse Access
+  async getUserWarehouseIds(userId: number): Promise<string[]> {
+    const rows = await db
+      .select({ warehouseId: userWarehouses.warehouseId })
+      .from(userWarehouses)
+      .where(eq(userWarehouses.userId, userId));
+    return rows.map((row) => row.warehouseId);
+  }
+
+  async setUserWarehouses(userId: number, warehouseIds: string[], assignedBy?: number): Promise<string[]> {
+    const uniqueIds = Array.from(new Set(warehouseIds));
+    await db.transaction(async (tx) => {
+      const previous = await tx
+        .delete(userWarehouses)
+        .where(eq(userWarehouses.userId, userId))
+        .returning();
+      await this.recordAudit(
+        tx,
+        "user",
+        "UPDATE",
+        { id: userId, warehouseIds: previous.map((row) => row.warehouseId).sort() },
+        { id: userId, warehouseIds: [...uniqueIds].sort() }
+      );
+
+      if (uniqueIds.length > 0) {
+        await tx
+          .insert(userWarehouses)
+          .values(uniqueIds.map((warehouseId) => ({ userId, warehouseId, createdBy: assignedBy })));
+      }
+    });
+    return uniqueIds;
+  }
+
+  // Adds one assignment and leaves the user's other stored assignments as they are
+  async addUserWarehouse(userId: number, warehouseId: string, assignedBy?: number): Promise<string[]> {
+    return db.transaction(async (tx) => {
+      const previous = await tx
+        .select({ warehouseId: userWarehouses.warehouseId })
+        .from(userWarehouses)
+        .where(eq(userWarehouses.userId, userId));
+      const before = previous.map((row) => row.warehouseId).sort();
+      if (before.includes(warehouseId)) return before;
+
+      await tx
+        .insert(userWarehouses)
+        .values({ userId, warehouseId, createdBy: assignedBy })
+        .onConflictDoNothing();
+      const after = [...before, warehouseId].sort();
+      await this.recordAudit(tx, "user", "UPDATE", { id: userId, warehouseIds: before }, { id: userId, warehouseIds: after });
+      return after;
+    });
+  }
+
   // Products
   async getProduct(id: number): Promise<Product | undefined> {
     const [product] = await db
@@ -182,29 +993,61 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db
-      .insert(products)
-      .values(product)
-      .returning();
-    return newProduct;
+    return db.transaction(async (tx) => {
+      const [newProduct] = await tx
+        .insert(products)
+        .values(product)
+        .returning();
+      await this.recordAudit(tx, "product", "CREATE", null, newProduct);
+      return newProduct;
+    });
   }
 
   async updateProduct(id: number, product: Partial<Product>): Promise<Product | undefined> {
-    const [updatedProduct] = await db
-      .update(products)
-      .set({ ...product, updatedAt: new Date() })
-      .where(eq(products.id, id))
-      .returning();
-    return updatedProduct;
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      const [updatedProduct] = await tx
+        .update(products)
+        .set({ ...product, updatedAt: new Date() })
+        .where(eq(products.id, id))
+        .returning();
+      await this.recordAudit(tx, "product", "UPDATE", before, updatedProduct);
+      return updatedProduct;
+    });
   }
 
-  async deleteProduct(id: number): Promise<boolean> {
-    const [deletedProduct] = await db
-      .update(products)
-      .set({ deletedAt: new Date() })
-      .where(eq(products.id, id))
-      .returning();
-    return !!deletedProduct;
+  async deleteProduct(id: number, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      const [deletedProduct] = await tx
+        .update(products)
+        .set({ deletedAt: new Date(), deletedBy: deletedBy ?? null })
+        .where(and(eq(products.id, id), isNull(products.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "product", "DELETE", before, deletedProduct);
+      return !!deletedProduct;
+    });
+  }
+
+  async restoreProduct(id: number): Promise<Product | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      const [restoredProduct] = await tx
+        .update(products)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(and(eq(products.id, id), isNotNull(products.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "product", "RESTORE", before, restoredProduct);
+      return restoredProduct;
+    });
+  }
+
+  async getDeletedProducts(): Promise<Product[]> {
+    return db
+      .select()
+      .from(products)
+      .where(isNotNull(products.deletedAt))
+      .orderBy(desc(products.deletedAt));
   }
 
   async getAllProducts(): Promise<Product[]> {
@@ -239,29 +1082,61 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createProductCategory(category: InsertProductCategory): Promise<ProductCategory> {
-    const [newCategory] = await db
-      .insert(productCategories)
-      .values(category)
-      .returning();
-    return newCategory;
+    return db.transaction(async (tx) => {
+      const [newCategory] = await tx
+        .insert(productCategories)
+        .values(category)
+        .returning();
+      await this.recordAudit(tx, "product_category", "CREATE", null, newCategory);
+      return newCategory;
+    });
   }
 
   async updateProductCategory(id: number, category: Partial<ProductCategory>): Promise<ProductCategory | undefined> {
-    const [updatedCategory] = await db
-      .update(productCategories)
-      .set({ ...category, updatedAt: new Date() })
-      .where(eq(productCategories.id, id))
-      .returning();
-    return updatedCategory;
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(productCategories).where(eq(productCategories.id, id)).for("update");
+      const [updatedCategory] = await tx
+        .update(productCategories)
+        .set({ ...category, updatedAt: new Date() })
+        .where(eq(productCategories.id, id))
+        .returning();
+      await this.recordAudit(tx, "product_category", "UPDATE", before, updatedCategory);
+      return updatedCategory;
+    });
   }
 
-  async deleteProductCategory(id: number): Promise<boolean> {
-    const [deletedCategory] = await db
-      .update(productCategories)
-      .set({ deletedAt: new Date() })
-      .where(eq(productCategories.id, id))
-      .returning();
-    return !!deletedCategory;
+  async deleteProductCategory(id: number, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(productCategories).where(eq(productCategories.id, id)).for("update");
+      const [deletedCategory] = await tx
+        .update(productCategories)
+        .set({ deletedAt: new Date(), deletedBy: deletedBy?.toString() ?? null })
+        .where(and(eq(productCategories.id, id), isNull(productCategories.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "product_category", "DELETE", before, deletedCategory);
+      return !!deletedCategory;
+    });
+  }
+
+  async restoreProductCategory(id: number): Promise<ProductCategory | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(productCategories).where(eq(productCategories.id, id)).for("update");
+      const [restoredCategory] = await tx
+        .update(productCategories)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(and(eq(productCategories.id, id), isNotNull(productCategories.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "product_category", "RESTORE", before, restoredCategory);
+      return restoredCategory;
+    });
+  }
+
+  async getDeletedProductCategories(): Promise<ProductCategory[]> {
+    return db
+      .select()
+      .from(productCategories)
+      .where(isNotNull(productCategories.deletedAt))
+      .orderBy(desc(productCategories.deletedAt));
   }
 
   async getAllProductCategories(): Promise<ProductCategory[]> {
@@ -283,29 +1158,61 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUnitOfMeasure(uom: InsertUnitOfMeasure): Promise<UnitOfMeasure> {
-    const [newUom] = await db
-      .insert(unitsOfMeasure)
-      .values(uom)
-      .returning();
-    return newUom;
+    return db.transaction(async (tx) => {
+      const [newUom] = await tx
+        .insert(unitsOfMeasure)
+        .values(uom)
+        .returning();
+      await this.recordAudit(tx, "unit_of_measure", "CREATE", null, newUom);
+      return newUom;
+    });
   }
 
   async updateUnitOfMeasure(id: string, uom: Partial<UnitOfMeasure>): Promise<UnitOfMeasure | undefined> {
-    const [updatedUom] = await db
-      .update(unitsOfMeasure)
-      .set({ ...uom, updatedAt: new Date() })
-      .where(eq(unitsOfMeasure.id, id))
-      .returning();
-    return updatedUom;
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(unitsOfMeasure).where(eq(unitsOfMeasure.id, id)).for("update");
+      const [updatedUom] = await tx
+        .update(unitsOfMeasure)
+        .set({ ...uom, updatedAt: new Date() })
+        .where(eq(unitsOfMeasure.id, id))
+        .returning();
+      await this.recordAudit(tx, "unit_of_measure", "UPDATE", before, updatedUom);
+      return updatedUom;
+    });
   }
 
-  async deleteUnitOfMeasure(id: string): Promise<boolean> {
-    const [deletedUom] = await db
-      .update(unitsOfMeasure)
-      .set({ deletedAt: new Date() })
-      .where(eq(unitsOfMeasure.id, id))
-      .returning();
-    return !!deletedUom;
+  async deleteUnitOfMeasure(id: string, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(unitsOfMeasure).where(eq(unitsOfMeasure.id, id)).for("update");
+      const [deletedUom] = await tx
+        .update(unitsOfMeasure)
+        .set({ deletedAt: new Date(), deletedBy: deletedBy?.toString() ?? null })
+        .where(and(eq(unitsOfMeasure.id, id), isNull(unitsOfMeasure.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "unit_of_measure", "DELETE", before, deletedUom);
+      return !!deletedUom;
+    });
+  }
+
+  async restoreUnitOfMeasure(id: string): Promise<UnitOfMeasure | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(unitsOfMeasure).where(eq(unitsOfMeasure.id, id)).for("update");
+      const [restoredUom] = await tx
+        .update(unitsOfMeasure)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(and(eq(unitsOfMeasure.id, id), isNotNull(unitsOfMeasure.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "unit_of_measure", "RESTORE", before, restoredUom);
+      return restoredUom;
+    });
+  }
+
+  async getDeletedUnitsOfMeasure(): Promise<UnitOfMeasure[]> {
+    return db
+      .select()
+      .from(unitsOfMeasure)
+      .where(isNotNull(unitsOfMeasure.deletedAt))
+      .orderBy(desc(unitsOfMeasure.deletedAt));
   }
 
   async getAllUnitsOfMeasure(): Promise<UnitOfMeasure[]> {
@@ -327,125 +1234,926 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createInventory(inv: InsertInventory): Promise<Inventory> {
-    const [newInv] = await db
-      .insert(inventory)
-      .values(inv)
-      .returning();
-    return newInv;
+    return db.transaction(async (tx) => {
+      const [newInv] = await tx
+        .insert(inventory)
+        .values(inv)
+        .returning();
+      await this.recordAudit(tx, "inventory", "CREATE", null, newInv);
+      return newInv;
+    });
   }
 
   async updateInventory(id: number, inv: Partial<Inventory>): Promise<Inventory | undefined> {
-    const [updatedInv] = await db
-      .update(inventory)
-      .set({ ...inv, updatedAt: new Date() })
-      .where(eq(inventory.id, id))
-      .returning();
-    return updatedInv;
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(inventory).where(eq(inventory.id, id)).for("update");
+      const [updatedInv] = await tx
+        .update(inventory)
+        .set({ ...inv, updatedAt: new Date() })
+        .where(eq(inventory.id, id))
+        .returning();
+      await this.recordAudit(tx, "inventory", "UPDATE", before, updatedInv);
+      return updatedInv;
+    });
   }
 
   async deleteInventory(id: number): Promise<boolean> {
-    const result = await db
-      .delete(inventory)
-      .where(eq(inventory.id, id))
-      .returning();
-    return result.length > 0;
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(inventory)
+        .where(eq(inventory.id, id))
+        .returning();
+      await this.recordAudit(tx, "inventory", "DELETE", deleted, null);
+      return !!deleted;
+    });
   }
 
-  async getInventoryByProduct(productId: number): Promise<Inventory[]> {
+  async getInventoryByProduct(productId: number, scope?: WarehouseScope): Promise<InventoryWithAvailability[]> {
     return db
-      .select()
+      .select(inventoryWithAvailability)
       .from(inventory)
-      .where(eq(inventory.productId, productId));
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
+      .where(
+        and(
+          eq(inventory.productId, productId),
+          scope ? inArray(inventory.warehouseId, scope) : undefined
+        )
+      );
   }
 
-  async getInventoryByWarehouse(warehouseId: string): Promise<Inventory[]> {
+  async getInventoryByWarehouse(warehouseId: string): Promise<InventoryWithAvailability[]> {
     return db
-      .select()
+      .select(inventoryWithAvailability)
       .from(inventory)
-      .where(eq(inventory.warehouseId, warehouseId));
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
+      .where(eq(inventory.warehouseId, warehouseId))
+      .orderBy(inventory.productId, warehouseLocations.path);
   }
 
-  async getAllInventory(): Promise<Inventory[]> {
+  async getAllInventory(scope?: WarehouseScope): Promise<InventoryWithAvailability[]> {
     return db
-      .select()
-      .from(inventory);
+      .select(inventoryWithAvailability)
+      .from(inventory)
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
+      .where(scope ? inArray(inventory.warehouseId, scope) : undefined);
   }
 
   // Stock Movements
-  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const [newMovement] = await db
+  // Inserts the movement and applies it to the inventory balance in one transaction
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovementResult> {
+    return db.transaction((tx) => this.postStockMovement(tx, movement));
+  }
+
+  // Runs inside the caller's transaction so documents can post several movements atomically.
+  // Only the location on the side the stock moves through is kept: IN books into
+  // toLocationId, OUT takes from fromLocationId and MOVE uses both.
+  private async postStockMovement(tx: DbTransaction, input: StockMovementInput, options: PostingOptions = {}): Promise<StockMovementResult> {
+    const { lotNumber, expiryDate, serialNumbers: serials, ...fields } = input;
+    const lot = await this.resolveLot(tx, fields, lotNumber, expiryDate);
+    const movement = {
+      ...fields,
+      fromLocationId: fields.direction === "IN" ? null : fields.fromLocationId ?? null,
+      toLocationId: fields.direction === "OUT" ? null : fields.toLocationId ?? null,
+      lotId: lot?.id ?? null,
+    };
+    const [newMovement] = await tx
       .insert(stockMovements)
       .values(movement)
+      .onConflictDoNothing({ target: stockMovements.idempotencyKey })
       .returning();
 
-    // Update inventory levels
-    const existingInventory = await this.getInventoryByProductAndWarehouse(
-      movement.productId,
-      movement.warehouseId
+    if (!newMovement) {
+      // Only a repeated idempotency key can make the insert a no-op
+      const [original] = await tx
+        .select()
+        .from(stockMovements)
+        .where(eq(stockMovements.idempotencyKey, movement.idempotencyKey!));
+      const isSameMovement =
+        original.productId === movement.productId &&
+        original.warehouseId === movement.warehouseId &&
+        original.direction === movement.direction &&
+        original.fromLocationId === movement.fromLocationId &&
+        original.toLocationId === movement.toLocationId &&
+        original.lotId === movement.lotId &&
+        Number(original.quantity) === Number(movement.quantity) &&
+        original.createdBy === (movement.createdBy ?? null);
+      return { movement: original, status: isSameMovement ? "replayed" : "conflict", shortfalls: [] };
+    }
+
+    if (serials?.length) {
+      await this.moveSerials(tx, newMovement, serials);
+    } else if (newMovement.direction !== "IN" && await this.isSerialized(tx, newMovement.productId)) {
+      // Documents post without naming units, so the oldest units where the stock is taken from go
+      await this.moveSerials(tx, newMovement, await this.pickSerials(tx, newMovement));
+    }
+    const { productId, warehouseId, direction } = movement;
+    const quantity = Number(movement.quantity);
+    const stock = await this.lockWarehouseStock(tx, productId, warehouseId);
+
+    if (direction === "IN") {
+      const target = await this.lockInventory(tx, productId, warehouseId, movement.toLocationId, movement.lotId);
+      await this.adjustInventory(tx, target, { quantity });
+      const costed = await this.costMovement(tx, newMovement);
+      await this.recordAudit(tx, "stock_movement", "CREATE", null, costed);
+      return { movement: costed, status: "created", shortfalls: [] };
+    }
+
+    const source = await this.lockInventory(tx, productId, warehouseId, movement.fromLocationId, movement.lotId);
+    const shortfall = options.ignoreShortfall ? null : await this.findShortfall(
+      tx,
+      productId,
+      warehouseId,
+      await this.availableForMovement(tx, direction, source, stock, lot),
+      quantity
     );
+    if (shortfall?.policy === "BLOCK") {
+      throw new InsufficientStockError([shortfall]);
+    }
 
-    if (existingInventory) {
-      const quantityChange = movement.direction === 'IN' 
-        ? Number(movement.quantity) 
-        : -Number(movement.quantity);
+    await this.adjustInventory(tx, source, { quantity: -quantity });
+    if (direction === "MOVE") {
+      const target = await this.lockInventory(tx, productId, warehouseId, movement.toLocationId, movement.lotId);
+      await this.adjustInventory(tx, target, { quantity });
+    }
+    const costed = await this.costMovement(tx, newMovement);
+    await this.recordAudit(tx, "stock_movement", "CREATE", null, costed);
+    return { movement: costed, status: "created", shortfalls: shortfall ? [shortfall] : [] };
+  }
 
-      await this.updateInventory(existingInventory.id, {
-        quantity: Number(existingInventory.quantity) + quantityChange
-      });
-    } else if (movement.direction === 'IN') {
-      // Create new inventory record if it doesn't exist and it's an incoming movement
-      await this.createInventory({
+  // Records what a movement is worth under the product's valuation method. An IN opens a
+  // cost layer at its own cost (the product cost when none is given, and always for standard
+  // costing); an OUT is charged for the layers it consumes. A move stays in the warehouse and
+  // keeps its layers. Called after lockWarehouseStock, which serializes the product's layers.
+  private async costMovement(tx: DbTransaction, movement: StockMovement): Promise<StockMovement> {
+    if (movement.direction === "MOVE") return movement;
+
+    const [product] = await tx
+      .select({ cost: products.cost, valuationMethod: products.valuationMethod })
+      .from(products)
+      .where(eq(products.id, movement.productId));
+    const method = effectiveValuationMethod({ valuationMethod: product?.valuationMethod ?? null });
+    const productCost = Number(product?.cost ?? 0);
+    const quantity = Number(movement.quantity);
+
+    let totalCost: number;
+    if (movement.direction === "IN") {
+      const unitCost = method === "STANDARD" || movement.unitCost === null ? productCost : Number(movement.unitCost);
+      await tx.insert(costLayers).values({
         productId: movement.productId,
         warehouseId: movement.warehouseId,
+        movementId: movement.id,
         quantity: movement.quantity,
-        reservedQuantity: '0'
+        remainingQuantity: movement.quantity,
+        unitCost: unitCost.toFixed(4),
       });
+      if (method === "MOVING_AVERAGE") {
+        await this.averageCostLayers(tx, movement.productId, movement.warehouseId);
+      }
+      totalCost = unitCost * quantity;
+    } else {
+      totalCost = await this.consumeCostLayers(tx, movement.productId, movement.warehouseId, quantity, productCost);
     }
 
-    return newMovement;
+    const [costed] = await tx
+      .update(stockMovements)
+      .set({ unitCost: (totalCost / quantity).toFixed(4), totalCost: totalCost.toFixed(2) })
+      .where(eq(stockMovements.id, movement.id))
+      .returning();
+    return costed;
   }
 
-  private async getInventoryByProductAndWarehouse(
-    productId: number, 
-    warehouseId: string
-  ): Promise<Inventory | undefined> {
-    const [inv] = await db
+  // Takes the quantity from the open layers, oldest first, and returns its cost. Stock
+  // beyond the layers (overdrawn, or on hand from before costing) goes at the latest layer's
+  // cost, or the product cost when there is none.
+  private async consumeCostLayers(
+    tx: DbTransaction,
+    productId: number,
+    warehouseId: string,
+    quantity: number,
+    fallbackCost: number
+  ): Promise<number> {
+    const layers = await tx
+      .select()
+      .from(costLayers)
+      .where(
+        and(
+          eq(costLayers.productId, productId),
+          eq(costLayers.warehouseId, warehouseId),
+          sql`${costLayers.remainingQuantity} > 0`
+        )
+      )
+      .orderBy(costLayers.id)
+      .for("update");
+
+    let remaining = quantity;
+    let totalCost = 0;
+    for (const layer of layers) {
+      if (remaining <= 0) break;
+      const taken = Math.min(remaining, Number(layer.remainingQuantity));
+      await tx
+        .update(costLayers)
+        .set({ remainingQuantity: sql`${costLayers.remainingQuantity} - ${taken}` })
+        .where(eq(costLayers.id, layer.id));
+      totalCost += taken * Number(layer.unitCost);
+      remaining = Math.round((remaining - taken) * 100) / 100;
+    }
+    if (remaining > 0) {
+      totalCost += remaining * (layers.length > 0 ? Number(layers[layers.length - 1].unitCost) : fallbackCost);
+    }
+    return totalCost;
+  }
+
+  // Moving average: every open layer of the product in the warehouse takes the weighted average cost
+  private async averageCostLayers(tx: DbTransaction, productId: number, warehouseId: string): Promise<void> {
+    const open = and(
+      eq(costLayers.productId, productId),
+      eq(costLayers.warehouseId, warehouseId),
+      sql`${costLayers.remainingQuantity} > 0`
+    );
+    const [totals] = await tx
+      .select({
+        quantity: sql<string>`coalesce(sum(${costLayers.remainingQuantity}), 0)`,
+        value: sql<string>`coalesce(sum(${costLayers.remainingQuantity} * ${costLayers.unitCost}), 0)`,
+      })
+      .from(costLayers)
+      .where(open);
+    if (Number(totals.quantity) <= 0) return;
+
+    await tx
+      .update(costLayers)
+      .set({ unitCost: (Number(totals.value) / Number(totals.quantity)).toFixed(4) })
+      .where(open);
+  }
+
+  // What an OUT or MOVE may take from the source row. A move stays in the warehouse,
+  // so only the row's own stock limits it. An OUT of unassigned stock without a lot
+  // draws on the warehouse as a whole; any other OUT is also held back by order
+  // reservations across the warehouse, except when it writes off quarantined or expired stock.
+  private async availableForMovement(
+    tx: DbTransaction,
+    direction: string,
+    source: Inventory,
+    stock: WarehouseStock,
+    lot: Lot | null
+  ): Promise<number> {
+    const inSource = Number(source.quantity);
+    if (direction === "MOVE") return inSource;
+    if (source.locationId === null && source.lotId === null) return stock.available;
+    if (lot && isExpired(lot)) return inSource;
+
+    if (source.locationId !== null) {
+      const [location] = await tx
+        .select({ locationType: warehouseLocations.locationType })
+        .from(warehouseLocations)
+        .where(eq(warehouseLocations.id, source.locationId));
+      if (location?.locationType === "QUARANTINE") return inSource;
+    }
+    return Math.min(inSource, stock.available);
+  }
+
+  // Books the units a movement carries: an IN creates its serials or brings shipped
+  // ones back, an OUT or MOVE takes serials that are in stock where the movement
+  // takes from. Each serial is linked to the movement for its history.
+  private async moveSerials(tx: DbTransaction, movement: StockMovement, serials: string[]): Promise<void> {
+    if (serials.length !== Number(movement.quantity)) {
+      throw new SerialError("COUNT_MISMATCH", `${serials.length} serial numbers given for a quantity of ${Number(movement.quantity)}`);
+    }
+
+    const existing = await tx
       .select()
+      .from(serialNumbers)
+      .where(and(eq(serialNumbers.productId, movement.productId), inArray(serialNumbers.serialNumber, serials)))
+      .orderBy(serialNumbers.id)
+      .for("update");
+
+    let moved: SerialNumber[];
+    if (movement.direction === "IN") {
+      const inStock = existing.find((unit) => unit.status === "IN_STOCK");
+      if (inStock) {
+        throw new SerialError("ALREADY_IN_STOCK", `Serial ${inStock.serialNumber} is already in stock`);
+      }
+      moved = await tx
+        .insert(serialNumbers)
+        .values(serials.map((serialNumber) => ({
+          productId: movement.productId,
+          serialNumber,
+          status: "IN_STOCK",
+          warehouseId: movement.warehouseId,
+          locationId: movement.toLocationId,
+          lotId: movement.lotId,
+        })))
+        .onConflictDoUpdate({
+          target: [serialNumbers.productId, serialNumbers.serialNumber],
+          set: {
+            status: "IN_STOCK",
+            warehouseId: movement.warehouseId,
+            locationId: movement.toLocationId,
+            lotId: movement.lotId,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+    } else {
+      const unavailable = serials.find((serialNumber) => {
+        const unit = existing.find((candidate) => candidate.serialNumber === serialNumber);
+        return !unit ||
+          unit.status !== "IN_STOCK" ||
+          unit.warehouseId !== movement.warehouseId ||
+          unit.locationId !== movement.fromLocationId ||
+          unit.lotId !== movement.lotId;
+      });
+      if (unavailable) {
+        throw new SerialError("NOT_AVAILABLE", `Serial ${unavailable} is not in stock where this movement takes from`);
+      }
+      moved = await tx
+        .update(serialNumbers)
+        .set(movement.direction === "OUT"
+          ? { status: "SHIPPED", locationId: null, updatedAt: new Date() }
+          : { locationId: movement.toLocationId, updatedAt: new Date() })
+        .where(inArray(serialNumbers.id, existing.map((unit) => unit.id)))
+        .returning();
+    }
+
+    await tx
+      .insert(stockMovementSerials)
+      .values(moved.map((unit) => ({ movementId: movement.id, serialId: unit.id })));
+  }
+
+  private async isSerialized(tx: DbTransaction, productId: number): Promise<boolean> {
+    const [product] = await tx
+      .select({ isSerialized: products.isSerialized })
+      .from(products)
+      .where(eq(products.id, productId));
+    return !!product?.isSerialized;
+  }
+
+  // The units an OUT or MOVE without serial numbers takes: those in stock at its source
+  // location and lot, oldest first. Fails when there are not enough of them.
+  private async pickSerials(tx: DbTransaction, movement: StockMovement): Promise<string[]> {
+    const quantity = Number(movement.quantity);
+    if (!Number.isInteger(quantity)) {
+      throw new SerialError("COUNT_MISMATCH", `A serialized product moves in whole units, not ${quantity}`);
+    }
+    const units = await tx
+      .select({ serialNumber: serialNumbers.serialNumber })
+      .from(serialNumbers)
+      .where(
+        and(
+          eq(serialNumbers.productId, movement.productId),
+          eq(serialNumbers.warehouseId, movement.warehouseId),
+          eq(serialNumbers.status, "IN_STOCK"),
+          movement.fromLocationId === null ? isNull(serialNumbers.locationId) : eq(serialNumbers.locationId, movement.fromLocationId),
+          movement.lotId === null ? isNull(serialNumbers.lotId) : eq(serialNumbers.lotId, movement.lotId)
+        )
+      )
+      .orderBy(serialNumbers.id)
+      .limit(quantity)
+      .for("update");
+    if (units.length < quantity) {
+      throw new SerialError(
+        "NOT_AVAILABLE",
+        `Only ${units.length} serialized units are in stock where this movement takes ${quantity} from`
+      );
+    }
+    return units.map((unit) => unit.serialNumber);
+  }
+
+  // Units shipped by the OUT movements of a document that have not been booked back into
+  // stock yet, e.g. those still in transit on a transfer. Narrowed to one movement or lot when given.
+  private async shippedSerials(
+    tx: DbTransaction,
+    shipped: { referenceType: string; referenceId: string; productId: number; movementId?: number; lotId?: number | null },
+    quantity: number
+  ): Promise<string[]> {
+    const units = await tx
+      .select({ serialNumber: serialNumbers.serialNumber })
+      .from(stockMovementSerials)
+      .innerJoin(stockMovements, eq(stockMovementSerials.movementId, stockMovements.id))
+      .innerJoin(serialNumbers, eq(stockMovementSerials.serialId, serialNumbers.id))
+      .where(
+        and(
+          eq(stockMovements.referenceType, shipped.referenceType),
+          eq(stockMovements.referenceId, shipped.referenceId),
+          eq(stockMovements.direction, "OUT"),
+          eq(stockMovements.productId, shipped.productId),
+          shipped.movementId !== undefined ? eq(stockMovements.id, shipped.movementId) : undefined,
+          shipped.lotId === undefined
+            ? undefined
+            : shipped.lotId === null ? isNull(stockMovements.lotId) : eq(stockMovements.lotId, shipped.lotId),
+          eq(serialNumbers.status, "SHIPPED")
+        )
+      )
+      .orderBy(serialNumbers.id)
+      .limit(quantity);
+    return units.map((unit) => unit.serialNumber);
+  }
+
+  async getSerialsInStock(productId: number, warehouseId: string): Promise<(SerialNumber & { locationPath: string | null })[]> {
+    return db
+      .select({ ...getTableColumns(serialNumbers), locationPath: warehouseLocations.path })
+      .from(serialNumbers)
+      .leftJoin(warehouseLocations, eq(serialNumbers.locationId, warehouseLocations.id))
+      .where(
+        and(
+          eq(serialNumbers.productId, productId),
+          eq(serialNumbers.warehouseId, warehouseId),
+          eq(serialNumbers.status, "IN_STOCK")
+        )
+      )
+      .orderBy(serialNumbers.serialNumber);
+  }
+
+  async lookupSerial(serialNumber: string, scope?: WarehouseScope): Promise<SerialLookup[]> {
+    const units = await db
+      .select({
+        ...getTableColumns(serialNumbers),
+        productName: products.name,
+        sku: products.sku,
+        locationPath: warehouseLocations.path,
+        lotNumber: lots.lotNumber,
+      })
+      .from(serialNumbers)
+      .innerJoin(products, eq(serialNumbers.productId, products.id))
+      .leftJoin(warehouseLocations, eq(serialNumbers.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(serialNumbers.lotId, lots.id))
+      .where(
+        and(
+          eq(serialNumbers.serialNumber, serialNumber),
+          scope ? inArray(serialNumbers.warehouseId, scope) : undefined
+        )
+      );
+
+    return Promise.all(units.map(async (unit) => ({
+      ...unit,
+      history: await db
+        .select(stockMovementWithLocations)
+        .from(stockMovementSerials)
+        .innerJoin(stockMovements, eq(stockMovementSerials.movementId, stockMovements.id))
+        .leftJoin(fromLocations, eq(stockMovements.fromLocationId, fromLocations.id))
+        .leftJoin(toLocations, eq(stockMovements.toLocationId, toLocations.id))
+        .leftJoin(lots, eq(stockMovements.lotId, lots.id))
+        .where(eq(stockMovementSerials.serialId, unit.id))
+        .orderBy(stockMovements.createdAt, stockMovements.id),
+    })));
+  }
+
+  // Finds the lot a movement names, creating it on an IN. Expired lots cannot be shipped.
+  private async resolveLot(
+    tx: DbTransaction,
+    movement: StockMovementInput,
+    lotNumber: string | null | undefined,
+    expiryDate: string | null | undefined
+  ): Promise<Lot | null> {
+    let lot: Lot | undefined;
+    if (movement.lotId) {
+      [lot] = await tx.select().from(lots).where(eq(lots.id, movement.lotId));
+    } else if (lotNumber) {
+      if (movement.direction === "IN") {
+        await tx
+          .insert(lots)
+          .values({ productId: movement.productId, lotNumber, expiryDate })
+          .onConflictDoNothing({ target: [lots.productId, lots.lotNumber] });
+      }
+      [lot] = await tx
+        .select()
+        .from(lots)
+        .where(and(eq(lots.productId, movement.productId), eq(lots.lotNumber, lotNumber)));
+    }
+
+    if (!lot) {
+      if (movement.lotId || lotNumber) {
+        throw new LotError("UNKNOWN_LOT", `Lot ${lotNumber ?? movement.lotId} does not exist for this product`);
+      }
+      return null;
+    }
+    if (expiryDate && lot.expiryDate !== expiryDate) {
+      throw new LotError("EXPIRY_MISMATCH", `Lot ${lot.lotNumber} expires on ${lot.expiryDate ?? "no date"}, not ${expiryDate}`);
+    }
+    if (
+      movement.direction === "OUT" &&
+      SHIPPING_REFERENCE_TYPES.includes(movement.referenceType ?? "") &&
+      isExpired(lot)
+    ) {
+      throw new LotError("EXPIRED", `Lot ${lot.lotNumber} expired on ${lot.expiryDate} and cannot be shipped`);
+    }
+    return lot;
+  }
+
+  // Splits an outbound quantity over the rows to pick from: soonest expiry first,
+  // then pick locations before other types. Quarantined and expired stock is skipped.
+  // Whatever the rows do not cover is left for the caller.
+  private async allocateFefo(
+    executor: DbExecutor,
+    productId: number,
+    warehouseId: string,
+    quantity: number
+  ): Promise<FefoPick[]> {
+    const rows = await executor
+      .select({
+        locationId: inventory.locationId,
+        locationPath: warehouseLocations.path,
+        lotId: inventory.lotId,
+        lotNumber: lots.lotNumber,
+        expiryDate: lots.expiryDate,
+        quantity: inventory.quantity,
+      })
       .from(inventory)
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
       .where(
         and(
           eq(inventory.productId, productId),
-          eq(inventory.warehouseId, warehouseId)
+          eq(inventory.warehouseId, warehouseId),
+          sql`${inventory.quantity} > 0`,
+          not(sql`coalesce(${isUnavailableStock}, false)`)
         )
       )
-      .limit(1);
-    return inv;
+      .orderBy(
+        sql`${lots.expiryDate} ASC NULLS LAST`,
+        sql`CASE WHEN ${warehouseLocations.locationType} = 'PICK' THEN 0 ELSE 1 END`,
+        inventory.id
+      );
+
+    const picks: FefoPick[] = [];
+    let remaining = quantity;
+    for (const row of rows) {
+      if (remaining <= 0) break;
+      const take = Math.min(Number(row.quantity), remaining);
+      picks.push({ ...row, quantity: take });
+      remaining -= take;
+    }
+    return picks;
+  }
+
+  async getLot(productId: number, lotNumber: string): Promise<Lot | undefined> {
+    const [lot] = await db
+      .select()
+      .from(lots)
+      .where(and(eq(lots.productId, productId), eq(lots.lotNumber, lotNumber)));
+    return lot;
+  }
+
+  async suggestFefoPicks(productId: number, warehouseId: string, quantity: number): Promise<FefoPick[]> {
+    return this.allocateFefo(db, productId, warehouseId, quantity);
+  }
+
+  async getNearExpiryStock(withinDays: number, scope?: WarehouseScope): Promise<NearExpiryItem[]> {
+    const rows = await db
+      .select({
+        productId: inventory.productId,
+        productName: products.name,
+        sku: products.sku,
+        warehouseId: inventory.warehouseId,
+        locationPath: warehouseLocations.path,
+        lotNumber: lots.lotNumber,
+        expiryDate: sql<string>`${lots.expiryDate}`,
+        quantity: inventory.quantity,
+        daysToExpiry: sql<number>`(${lots.expiryDate} - current_date)::int`,
+      })
+      .from(inventory)
+      .innerJoin(lots, eq(inventory.lotId, lots.id))
+      .innerJoin(products, eq(inventory.productId, products.id))
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .where(
+        and(
+          sql`${inventory.quantity} > 0`,
+          sql`${lots.expiryDate} <= current_date + ${withinDays}::int`,
+          scope ? inArray(inventory.warehouseId, scope) : undefined
+        )
+      )
+      .orderBy(lots.expiryDate, products.name);
+    return rows;
   }
 
-  async getStockMovementsByProduct(productId: number): Promise<StockMovement[]> {
+  // Stock and value per warehouse and category as of the given moment, rebuilt from the
+  // movements so later cost changes do not rewrite it. Movements from before costing was
+  // recorded are valued at the current product cost.
+  async getValuationReport(asOf: Date, scope?: WarehouseScope): Promise<ValuationReportRow[]> {
+    const signed = (amount: SQL) =>
+      sql`CASE ${stockMovements.direction} WHEN 'IN' THEN ${amount} WHEN 'OUT' THEN -(${amount}) ELSE 0 END`;
+    const quantity = sql<string>`coalesce(sum(${signed(sql`${stockMovements.quantity}`)}), 0)`;
+    const value = sql<string>`round(coalesce(sum(${signed(
+      sql`coalesce(${stockMovements.totalCost}, ${stockMovements.quantity} * coalesce(${products.cost}, 0))`
+    )}), 0), 2)`;
+
     return db
+      .select({
+        warehouseId: stockMovements.warehouseId,
+        warehouseName: warehouses.name,
+        categoryId: products.categoryId,
+        categoryName: productCategories.name,
+        quantity,
+        value,
+      })
+      .from(stockMovements)
+      .innerJoin(products, eq(stockMovements.productId, products.id))
+      .innerJoin(warehouses, eq(stockMovements.warehouseId, warehouses.id))
+      .leftJoin(productCategories, eq(products.categoryId, productCategories.id))
+      .where(
+        and(
+          lte(stockMovements.createdAt, asOf),
+          scope ? inArray(stockMovements.warehouseId, scope) : undefined
+        )
+      )
+      .groupBy(stockMovements.warehouseId, warehouses.name, products.categoryId, productCategories.name)
+      .having(sql`${quantity} <> 0 OR ${value} <> 0`)
+      .orderBy(warehouses.name, productCategories.name);
+  }
+
+  // Locks every balance row of the product in the warehouse, in id order so concurrent
+  // postings cannot deadlock, and totals them. Must run before lockInventory.
+  private async lockWarehouseStock(tx: DbTransaction, productId: number, warehouseId: string): Promise<WarehouseStock> {
+    const rows = await tx
+      .select({ balance: inventory, isUnavailable: sql<boolean>`coalesce(${isUnavailableStock}, false)` })
+      .from(inventory)
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
+      .where(and(eq(inventory.productId, productId), eq(inventory.warehouseId, warehouseId)))
+      .orderBy(inventory.id)
+      .for("update", { of: inventory });
+
+    return rows.reduce(
+      (totals, { balance, isUnavailable }) => ({
+        onHand: totals.onHand + Number(balance.quantity),
+        available: totals.available + (isUnavailable ? 0 : availableQuantity(balance)),
+      }),
+      { onHand: 0, available: 0 }
+    );
+  }
+
+  // Locks the balance row, creating it on first use. It stays locked until the
+  // transaction ends, so concurrent postings queue up instead of losing updates.
+  private async lockInventory(
+    tx: DbTransaction,
+    productId: number,
+    warehouseId: string,
+    locationId: number | null = null,
+    lotId: number | null = null
+  ): Promise<Inventory> {
+    const [created] = await tx
+      .insert(inventory)
+      .values({ productId, warehouseId, locationId, lotId, quantity: "0", reservedQuantity: "0" })
+      .onConflictDoNothing({ target: [inventory.productId, inventory.warehouseId, inventory.locationId, inventory.lotId] })
+      .returning();
+    if (created) {
+      await this.recordAudit(tx, "inventory", "CREATE", null, created);
+    }
+
+    const [locked] = await tx
       .select()
+      .from(inventory)
+      .where(
+        and(
+          eq(inventory.productId, productId),
+          eq(inventory.warehouseId, warehouseId),
+          locationId === null ? isNull(inventory.locationId) : eq(inventory.locationId, locationId),
+          lotId === null ? isNull(inventory.lotId) : eq(inventory.lotId, lotId)
+        )
+      )
+      .for("update");
+    return locked;
+  }
+
+  // Applies deltas to a balance row locked by lockInventory
+  private async adjustInventory(
+    tx: DbTransaction,
+    before: Inventory,
+    delta: { quantity?: number; reservedQuantity?: number }
+  ): Promise<Inventory> {
+    const [updated] = await tx
+      .update(inventory)
+      .set({
+        ...(delta.quantity !== undefined && { quantity: sql`${inventory.quantity} + ${delta.quantity}` }),
+        ...(delta.reservedQuantity !== undefined && {
+          reservedQuantity: sql`coalesce(${inventory.reservedQuantity}, 0) + ${delta.reservedQuantity}`,
+        }),
+        updatedAt: new Date(),
+      })
+      .where(eq(inventory.id, before.id))
+      .returning();
+    await this.recordAudit(tx, "inventory", "UPDATE", before, updated);
+    return updated;
+  }
+
+  // The category's policy wins over the warehouse's; BLOCK when neither is known
+  private async getNegativeStockPolicy(
+    executor: DbExecutor,
+    productId: number,
+    warehouseId: string
+  ): Promise<NegativeStockPolicy> {
+    const [row] = await executor
+      .select({
+        categoryPolicy: productCategories.negativeStockPolicy,
+        warehousePolicy: warehouses.negativeStockPolicy,
+      })
+      .from(products)
+      .leftJoin(productCategories, eq(products.categoryId, productCategories.id))
+      .leftJoin(warehouses, eq(warehouses.id, warehouseId))
+      .where(eq(products.id, productId));
+    return row?.categoryPolicy ?? row?.warehousePolicy ?? "BLOCK";
+  }
+
+  // Null when the quantity is covered or the policy allows going negative
+  private async findShortfall(
+    executor: DbExecutor,
+    productId: number,
+    warehouseId: string,
+    available: number,
+    requested: number
+  ): Promise<StockShortfall | null> {
+    if (available >= requested) return null;
+
+    const policy = await this.getNegativeStockPolicy(executor, productId, warehouseId);
+    if (policy === "ALLOW") return null;
+    return { productId, warehouseId, requested, available, shortfall: requested - available, policy };
+  }
+
+  // Dry run of OUT lines against current balances, for warning users before they post
+  async checkStockAvailability(
+    warehouseId: string,
+    lines: { productId: number; quantity: number }[]
+  ): Promise<StockShortfall[]> {
+    const requested = new Map<number, number>();
+    lines.forEach((line) => {
+      requested.set(line.productId, (requested.get(line.productId) ?? 0) + line.quantity);
+    });
+    if (requested.size === 0) return [];
+
+    const balances = await db
+      .select({
+        productId: inventory.productId,
+        available: sql<string>`sum(${inventoryWithAvailability.availableQuantity})`,
+      })
+      .from(inventory)
+      .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(inventory.lotId, lots.id))
+      .where(and(eq(inventory.warehouseId, warehouseId), inArray(inventory.productId, Array.from(requested.keys()))))
+      .groupBy(inventory.productId);
+
+    const shortfalls: StockShortfall[] = [];
+    for (const [productId, quantity] of Array.from(requested)) {
+      const balance = balances.find((row) => row.productId === productId);
+      const shortfall = await this.findShortfall(db, productId, warehouseId, Number(balance?.available ?? 0), quantity);
+      if (shortfall) shortfalls.push(shortfall);
+    }
+    return shortfalls;
+  }
+
+  async getStockMovementsByProduct(productId: number, scope?: WarehouseScope): Promise<StockMovementWithLocations[]> {
+    return db
+      .select(stockMovementWithLocations)
       .from(stockMovements)
-      .where(eq(stockMovements.productId, productId))
+      .leftJoin(fromLocations, eq(stockMovements.fromLocationId, fromLocations.id))
+      .leftJoin(toLocations, eq(stockMovements.toLocationId, toLocations.id))
+      .leftJoin(lots, eq(stockMovements.lotId, lots.id))
+      .where(
+        and(
+          eq(stockMovements.productId, productId),
+          scope ? inArray(stockMovements.warehouseId, scope) : undefined
+        )
+      )
       .orderBy(desc(stockMovements.createdAt));
   }
 
-  async getStockMovementsByWarehouse(warehouseId: string): Promise<StockMovement[]> {
+  async getStockMovementsByWarehouse(warehouseId: string): Promise<StockMovementWithLocations[]> {
     return db
-      .select()
+      .select(stockMovementWithLocations)
       .from(stockMovements)
+      .leftJoin(fromLocations, eq(stockMovements.fromLocationId, fromLocations.id))
+      .leftJoin(toLocations, eq(stockMovements.toLocationId, toLocations.id))
+      .leftJoin(lots, eq(stockMovements.lotId, lots.id))
       .where(eq(stockMovements.warehouseId, warehouseId))
       .orderBy(desc(stockMovements.createdAt));
   }
 
-  async getRecentStockMovements(limit: number = 10): Promise<StockMovement[]> {
+  async getRecentStockMovements(limit: number = 10, scope?: WarehouseScope): Promise<StockMovementWithLocations[]> {
     return db
-      .select()
+      .select(stockMovementWithLocations)
       .from(stockMovements)
+      .leftJoin(fromLocations, eq(stockMovements.fromLocationId, fromLocations.id))
+      .leftJoin(toLocations, eq(stockMovements.toLocationId, toLocations.id))
+      .leftJoin(lots, eq(stockMovements.lotId, lots.id))
+      .where(scope ? inArray(stockMovements.warehouseId, scope) : undefined)
       .orderBy(desc(stockMovements.createdAt))
       .limit(limit);
   }
 
+  // Customers
+  async getCustomer(id: number): Promise<CustomerWithDetails | undefined> {
+    return this.getCustomerWithDetails(db, id);
+  }
+
+  private async getCustomerWithDetails(executor: DbExecutor, id: number): Promise<CustomerWithDetails | undefined> {
+    const [customer] = await executor
+      .select()
+      .from(customers)
+      .where(and(eq(customers.id, id), isNull(customers.deletedAt)));
+    if (!customer) return undefined;
+    const contacts = await executor
+      .select()
+      .from(customerContacts)
+      .where(eq(customerContacts.customerId, id))
+      .orderBy(desc(customerContacts.isPrimary), customerContacts.id);
+    const addresses = await executor
+      .select()
+      .from(customerAddresses)
+      .where(eq(customerAddresses.customerId, id))
+      .orderBy(customerAddresses.addressType, desc(customerAddresses.isDefault), customerAddresses.id);
+    return { ...customer, contacts, addresses };
+  }
+
+  async getAllCustomers(): Promise<Customer[]> {
+    return db
+      .select()
+      .from(customers)
+      .where(isNull(customers.deletedAt))
+      .orderBy(customers.name);
+  }
+
+  // Includes deleted customers, which keep their code until purged
+  async getCustomerByCode(code: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.code, code));
+    return customer;
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<CustomerWithDetails> {
+    const { contacts, addresses, ...fields } = customer;
+    return db.transaction(async (tx) => {
+      const [newCustomer] = await tx.insert(customers).values(fields).returning();
+      await this.replaceCustomerDetails(tx, newCustomer.id, customer);
+      const created = (await this.getCustomerWithDetails(tx, newCustomer.id))!;
+      await this.recordAudit(tx, "customer", "CREATE", null, created);
+      return created;
+    });
+  }
+
+  // Contacts and addresses are replaced as a whole; the audit entry shows them before and after
+  async updateCustomer(id: number, customer: InsertCustomer): Promise<CustomerWithDetails | undefined> {
+    const { contacts, addresses, ...fields } = customer;
+    return db.transaction(async (tx) => {
+      await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      const before = await this.getCustomerWithDetails(tx, id);
+      if (!before) return undefined;
+
+      await tx
+        .update(customers)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(customers.id, id));
+      await this.replaceCustomerDetails(tx, id, customer);
+      const updated = (await this.getCustomerWithDetails(tx, id))!;
+      await this.recordAudit(tx, "customer", "UPDATE", before, updated);
+      return updated;
+    });
+  }
+
+  private async replaceCustomerDetails(tx: DbTransaction, customerId: number, customer: InsertCustomer) {
+    await tx.delete(customerContacts).where(eq(customerContacts.customerId, customerId));
+    await tx.delete(customerAddresses).where(eq(customerAddresses.customerId, customerId));
+    if (customer.contacts.length > 0) {
+      await tx.insert(customerContacts).values(customer.contacts.map((contact) => ({ ...contact, customerId })));
+    }
+    if (customer.addresses.length > 0) {
+      await tx.insert(customerAddresses).values(customer.addresses.map((address) => ({ ...address, customerId })));
+    }
+  }
+
+  async deleteCustomer(id: number, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      const [deleted] = await tx
+        .update(customers)
+        .set({ deletedAt: new Date(), deletedBy: deletedBy ?? null })
+        .where(and(eq(customers.id, id), isNull(customers.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "customer", "DELETE", before, deleted);
+      return !!deleted;
+    });
+  }
+
+  async restoreCustomer(id: number): Promise<Customer | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(customers).where(eq(customers.id, id)).for("update");
+      const [restored] = await tx
+        .update(customers)
+        .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+        .where(and(eq(customers.id, id), isNotNull(customers.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "customer", "RESTORE", before, restored);
+      return restored;
+    });
+  }
+
+  async getDeletedCustomers(): Promise<Customer[]> {
+    return db
+      .select()
+      .from(customers)
+      .where(isNotNull(customers.deletedAt))
+      .orderBy(desc(customers.deletedAt));
+  }
+
   // Orders
   async getOrder(id: number): Promise<Order | undefined> {
     const [order] = await db
@@ -456,60 +2164,419 @@ export class DatabaseStorage implements IStorage {
     return order;
   }
 
-  async createOrder(order: InsertOrder): Promise<Order> {
-    const [newOrder] = await db
-      .insert(orders)
-      .values(order)
+  // Creates the order with all of its lines, priced from the catalog, in one transaction;
+  // a line that cannot be priced rolls the whole order back
+  async createOrder(order: InsertOrder, createdBy: number): Promise<Order> {
+    const { items, ...header } = order;
+    return db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(orders)
+        .values({ ...header, createdBy })
+        .returning();
+      for (const item of items) {
+        await this.insertOrderItem(tx, inserted, item);
+      }
+      const newOrder = await this.refreshOrderTotals(tx, inserted.id);
+      await this.recordAudit(tx, "order", "CREATE", null, newOrder);
+      await tx.insert(orderStatusHistory).values({
+        orderId: newOrder.id,
+        toStatus: newOrder.status,
+        changedBy: createdBy,
+      });
+      return newOrder;
+    });
+  }
+
+  // Issued and returned goods are priced at the product's price; goods bought in or moved
+  // between warehouses at its cost
+  private async insertOrderItem(tx: DbTransaction, order: Order, item: InsertOrderItem): Promise<OrderItem> {
+    const [product] = await tx
+      .select({ price: products.price, cost: products.cost })
+      .from(products)
+      .where(and(eq(products.id, item.productId), isNull(products.deletedAt)));
+    if (!product) {
+      throw new Error(`Product ${item.productId} not found`);
+    }
+
+    const unitPrice = Number((order.orderType === "INBOUND" || order.orderType === "TRANSFER" ? product.cost : product.price) ?? 0);
+    const amounts = priceOrderLine(Number(item.quantity), unitPrice, Number(item.discountPercent), Number(item.taxRate));
+    const [newItem] = await tx
+      .insert(orderItems)
+      .values({
+        ...item,
+        orderId: order.id,
+        unitPrice: unitPrice.toFixed(2),
+        discountAmount: amounts.discountAmount.toFixed(2),
+        taxAmount: amounts.taxAmount.toFixed(2),
+        totalPrice: amounts.totalPrice.toFixed(2),
+      })
       .returning();
-    return newOrder;
+    await this.recordAudit(tx, "order_item", "CREATE", null, newItem);
+    return newItem;
   }
 
-  async updateOrder(id: number, order: Partial<Order>): Promise<Order | undefined> {
-    const [updatedOrder] = await db
+  // Recomputes the header totals from the order's lines
+  private async refreshOrderTotals(tx: DbTransaction, orderId: number): Promise<Order> {
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+    let subtotal = 0;
+    let discountAmount = 0;
+    let taxAmount = 0;
+    let totalAmount = 0;
+    for (const item of items) {
+      subtotal += roundMoney(Number(item.quantity) * Number(item.unitPrice));
+      discountAmount += Number(item.discountAmount);
+      taxAmount += Number(item.taxAmount);
+      totalAmount += Number(item.totalPrice);
+    }
+
+    const [order] = await tx
       .update(orders)
-      .set({ ...order, updatedAt: new Date() })
-      .where(eq(orders.id, id))
+      .set({
+        subtotal: subtotal.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        taxAmount: taxAmount.toFixed(2),
+        totalAmount: totalAmount.toFixed(2),
+      })
+      .where(eq(orders.id, orderId))
       .returning();
-    return updatedOrder;
+    return order;
   }
 
-  async deleteOrder(id: number): Promise<boolean> {
-    // First delete order items
-    await db
-      .delete(orderItems)
-      .where(eq(orderItems.orderId, id));
+  async updateOrder(id: number, changes: UpdateOrder, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined> {
+    return this.editOrder(id, updatedBy, overrideReason, async (tx) => {
+      await tx.update(orders).set(changes).where(eq(orders.id, id));
+    });
+  }
 
-    // Then delete the order
-    const result = await db
-      .delete(orders)
-      .where(eq(orders.id, id))
-      .returning();
-    return result.length > 0;
+  // Applies an edit to a DRAFT or PENDING order (or a PROCESSING one under a manager override),
+  // then recomputes its totals and, if it holds stock, reserves the edited lines afresh. Any line
+  // that can no longer be reserved rolls the edit back.
+  private async editOrder(
+    id: number,
+    updatedBy: number,
+    overrideReason: string | undefined,
+    edit: (tx: DbTransaction, order: Order) => Promise<void>
+  ): Promise<OrderStatusResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!before) return undefined;
+      const overridden = !EDITABLE_ORDER_STATUSES.includes(before.status);
+      if (overridden && (before.status !== "PROCESSING" || !overrideReason)) {
+        throw new OrderEditError(before.status);
+      }
+
+      await this.closeOrderReservations(tx, id, "RELEASED");
+      await edit(tx, before);
+      await this.refreshOrderTotals(tx, id);
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ updatedBy, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      const reserves = ISSUING_ORDER_TYPES.includes(before.orderType) && RESERVING_ORDER_STATUSES.includes(before.status);
+      const shortfalls = reserves ? await this.reserveOrderStock(tx, updatedOrder) : [];
+
+      await this.recordAudit(tx, "order", "UPDATE", before, updatedOrder);
+      if (overridden) {
+        await tx.insert(orderStatusHistory).values({
+          orderId: id,
+          fromStatus: before.status,
+          toStatus: before.status,
+          note: `Edited under manager override: ${overrideReason}`,
+          changedBy: updatedBy,
+        });
+      }
+      return { order: updatedOrder, shortfalls };
+    });
+  }
+
+  async deleteOrder(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      // First delete order items
+      const deletedItems = await tx
+        .delete(orderItems)
+        .where(eq(orderItems.orderId, id))
+        .returning();
+      for (const item of deletedItems) {
+        await this.recordAudit(tx, "order_item", "DELETE", item, null);
+      }
+
+      // Then delete the order
+      const [deletedOrder] = await tx
+        .delete(orders)
+        .where(eq(orders.id, id))
+        .returning();
+      await this.recordAudit(tx, "order", "DELETE", deletedOrder, null);
+      return !!deletedOrder;
+    });
   }
 
-  async getAllOrders(): Promise<Order[]> {
+  // A warehouse filter also matches transfer orders bound for that warehouse
+  async getAllOrders(filters: OrderFilters = {}): Promise<OrderWithCustomer[]> {
     return db
-      .select()
+      .select({ ...getTableColumns(orders), customerName: customers.name })
       .from(orders)
+      .leftJoin(customers, eq(orders.customerId, customers.id))
+      .where(
+        and(
+          filters.status ? eq(orders.status, filters.status) : undefined,
+          filters.orderType ? eq(orders.orderType, filters.orderType) : undefined,
+          filters.warehouseId
+            ? or(eq(orders.warehouseId, filters.warehouseId), eq(orders.destinationWarehouseId, filters.warehouseId))
+            : undefined,
+          orderScopeCondition(filters.scope)
+        )
+      )
       .orderBy(desc(orders.orderDate));
   }
 
-  async getOrdersByStatus(status: string): Promise<Order[]> {
+  async getOrdersByStatus(status: OrderStatus, scope?: WarehouseScope): Promise<Order[]> {
     return db
       .select()
       .from(orders)
-      .where(eq(orders.status, status))
+      .where(and(eq(orders.status, status), orderScopeCondition(scope)))
       .orderBy(desc(orders.orderDate));
   }
 
-  async getRecentOrders(limit: number = 10): Promise<Order[]> {
+  async getRecentOrders(limit: number = 10, scope?: WarehouseScope): Promise<Order[]> {
     return db
       .select()
       .from(orders)
+      .where(orderScopeCondition(scope))
       .orderBy(desc(orders.orderDate))
       .limit(limit);
   }
 
+  // Moves the order along ORDER_STATUS_TRANSITIONS and applies the transition's stock side
+  // effects in one transaction. For issuing orders PENDING/PROCESSING reserve stock, CANCELLED
+  // releases it and SHIPPED turns the reservations into OUT movements; COMPLETED posts the IN
+  // movements of inbound, return and transfer orders.
+  async updateOrderStatus(id: number, status: OrderStatus, updatedBy?: number, note?: string): Promise<OrderStatusResult | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!before) return undefined;
+      if (!ORDER_STATUS_TRANSITIONS[before.status].includes(status)) {
+        throw new OrderStatusError(before.status, status);
+      }
+
+      const issues = ISSUING_ORDER_TYPES.includes(before.orderType);
+      let shortfalls: StockShortfall[] = [];
+      if (issues && RESERVING_ORDER_STATUSES.includes(status)) {
+        shortfalls = await this.reserveOrderStock(tx, before);
+      } else if (status === "CANCELLED") {
+        await this.closeOrderReservations(tx, before.id, "RELEASED");
+      } else if (issues && status === "SHIPPED") {
+        shortfalls = await this.shipOrderStock(tx, before, updatedBy);
+      } else if (status === "COMPLETED" && before.orderType !== "OUTBOUND") {
+        await this.receiveOrderStock(tx, before, updatedBy);
+      }
+
+      const [updatedOrder] = await tx
+        .update(orders)
+        .set({ status, updatedBy, updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      await this.recordAudit(tx, "order", "UPDATE", before, updatedOrder);
+      await tx.insert(orderStatusHistory).values({
+        orderId: id,
+        fromStatus: before.status,
+        toStatus: status,
+        note,
+        changedBy: updatedBy,
+      });
+      return { order: updatedOrder, shortfalls };
+    });
+  }
+
+  // Oldest first, for the order timeline
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusHistoryEntry[]> {
+    const rows = await db
+      .select({ entry: orderStatusHistory, changedByName: users.username })
+      .from(orderStatusHistory)
+      .leftJoin(users, eq(orderStatusHistory.changedBy, users.id))
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(orderStatusHistory.id);
+    return rows.map(({ entry, changedByName }) => ({ ...entry, changedByName }));
+  }
+
+  async getOrderReservations(orderId: number): Promise<StockReservation[]> {
+    return db
+      .select()
+      .from(stockReservations)
+      .where(eq(stockReservations.orderId, orderId))
+      .orderBy(stockReservations.id);
+  }
+
+  private async getActiveReservations(tx: DbTransaction, orderId: number): Promise<StockReservation[]> {
+    return tx
+      .select()
+      .from(stockReservations)
+      .where(and(eq(stockReservations.orderId, orderId), eq(stockReservations.status, "ACTIVE")))
+      .for("update");
+  }
+
+  // Reserves every line in the order's warehouse. Lines are checked against
+  // available stock and the overdraw policy; any blocked line rejects the whole order.
+  private async reserveOrderStock(tx: DbTransaction, order: Order): Promise<StockShortfall[]> {
+    if ((await this.getActiveReservations(tx, order.id)).length > 0) {
+      return []; // already reserved, e.g. PENDING -> PROCESSING
+    }
+    if (!order.warehouseId) {
+      throw new Error(`Order ${order.orderNumber} has no warehouse to reserve stock in`);
+    }
+
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    const shortfalls: StockShortfall[] = [];
+    for (const item of items) {
+      const quantity = Number(item.quantity);
+      const stock = await this.lockWarehouseStock(tx, item.productId, order.warehouseId);
+      // Reservations are not tied to a location and are held on the unassigned row
+      const balance = await this.lockInventory(tx, item.productId, order.warehouseId);
+      const shortfall = await this.findShortfall(tx, item.productId, order.warehouseId, stock.available, quantity);
+      if (shortfall) shortfalls.push(shortfall);
+      if (shortfall?.policy === "BLOCK") continue;
+
+      const [reservation] = await tx
+        .insert(stockReservations)
+        .values({
+          orderId: order.id,
+          orderItemId: item.id,
+          productId: item.productId,
+          warehouseId: order.warehouseId,
+          quantity: item.quantity,
+        })
+        .returning();
+      await this.recordAudit(tx, "stock_reservation", "CREATE", null, reservation);
+      await this.adjustInventory(tx, balance, { reservedQuantity: quantity });
+    }
+
+    const blocked = shortfalls.filter((shortfall) => shortfall.policy === "BLOCK");
+    if (blocked.length > 0) {
+      throw new InsufficientStockError(blocked);
+    }
+    return shortfalls;
+  }
+
+  // Ends the order's active reservations and gives their quantity back to available stock
+  private async closeOrderReservations(
+    tx: DbTransaction,
+    orderId: number,
+    status: "RELEASED" | "CONSUMED"
+  ): Promise<StockReservation[]> {
+    const active = await this.getActiveReservations(tx, orderId);
+    for (const reservation of active) {
+      const [closed] = await tx
+        .update(stockReservations)
+        .set({ status, closedAt: new Date() })
+        .where(eq(stockReservations.id, reservation.id))
+        .returning();
+      await this.recordAudit(tx, "stock_reservation", "UPDATE", reservation, closed);
+
+      await this.lockWarehouseStock(tx, reservation.productId, reservation.warehouseId);
+      const balance = await this.lockInventory(tx, reservation.productId, reservation.warehouseId);
+      await this.adjustInventory(tx, balance, { reservedQuantity: -Number(reservation.quantity) });
+    }
+    return active;
+  }
+
+  // Posts one OUT movement per reserved line, or per order line when nothing was reserved
+  private async shipOrderStock(tx: DbTransaction, order: Order, shippedBy?: number): Promise<StockShortfall[]> {
+    const consumed = await this.closeOrderReservations(tx, order.id, "CONSUMED");
+    let lines = consumed.map(({ productId, warehouseId, quantity }) => ({ productId, warehouseId, quantity }));
+    if (lines.length === 0) {
+      if (!order.warehouseId) {
+        throw new Error(`Order ${order.orderNumber} has no warehouse to ship from`);
+      }
+      const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+      lines = items.map(({ productId, quantity }) => ({ productId, warehouseId: order.warehouseId!, quantity }));
+    }
+
+    const shortfalls: StockShortfall[] = [];
+    for (const line of lines) {
+      const quantity = Number(line.quantity);
+      await this.lockWarehouseStock(tx, line.productId, line.warehouseId);
+      const picks = await this.allocateFefo(tx, line.productId, line.warehouseId, quantity);
+      const picked = picks.reduce((sum, pick) => sum + pick.quantity, 0);
+      // Anything the picks do not cover is taken from unassigned stock, subject to the overdraw policy
+      if (picked < quantity) {
+        picks.push({ locationId: null, locationPath: null, lotId: null, lotNumber: null, expiryDate: null, quantity: quantity - picked });
+      }
+
+      for (const pick of picks) {
+        const result = await this.postStockMovement(tx, {
+          productId: line.productId,
+          warehouseId: line.warehouseId,
+          quantity: String(pick.quantity),
+          fromLocationId: pick.locationId,
+          lotId: pick.lotId,
+          direction: "OUT",
+          referenceType: "ORDER",
+          referenceId: order.orderNumber,
+          createdBy: shippedBy,
+        });
+        shortfalls.push(...result.shortfalls);
+      }
+    }
+    return shortfalls;
+  }
+
+  // Books the order's lines into stock. A transfer receives exactly what was shipped, with
+  // its lots and cost; inbound lines are costed at their purchase price and returns at the
+  // product cost.
+  private async receiveOrderStock(tx: DbTransaction, order: Order, receivedBy?: number): Promise<void> {
+    if (order.orderType === "TRANSFER") {
+      const shipped = await tx
+        .select()
+        .from(stockMovements)
+        .where(
+          and(
+            eq(stockMovements.referenceType, "ORDER"),
+            eq(stockMovements.referenceId, order.orderNumber),
+            eq(stockMovements.warehouseId, order.warehouseId!),
+            eq(stockMovements.direction, "OUT")
+          )
+        )
+        .orderBy(stockMovements.id);
+      for (const movement of shipped) {
+        const serials = await this.shippedSerials(
+          tx,
+          { referenceType: "ORDER", referenceId: order.orderNumber, productId: movement.productId, movementId: movement.id },
+          Number(movement.quantity)
+        );
+        await this.postStockMovement(tx, {
+          productId: movement.productId,
+          warehouseId: order.destinationWarehouseId!,
+          quantity: movement.quantity,
+          lotId: movement.lotId,
+          unitCost: movement.unitCost,
+          serialNumbers: serials.length > 0 ? serials : undefined,
+          direction: "IN",
+          referenceType: "ORDER",
+          referenceId: order.orderNumber,
+          createdBy: receivedBy,
+        });
+      }
+      return;
+    }
+
+    if (!order.warehouseId) {
+      throw new Error(`Order ${order.orderNumber} has no warehouse to receive into`);
+    }
+    const items = await tx.select().from(orderItems).where(eq(orderItems.orderId, order.id));
+    for (const item of items) {
+      await this.postStockMovement(tx, {
+        productId: item.productId,
+        warehouseId: order.warehouseId,
+        quantity: item.quantity,
+        unitCost: order.orderType === "INBOUND" ? item.unitPrice : undefined,
+        direction: "IN",
+        referenceType: "ORDER",
+        referenceId: order.orderNumber,
+        createdBy: receivedBy,
+      });
+    }
+  }
+
   // Order Items
   async getOrderItems(orderId: number): Promise<OrderItem[]> {
     return db
@@ -518,29 +2585,816 @@ export class DatabaseStorage implements IStorage {
       .where(eq(orderItems.orderId, orderId));
   }
 
-  async createOrderItem(item: InsertOrderItem): Promise<OrderItem> {
-    const [newItem] = await db
-      .insert(orderItems)
-      .values(item)
-      .returning();
-    return newItem;
+  async createOrderItem(orderId: number, item: InsertOrderItem, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined> {
+    return this.editOrder(orderId, updatedBy, overrideReason, async (tx, order) => {
+      await this.insertOrderItem(tx, order, item);
+    });
+  }
+
+  // A line keeps the unit price it was added at; its amounts are recomputed from the new values
+  async updateOrderItem(orderId: number, itemId: number, changes: UpdateOrderItem, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined> {
+    return this.editOrder(orderId, updatedBy, overrideReason, async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(orderItems)
+        .where(and(eq(orderItems.id, itemId), eq(orderItems.orderId, orderId)))
+        .for("update");
+      if (!before) return;
+
+      const line = { ...before, ...changes };
+      const amounts = priceOrderLine(Number(line.quantity), Number(line.unitPrice), Number(line.discountPercent), Number(line.taxRate));
+      const [updatedItem] = await tx
+        .update(orderItems)
+        .set({
+          ...changes,
+          discountAmount: amounts.discountAmount.toFixed(2),
+          taxAmount: amounts.taxAmount.toFixed(2),
+          totalPrice: amounts.totalPrice.toFixed(2),
+        })
+        .where(eq(orderItems.id, itemId))
+        .returning();
+      await this.recordAudit(tx, "order_item", "UPDATE", before, updatedItem);
+    });
+  }
+
+  async deleteOrderItem(orderId: number, itemId: number, updatedBy: number, overrideReason?: string): Promise<OrderStatusResult | undefined> {
+    return this.editOrder(orderId, updatedBy, overrideReason, async (tx) => {
+      const [deleted] = await tx
+        .delete(orderItems)
+        .where(and(eq(orderItems.id, itemId), eq(orderItems.orderId, orderId)))
+        .returning();
+      await this.recordAudit(tx, "order_item", "DELETE", deleted, null);
+    });
+  }
+
+  // Transfers
+  async getTransfer(id: number): Promise<TransferWithLines | undefined> {
+    const [transfer] = await db.select().from(transfers).where(eq(transfers.id, id));
+    if (!transfer) return undefined;
+    return { ...transfer, lines: await this.getTransferLines(db, id) };
+  }
+
+  private async getTransferLines(executor: DbExecutor, transferId: number): Promise<TransferLineWithLot[]> {
+    return executor
+      .select({ ...getTableColumns(transferLines), lotNumber: lots.lotNumber })
+      .from(transferLines)
+      .leftJoin(lots, eq(transferLines.lotId, lots.id))
+      .where(eq(transferLines.transferId, transferId))
+      .orderBy(transferLines.id);
   }
 
-  async updateOrderItem(id: number, item: Partial<OrderItem>): Promise<OrderItem | undefined> {
-    const [updatedItem] = await db
-      .update(orderItems)
-      .set(item)
-      .where(eq(orderItems.id, id))
+  // Transfers touching any warehouse in scope, from either end
+  async getTransfers(scope?: WarehouseScope): Promise<Transfer[]> {
+    return db
+      .select()
+      .from(transfers)
+      .where(
+        scope
+          ? or(inArray(transfers.sourceWarehouseId, scope), inArray(transfers.destinationWarehouseId, scope))
+          : undefined
+      )
+      .orderBy(desc(transfers.createdAt));
+  }
+
+  async createTransfer({ lines, ...transfer }: InsertTransfer, createdBy?: number): Promise<TransferWithLines> {
+    return db.transaction(async (tx) => {
+      const transferNumber = `TR-${new Date().toISOString().slice(2, 10).replace(/-/g, "")}-${randomBytes(3).toString("hex").toUpperCase()}`;
+      const [newTransfer] = await tx
+        .insert(transfers)
+        .values({ ...transfer, transferNumber, createdBy, updatedBy: createdBy })
+        .returning();
+      await this.recordAudit(tx, "transfer", "CREATE", null, newTransfer);
+
+      const newLines = await tx
+        .insert(transferLines)
+        .values(lines.map((line) => ({ ...line, transferId: newTransfer.id })))
+        .returning();
+      for (const line of newLines) {
+        await this.recordAudit(tx, "transfer_line", "CREATE", null, line);
+      }
+      return { ...newTransfer, lines: newLines.map((line) => ({ ...line, lotNumber: null })) };
+    });
+  }
+
+  private async lockTransfer(tx: DbTransaction, id: number, expected: TransferStatus): Promise<TransferWithLines | undefined> {
+    const [transfer] = await tx.select().from(transfers).where(eq(transfers.id, id)).for("update");
+    if (!transfer) return undefined;
+    if (transfer.status !== expected) {
+      throw new TransferStatusError(transfer.status, expected);
+    }
+    return { ...transfer, lines: await this.getTransferLines(tx, id) };
+  }
+
+  // DRAFT -> IN_TRANSIT: takes every line out of the source warehouse, picking lots and
+  // locations FEFO like an order shipment. A line picked from several lots is split so
+  // that each lot travels on its own line and is received as that lot.
+  async dispatchTransfer(id: number, dispatchedBy?: number): Promise<TransferWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const before = await this.lockTransfer(tx, id, "DRAFT");
+      if (!before) return undefined;
+
+      for (const { lotNumber, ...line } of before.lines) {
+        const quantity = Number(line.quantity);
+        await this.lockWarehouseStock(tx, line.productId, before.sourceWarehouseId);
+        const picks = await this.allocateFefo(tx, line.productId, before.sourceWarehouseId, quantity);
+        const picked = picks.reduce((sum, pick) => sum + pick.quantity, 0);
+        // Anything the picks do not cover is taken from unassigned stock, subject to the overdraw policy
+        if (picked < quantity) {
+          picks.push({ locationId: null, locationPath: null, lotId: null, lotNumber: null, expiryDate: null, quantity: quantity - picked });
+        }
+
+        for (const pick of picks) {
+          const { movement } = await this.postStockMovement(tx, {
+            productId: line.productId,
+            warehouseId: before.sourceWarehouseId,
+            quantity: String(pick.quantity),
+            fromLocationId: pick.locationId,
+            lotId: pick.lotId,
+            direction: "OUT",
+            referenceType: "TRANSFER",
+            referenceId: before.transferNumber,
+            createdBy: dispatchedBy,
+          });
+          // The destination receives the stock at what it cost the source
+          const dispatchedLine = { quantity: String(pick.quantity), lotId: pick.lotId, unitCost: movement.unitCost };
+          if (pick === picks[0]) {
+            const [updated] = await tx
+              .update(transferLines)
+              .set(dispatchedLine)
+              .where(eq(transferLines.id, line.id))
+              .returning();
+            await this.recordAudit(tx, "transfer_line", "UPDATE", line, updated);
+          } else {
+            const [split] = await tx
+              .insert(transferLines)
+              .values({ ...dispatchedLine, transferId: id, productId: line.productId })
+              .returning();
+            await this.recordAudit(tx, "transfer_line", "CREATE", null, split);
+          }
+        }
+      }
+
+      const [dispatched] = await tx
+        .update(transfers)
+        .set({ status: "IN_TRANSIT", dispatchedAt: new Date(), updatedBy: dispatchedBy, updatedAt: new Date() })
+        .where(eq(transfers.id, id))
+        .returning();
+      await this.recordAudit(tx, "transfer", "UPDATE", before, dispatched);
+      return { ...dispatched, lines: await this.getTransferLines(tx, id) };
+    });
+  }
+
+  // Books a (possibly partial) receipt into the destination. The transfer becomes
+  // RECEIVED once every line is fully received, or when the receipt closes it short.
+  async receiveTransfer(id: number, receipt: ReceiveTransfer, receivedBy?: number): Promise<TransferWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const before = await this.lockTransfer(tx, id, "IN_TRANSIT");
+      if (!before) return undefined;
+
+      // Only what left the source can arrive: nothing is booked if any line is over-received
+      for (const line of before.lines) {
+        const receiving = receipt.lines
+          .filter((received) => received.lineId === line.id)
+          .reduce((total, received) => total + received.quantity, 0);
+        const outstanding = Number(line.quantity) - Number(line.receivedQuantity);
+        if (receiving > outstanding) {
+          throw new TransferReceiptError(
+            `Line ${line.id}: ${receiving} received but only ${Math.max(outstanding, 0)} is still in transit`
+          );
+        }
+      }
+
+      const lines = [...before.lines];
+      for (const received of receipt.lines) {
+        const index = lines.findIndex((line) => line.id === received.lineId);
+        if (index === -1) {
+          throw new Error(`Line ${received.lineId} does not belong to transfer ${before.transferNumber}`);
+        }
+        const line = lines[index];
+        if (received.quantity > 0) {
+          // The line's lot and serialized units come back into stock at the destination
+          const serials = await this.shippedSerials(
+            tx,
+            { referenceType: "TRANSFER", referenceId: before.transferNumber, productId: line.productId, lotId: line.lotId },
+            received.quantity
+          );
+          await this.postStockMovement(tx, {
+            productId: line.productId,
+            warehouseId: before.destinationWarehouseId,
+            quantity: String(received.quantity),
+            lotId: line.lotId,
+            direction: "IN",
+            unitCost: line.unitCost,
+            serialNumbers: serials.length > 0 ? serials : undefined,
+            referenceType: "TRANSFER",
+            referenceId: before.transferNumber,
+            createdBy: receivedBy,
+          });
+        }
+
+        const [updatedLine] = await tx
+          .update(transferLines)
+          .set({
+            receivedQuantity: sql`${transferLines.receivedQuantity} + ${received.quantity}`,
+            ...(received.discrepancyNotes !== undefined && { discrepancyNotes: received.discrepancyNotes }),
+          })
+          .where(eq(transferLines.id, line.id))
+          .returning();
+        await this.recordAudit(tx, "transfer_line", "UPDATE", line, updatedLine);
+        lines[index] = { ...updatedLine, lotNumber: line.lotNumber };
+      }
+
+      const fullyReceived = lines.every((line) => Number(line.receivedQuantity) >= Number(line.quantity));
+      if (!fullyReceived && !receipt.close) {
+        return { ...before, lines };
+      }
+
+      const [closed] = await tx
+        .update(transfers)
+        .set({ status: "RECEIVED", receivedAt: new Date(), updatedBy: receivedBy, updatedAt: new Date() })
+        .where(eq(transfers.id, id))
+        .returning();
+      await this.recordAudit(tx, "transfer", "UPDATE", before, closed);
+      return { ...closed, lines };
+    });
+  }
+
+  async getInTransitStock(scope?: WarehouseScope): Promise<InTransitStock[]> {
+    const quantity = sql<string>`sum(greatest(${transferLines.quantity} - ${transferLines.receivedQuantity}, 0))`;
+    return db
+      .select({
+        productId: transferLines.productId,
+        sourceWarehouseId: transfers.sourceWarehouseId,
+        destinationWarehouseId: transfers.destinationWarehouseId,
+        quantity,
+      })
+      .from(transferLines)
+      .innerJoin(transfers, eq(transferLines.transferId, transfers.id))
+      .where(
+        and(
+          eq(transfers.status, "IN_TRANSIT"),
+          scope
+            ? or(inArray(transfers.sourceWarehouseId, scope), inArray(transfers.destinationWarehouseId, scope))
+            : undefined
+        )
+      )
+      .groupBy(transferLines.productId, transfers.sourceWarehouseId, transfers.destinationWarehouseId)
+      .having(sql`${quantity} > 0`);
+  }
+
+  // Adjustment reasons
+  async getAdjustmentReasons(): Promise<AdjustmentReason[]> {
+    const reasons = await db.select().from(adjustmentReasons).orderBy(adjustmentReasons.name);
+    if (reasons.length > 0) return reasons;
+
+    await db.insert(adjustmentReasons).values(DEFAULT_ADJUSTMENT_REASONS).onConflictDoNothing();
+    return db.select().from(adjustmentReasons).orderBy(adjustmentReasons.name);
+  }
+
+  async createAdjustmentReason(reason: InsertAdjustmentReason): Promise<AdjustmentReason> {
+    const [newReason] = await db.insert(adjustmentReasons).values(reason).returning();
+    return newReason;
+  }
+
+  async updateAdjustmentReason(id: number, reason: UpdateAdjustmentReason): Promise<AdjustmentReason | undefined> {
+    const [updated] = await db
+      .update(adjustmentReasons)
+      .set({ ...reason, updatedAt: new Date() })
+      .where(eq(adjustmentReasons.id, id))
       .returning();
-    return updatedItem;
+    return updated;
   }
 
-  async deleteOrderItem(id: number): Promise<boolean> {
-    const result = await db
-      .delete(orderItems)
-      .where(eq(orderItems.id, id))
+  // Adjustments
+  async getAdjustments(scope?: WarehouseScope): Promise<Adjustment[]> {
+    return db
+      .select()
+      .from(adjustments)
+      .where(scope ? inArray(adjustments.warehouseId, scope) : undefined)
+      .orderBy(desc(adjustments.createdAt));
+  }
+
+  async getAdjustment(id: number): Promise<AdjustmentWithLines | undefined> {
+    const [adjustment] = await db.select().from(adjustments).where(eq(adjustments.id, id));
+    if (!adjustment) return undefined;
+    return this.withAdjustmentDetails(db, adjustment);
+  }
+
+  private async withAdjustmentDetails(executor: DbExecutor, adjustment: Adjustment): Promise<AdjustmentWithLines> {
+    const lines = await executor
+      .select()
+      .from(adjustmentLines)
+      .where(eq(adjustmentLines.adjustmentId, adjustment.id))
+      .orderBy(adjustmentLines.id);
+    const { content, ...attachmentInfo } = getTableColumns(adjustmentAttachments);
+    const attachments = await executor
+      .select(attachmentInfo)
+      .from(adjustmentAttachments)
+      .where(eq(adjustmentAttachments.adjustmentId, adjustment.id))
+      .orderBy(adjustmentAttachments.id);
+    return { ...adjustment, lines, attachments };
+  }
+
+  // Saves the document with the product costs of the day. Documents worth more than the
+  // warehouse's approval value wait for a manager; the rest are posted in the same transaction,
+  // so either every line is posted or none is.
+  async createAdjustment({ lines, ...adjustment }: InsertAdjustment, createdBy?: number): Promise<AdjustmentResult> {
+    return db.transaction(async (tx) => {
+      const payloadHash = adjustment.idempotencyKey ? adjustmentPayloadHash(adjustment, lines, createdBy) : null;
+      const costs = await tx
+        .select({ id: products.id, cost: products.cost })
+        .from(products)
+        .where(inArray(products.id, lines.map((line) => line.productId)));
+      const costedLines = lines.map((line) => ({
+        ...line,
+        unitCost: costs.find((product) => product.id === line.productId)?.cost ?? "0",
+      }));
+      const totalValue = costedLines.reduce((sum, line) => sum + Number(line.quantity) * Number(line.unitCost), 0);
+
+      const [warehouse] = await tx.select().from(warehouses).where(eq(warehouses.id, adjustment.warehouseId));
+      const requiresApproval =
+        warehouse?.adjustmentApprovalValue != null && totalValue > Number(warehouse.adjustmentApprovalValue);
+
+      const adjustmentNumber = `ADJ-${new Date().toISOString().slice(2, 10).replace(/-/g, "")}-${randomBytes(3).toString("hex").toUpperCase()}`;
+      const [newAdjustment] = await tx
+        .insert(adjustments)
+        .values({
+          ...adjustment,
+          adjustmentNumber,
+          status: requiresApproval ? "PENDING_APPROVAL" : "POSTED",
+          totalValue: totalValue.toFixed(2),
+          payloadHash,
+          ...(!requiresApproval && { postedAt: new Date() }),
+          createdBy,
+          updatedBy: createdBy,
+        })
+        .onConflictDoNothing({ target: adjustments.idempotencyKey })
+        .returning();
+
+      if (!newAdjustment) {
+        // Only a repeated idempotency key can make the insert a no-op
+        const [original] = await tx
+          .select()
+          .from(adjustments)
+          .where(eq(adjustments.idempotencyKey, adjustment.idempotencyKey!));
+        return {
+          adjustment: await this.withAdjustmentDetails(tx, original),
+          status: original.payloadHash === payloadHash ? "replayed" : "conflict",
+          shortfalls: [],
+        };
+      }
+      await this.recordAudit(tx, "adjustment", "CREATE", null, newAdjustment);
+
+      const newLines = await tx
+        .insert(adjustmentLines)
+        .values(costedLines.map((line) => ({ ...line, adjustmentId: newAdjustment.id })))
+        .returning();
+      const shortfalls = requiresApproval ? [] : await this.postAdjustmentLines(tx, newAdjustment, newLines, createdBy);
+      return {
+        adjustment: { ...newAdjustment, lines: newLines, attachments: [] },
+        status: "created",
+        shortfalls,
+      };
+    });
+  }
+
+  private async lockAdjustment(tx: DbTransaction, id: number, expected: AdjustmentStatus): Promise<Adjustment | undefined> {
+    const [adjustment] = await tx.select().from(adjustments).where(eq(adjustments.id, id)).for("update");
+    if (!adjustment) return undefined;
+    if (adjustment.status !== expected) {
+      throw new AdjustmentStatusError(adjustment.status, expected);
+    }
+    return adjustment;
+  }
+
+  // PENDING_APPROVAL -> POSTED
+  async approveAdjustment(id: number, approvedBy?: number): Promise<AdjustmentResult | undefined> {
+    return db.transaction(async (tx) => {
+      const before = await this.lockAdjustment(tx, id, "PENDING_APPROVAL");
+      if (!before) return undefined;
+
+      const [approved] = await tx
+        .update(adjustments)
+        .set({
+          status: "POSTED",
+          approvedAt: new Date(),
+          approvedBy,
+          postedAt: new Date(),
+          updatedBy: approvedBy,
+          updatedAt: new Date(),
+        })
+        .where(eq(adjustments.id, id))
+        .returning();
+      await this.recordAudit(tx, "adjustment", "UPDATE", before, approved);
+
+      const details = await this.withAdjustmentDetails(tx, approved);
+      const shortfalls = await this.postAdjustmentLines(tx, approved, details.lines, approvedBy);
+      return { adjustment: details, status: "created", shortfalls };
+    });
+  }
+
+  // PENDING_APPROVAL -> REJECTED; nothing is posted
+  async rejectAdjustment(id: number, reason: string, rejectedBy?: number): Promise<AdjustmentWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const before = await this.lockAdjustment(tx, id, "PENDING_APPROVAL");
+      if (!before) return undefined;
+
+      const [rejected] = await tx
+        .update(adjustments)
+        .set({ status: "REJECTED", rejectionReason: reason, updatedBy: rejectedBy, updatedAt: new Date() })
+        .where(eq(adjustments.id, id))
+        .returning();
+      await this.recordAudit(tx, "adjustment", "UPDATE", before, rejected);
+      return this.withAdjustmentDetails(tx, rejected);
+    });
+  }
+
+  private async postAdjustmentLines(
+    tx: DbTransaction,
+    adjustment: Adjustment,
+    lines: AdjustmentLine[],
+    postedBy?: number
+  ): Promise<StockShortfall[]> {
+    const shortfalls: StockShortfall[] = [];
+    for (const line of lines) {
+      const result = await this.postStockMovement(tx, {
+        productId: line.productId,
+        warehouseId: adjustment.warehouseId,
+        quantity: line.quantity,
+        direction: line.direction as "IN" | "OUT",
+        unitCost: line.unitCost,
+        fromLocationId: line.locationId,
+        toLocationId: line.locationId,
+        lotNumber: line.lotNumber,
+        expiryDate: line.expiryDate,
+        referenceType: "ADJUSTMENT",
+        referenceId: adjustment.adjustmentNumber,
+        notes: adjustment.notes ? `${adjustment.reasonCode}: ${adjustment.notes}` : adjustment.reasonCode,
+        createdBy: postedBy,
+      });
+      shortfalls.push(...result.shortfalls);
+    }
+    return shortfalls;
+  }
+
+  async addAdjustmentAttachment(
+    id: number,
+    file: { fileName: string; contentType: string; content: Buffer },
+    createdBy?: number
+  ): Promise<AdjustmentAttachmentInfo> {
+    const [{ content, ...attachment }] = await db
+      .insert(adjustmentAttachments)
+      .values({ ...file, adjustmentId: id, size: file.content.length, createdBy })
       .returning();
-    return result.length > 0;
+    return attachment;
+  }
+
+  async getAdjustmentAttachment(id: number, attachmentId: number): Promise<AdjustmentAttachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(adjustmentAttachments)
+      .where(and(eq(adjustmentAttachments.id, attachmentId), eq(adjustmentAttachments.adjustmentId, id)));
+    return attachment;
+  }
+
+  // Count sessions
+  async getCountSessions(scope?: WarehouseScope): Promise<CountSession[]> {
+    return db
+      .select()
+      .from(countSessions)
+      .where(scope ? inArray(countSessions.warehouseId, scope) : undefined)
+      .orderBy(desc(countSessions.createdAt));
+  }
+
+  async getCountSession(id: number): Promise<CountSessionWithLines | undefined> {
+    const [session] = await db.select().from(countSessions).where(eq(countSessions.id, id));
+    if (!session) return undefined;
+    return { ...session, lines: await this.getCountLineDetails(db, session) };
+  }
+
+  // Lines with what counters and approvers see; expected quantities stay hidden while counting
+  private async getCountLineDetails(executor: DbExecutor, session: CountSession): Promise<CountLineDetail[]> {
+    const lines = await executor
+      .select({
+        ...getTableColumns(countLines),
+        productName: products.name,
+        sku: products.sku,
+        locationPath: warehouseLocations.path,
+        lotNumber: lots.lotNumber,
+      })
+      .from(countLines)
+      .innerJoin(products, eq(countLines.productId, products.id))
+      .leftJoin(warehouseLocations, eq(countLines.locationId, warehouseLocations.id))
+      .leftJoin(lots, eq(countLines.lotId, lots.id))
+      .where(eq(countLines.sessionId, session.id))
+      .orderBy(warehouseLocations.path, products.name, countLines.id);
+    const entries = lines.length === 0 ? [] : await executor
+      .select()
+      .from(countEntries)
+      .where(inArray(countEntries.lineId, lines.map((line) => line.id)))
+      .orderBy(countEntries.countedAt, countEntries.id);
+
+    const isBlind = session.status === "COUNTING";
+    return lines.map((line) => {
+      const lineEntries = entries.filter((entry) => entry.lineId === line.id);
+      const latestByCounter = new Map(lineEntries.map((entry) => [entry.countedBy, Number(entry.quantity)]));
+      // Sessions cancelled before submit never had their variance settled
+      const variance = line.varianceQuantity !== null
+        ? Number(line.varianceQuantity)
+        : line.countedQuantity === null ? null : Number(line.countedQuantity) - Number(line.expectedQuantity);
+      return {
+        ...line,
+        expectedQuantity: isBlind ? null : line.expectedQuantity,
+        varianceQuantity: isBlind || variance === null ? null : variance.toFixed(2),
+        varianceValue: isBlind || variance === null ? null : (variance * Number(line.unitCost)).toFixed(2),
+        hasDiscrepancy: new Set(latestByCounter.values()).size > 1,
+        entries: lineEntries,
+      };
+    });
+  }
+
+  // Products of one ABC class in a warehouse: ranked by stock value, A covers the first 80%
+  // of the value, B the next 15% and C the rest (including everything without a cost)
+  private async getAbcClassProducts(executor: DbExecutor, warehouseId: string, abcClass: AbcClass): Promise<number[]> {
+    const value = sql<string>`sum(${inventory.quantity} * coalesce(${products.cost}, 0))`;
+    const ranked = await executor
+      .select({ productId: inventory.productId, value })
+      .from(inventory)
+      .innerJoin(products, eq(inventory.productId, products.id))
+      .where(and(eq(inventory.warehouseId, warehouseId), isNull(products.deletedAt)))
+      .groupBy(inventory.productId)
+      .orderBy(desc(value), inventory.productId);
+
+    const total = ranked.reduce((sum, row) => sum + Math.max(Number(row.value), 0), 0);
+    let valueBefore = 0;
+    return ranked
+      .filter((row) => {
+        const rowValue = Number(row.value);
+        if (rowValue <= 0) return abcClass === "C";
+        // Classed by the share of value ranked above it, so the most valuable product is always A
+        const shareBefore = valueBefore / total;
+        valueBefore += rowValue;
+        return abcClass === (shareBefore < 0.8 ? "A" : shareBefore < 0.95 ? "B" : "C");
+      })
+      .map((row) => row.productId);
+  }
+
+  // Opens a session over the balance rows in scope and freezes their quantities and costs
+  async createCountSession(session: InsertCountSession, createdBy?: number): Promise<CountSessionWithLines> {
+    return db.transaction(async (tx) => {
+      const conditions: (SQL | undefined)[] = [eq(inventory.warehouseId, session.warehouseId), isNull(products.deletedAt)];
+      if (session.scope === "LOCATION") {
+        const [root] = await tx.select().from(warehouseLocations).where(eq(warehouseLocations.id, session.locationId!));
+        if (!root || root.warehouseId !== session.warehouseId) {
+          throw new CountSessionError("The location does not belong to this warehouse");
+        }
+        conditions.push(or(eq(warehouseLocations.id, root.id), like(warehouseLocations.path, `${root.path}-%`)));
+      } else if (session.scope === "CATEGORY") {
+        conditions.push(eq(products.categoryId, session.categoryId!));
+      } else if (session.scope === "ABC") {
+        const productIds = await this.getAbcClassProducts(tx, session.warehouseId, session.abcClass!);
+        conditions.push(productIds.length > 0 ? inArray(inventory.productId, productIds) : sql`false`);
+      }
+
+      const balances = await tx
+        .select({
+          productId: inventory.productId,
+          locationId: inventory.locationId,
+          lotId: inventory.lotId,
+          expectedQuantity: inventory.quantity,
+          unitCost: sql<string>`coalesce(${products.cost}, 0)`,
+        })
+        .from(inventory)
+        .innerJoin(products, eq(inventory.productId, products.id))
+        .leftJoin(warehouseLocations, eq(inventory.locationId, warehouseLocations.id))
+        .where(and(...conditions));
+      if (balances.length === 0) {
+        throw new CountSessionError("Nothing is stocked in the chosen scope");
+      }
+
+      const sessionNumber = `CC-${new Date().toISOString().slice(2, 10).replace(/-/g, "")}-${randomBytes(3).toString("hex").toUpperCase()}`;
+      const [newSession] = await tx
+        .insert(countSessions)
+        .values({
+          ...session,
+          locationId: session.scope === "LOCATION" ? session.locationId : null,
+          categoryId: session.scope === "CATEGORY" ? session.categoryId : null,
+          abcClass: session.scope === "ABC" ? session.abcClass : null,
+          sessionNumber,
+          createdBy,
+          updatedBy: createdBy,
+        })
+        .returning();
+      await this.recordAudit(tx, "count_session", "CREATE", null, newSession);
+
+      await tx.insert(countLines).values(balances.map((balance) => ({ ...balance, sessionId: newSession.id })));
+      return { ...newSession, lines: await this.getCountLineDetails(tx, newSession) };
+    });
+  }
+
+  private async lockCountSession(
+    tx: DbTransaction,
+    id: number,
+    expected: CountStatus[]
+  ): Promise<{ session: CountSession; lines: CountLine[] } | undefined> {
+    const [session] = await tx.select().from(countSessions).where(eq(countSessions.id, id)).for("update");
+    if (!session) return undefined;
+    if (!expected.includes(session.status)) {
+      throw new CountSessionError(`Count is ${session.status}; this step requires ${expected.join(" or ")}`);
+    }
+    const lines = await tx
+      .select()
+      .from(countLines)
+      .where(eq(countLines.sessionId, id))
+      .orderBy(countLines.id);
+    return { session, lines };
+  }
+
+  // Blind counts; the latest count of a line is the one that will be posted
+  async recordCountEntries(id: number, counts: CountEntries, countedBy?: number): Promise<CountSessionWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockCountSession(tx, id, ["COUNTING"]);
+      if (!locked) return undefined;
+
+      for (const entry of counts.entries) {
+        if (!locked.lines.some((line) => line.id === entry.lineId)) {
+          throw new CountSessionError(`Line ${entry.lineId} does not belong to count ${locked.session.sessionNumber}`);
+        }
+        await tx.insert(countEntries).values({ lineId: entry.lineId, quantity: String(entry.quantity), countedBy });
+        await tx
+          .update(countLines)
+          .set({ countedQuantity: String(entry.quantity) })
+          .where(eq(countLines.id, entry.lineId));
+      }
+
+      const [updated] = await tx
+        .update(countSessions)
+        .set({ updatedBy: countedBy, updatedAt: new Date() })
+        .where(eq(countSessions.id, id))
+        .returning();
+      return { ...updated, lines: await this.getCountLineDetails(tx, updated) };
+    });
+  }
+
+  // COUNTING -> POSTED, or PENDING_APPROVAL when a line's variance exceeds the warehouse thresholds
+  async submitCountSession(id: number, submittedBy?: number): Promise<CountSessionWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockCountSession(tx, id, ["COUNTING"]);
+      if (!locked) return undefined;
+      const { session: before, lines } = locked;
+
+      const uncounted = lines.filter((line) => line.countedQuantity === null).length;
+      if (uncounted > 0) {
+        throw new CountSessionError(`${uncounted} line(s) have not been counted yet`);
+      }
+
+      const [warehouse] = await tx.select().from(warehouses).where(eq(warehouses.id, before.warehouseId));
+      const valueLimit = warehouse?.countApprovalValue != null ? Number(warehouse.countApprovalValue) : null;
+      const percentLimit = warehouse?.countApprovalPercent != null ? Number(warehouse.countApprovalPercent) : null;
+
+      // Each variance is settled here, once: the approval check, the session value and
+      // the posting all use the quantity stored on the line
+      let varianceValue = 0;
+      let requiresApproval = false;
+      const submittedLines: CountLine[] = [];
+      for (const line of lines) {
+        const onHand = Number(line.expectedQuantity) + await this.quantityMovedDuringCount(tx, before, line);
+        const variance = Number(line.countedQuantity) - onHand;
+        const value = variance * Number(line.unitCost);
+        varianceValue += value;
+
+        const overValue = valueLimit !== null && Math.abs(value) > valueLimit;
+        const overPercent = percentLimit !== null && variance !== 0 &&
+          (onHand <= 0 || (Math.abs(variance) / onHand) * 100 > percentLimit);
+        requiresApproval ||= overValue || overPercent;
+        const [submittedLine] = await tx
+          .update(countLines)
+          .set({ varianceQuantity: variance.toFixed(2), requiresApproval: overValue || overPercent })
+          .where(eq(countLines.id, line.id))
+          .returning();
+        submittedLines.push(submittedLine);
+      }
+
+      const [submitted] = await tx
+        .update(countSessions)
+        .set({
+          status: requiresApproval ? "PENDING_APPROVAL" : "POSTED",
+          varianceValue: varianceValue.toFixed(2),
+          submittedAt: new Date(),
+          ...(!requiresApproval && { postedAt: new Date() }),
+          updatedBy: submittedBy,
+          updatedAt: new Date(),
+        })
+        .where(eq(countSessions.id, id))
+        .returning();
+      await this.recordAudit(tx, "count_session", "UPDATE", before, submitted);
+      if (!requiresApproval) {
+        await this.postCountVariances(tx, submitted, submittedLines, submittedBy);
+      }
+      return { ...submitted, lines: await this.getCountLineDetails(tx, submitted) };
+    });
+  }
+
+  // PENDING_APPROVAL -> POSTED
+  async approveCountSession(id: number, approvedBy?: number): Promise<CountSessionWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockCountSession(tx, id, ["PENDING_APPROVAL"]);
+      if (!locked) return undefined;
+
+      const [approved] = await tx
+        .update(countSessions)
+        .set({
+          status: "POSTED",
+          approvedAt: new Date(),
+          approvedBy,
+          postedAt: new Date(),
+          updatedBy: approvedBy,
+          updatedAt: new Date(),
+        })
+        .where(eq(countSessions.id, id))
+        .returning();
+      await this.recordAudit(tx, "count_session", "UPDATE", locked.session, approved);
+      await this.postCountVariances(tx, approved, locked.lines, approvedBy);
+      return { ...approved, lines: await this.getCountLineDetails(tx, approved) };
+    });
+  }
+
+  async cancelCountSession(id: number, cancelledBy?: number): Promise<CountSessionWithLines | undefined> {
+    return db.transaction(async (tx) => {
+      const locked = await this.lockCountSession(tx, id, ["COUNTING", "PENDING_APPROVAL"]);
+      if (!locked) return undefined;
+
+      const [cancelled] = await tx
+        .update(countSessions)
+        .set({ status: "CANCELLED", updatedBy: cancelledBy, updatedAt: new Date() })
+        .where(eq(countSessions.id, id))
+        .returning();
+      await this.recordAudit(tx, "count_session", "UPDATE", locked.session, cancelled);
+      return { ...cancelled, lines: await this.getCountLineDetails(tx, cancelled) };
+    });
+  }
+
+  // Posts every line's variance, as worked out at submit, with an IN or OUT at the line's
+  // location and lot, and stamps each counted balance row with the count date
+  private async postCountVariances(tx: DbTransaction, session: CountSession, lines: CountLine[], postedBy?: number) {
+    for (const line of lines) {
+      const variance = Number(line.varianceQuantity);
+      if (variance !== 0) {
+        await this.postStockMovement(tx, {
+          productId: line.productId,
+          warehouseId: session.warehouseId,
+          quantity: Math.abs(variance).toFixed(2),
+          direction: variance > 0 ? "IN" : "OUT",
+          fromLocationId: line.locationId,
+          toLocationId: line.locationId,
+          lotId: line.lotId,
+          referenceType: "COUNT",
+          referenceId: session.sessionNumber,
+          createdBy: postedBy,
+        }, { ignoreShortfall: true });
+      }
+
+      await this.lockWarehouseStock(tx, line.productId, session.warehouseId);
+      const balance = await this.lockInventory(tx, line.productId, session.warehouseId, line.locationId, line.lotId);
+      const [counted] = await tx
+        .update(inventory)
+        .set({ lastCountDate: new Date(), updatedAt: new Date() })
+        .where(eq(inventory.id, balance.id))
+        .returning();
+      await this.recordAudit(tx, "inventory", "UPDATE", balance, counted);
+    }
+  }
+
+  // Net quantity moved into a count line's location and lot between the session opening
+  // and the line's latest count. Added to the frozen expected quantity it gives what was
+  // on hand when the line was counted, so movements posted during the count are neither
+  // counted twice nor undone by the variance.
+  private async quantityMovedDuringCount(tx: DbTransaction, session: CountSession, line: CountLine): Promise<number> {
+    const [entry] = await tx
+      .select({ countedAt: countEntries.countedAt })
+      .from(countEntries)
+      .where(eq(countEntries.lineId, line.id))
+      .orderBy(desc(countEntries.countedAt))
+      .limit(1);
+    const [net] = await tx
+      .select({
+        quantity: sql<string>`coalesce(sum(case
+          when ${stockMovements.direction} in ('IN', 'MOVE') and ${stockMovements.toLocationId} is not distinct from ${line.locationId} then ${stockMovements.quantity}
+          else 0 end), 0) - coalesce(sum(case
+          when ${stockMovements.direction} in ('OUT', 'MOVE') and ${stockMovements.fromLocationId} is not distinct from ${line.locationId} then ${stockMovements.quantity}
+          else 0 end), 0)`,
+      })
+      .from(stockMovements)
+      .where(
+        and(
+          eq(stockMovements.productId, line.productId),
+          eq(stockMovements.warehouseId, session.warehouseId),
+          sql`${stockMovements.lotId} is not distinct from ${line.lotId}`,
+          gt(stockMovements.createdAt, session.createdAt!),
+          lte(stockMovements.createdAt, entry?.countedAt ?? new Date())
+        )
+      );
+    return Number(net?.quantity ?? 0);
   }
 
   // Warehouses
@@ -553,40 +3407,378 @@ export class DatabaseStorage implements IStorage {
     return warehouse;
   }
 
-  async getAllWarehouses(): Promise<Warehouse[]> {
+  async getAllWarehouses(scope?: WarehouseScope): Promise<Warehouse[]> {
     return db
       .select()
       .from(warehouses)
-      .where(isNull(warehouses.deletedAt))
+      .where(
+        and(
+          isNull(warehouses.deletedAt),
+          scope ? inArray(warehouses.id, scope) : undefined
+        )
+      )
       .orderBy(warehouses.name);
   }
 
   async createWarehouse(data: Partial<Warehouse> | InsertWarehouse): Promise<Warehouse> {
-    const [result] = await db.insert(warehouses).values({
-      ...data,
-      id: data.id || Math.random().toString(36).substring(2, 12).toUpperCase(),
-    }).returning();
-    return result;
+    return db.transaction(async (tx) => {
+      const [result] = await tx.insert(warehouses).values({
+        ...data,
+        id: data.id || Math.random().toString(36).substring(2, 12).toUpperCase(),
+      }).returning();
+      await this.recordAudit(tx, "warehouse", "CREATE", null, result);
+      return result;
+    });
   }
 
   async updateWarehouse(id: string, data: Partial<Warehouse>): Promise<Warehouse | undefined> {
-    const [result] = await db.update(warehouses)
-      .set({
-        ...data,
-        updatedAt: new Date()
-      })
-      .where(eq(warehouses.id, id))
-      .returning();
-    return result;
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(warehouses).where(eq(warehouses.id, id)).for("update");
+      const [result] = await tx.update(warehouses)
+        .set({
+          ...data,
+          updatedAt: new Date()
+        })
+        .where(eq(warehouses.id, id))
+        .returning();
+      await this.recordAudit(tx, "warehouse", "UPDATE", before, result);
+      return result;
+    });
   }
 
-  async deleteWarehouse(id: string): Promise<boolean> {
-    const result = await db.update(warehouses)
-      .set({
-        deletedAt: new Date()
+  async deleteWarehouse(id: string, deletedBy?: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(warehouses).where(eq(warehouses.id, id)).for("update");
+      const [result] = await tx.update(warehouses)
+        .set({
+          deletedAt: new Date(),
+          deletedBy: deletedBy ?? null
+        })
+        .where(and(eq(warehouses.id, id), isNull(warehouses.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "warehouse", "DELETE", before, result);
+      return !!result;
+    });
+  }
+
+  async restoreWarehouse(id: string): Promise<Warehouse | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(warehouses).where(eq(warehouses.id, id)).for("update");
+      const [result] = await tx.update(warehouses)
+        .set({
+          deletedAt: null,
+          deletedBy: null,
+          updatedAt: new Date()
+        })
+        .where(and(eq(warehouses.id, id), isNotNull(warehouses.deletedAt)))
+        .returning();
+      await this.recordAudit(tx, "warehouse", "RESTORE", before, result);
+      return result;
+    });
+  }
+
+  async getDeletedWarehouses(scope?: WarehouseScope): Promise<Warehouse[]> {
+    return db
+      .select()
+      .from(warehouses)
+      .where(
+        and(
+          isNotNull(warehouses.deletedAt),
+          scope ? inArray(warehouses.id, scope) : undefined
+        )
+      )
+      .orderBy(desc(warehouses.deletedAt));
+  }
+
+  // Warehouse Locations
+  async getWarehouseLocation(id: number): Promise<WarehouseLocation | undefined> {
+    const [location] = await db
+      .select()
+      .from(warehouseLocations)
+      .where(eq(warehouseLocations.id, id));
+    return location;
+  }
+
+  // Every location of the warehouse in path order, so parents come before their children
+  async getWarehouseLocations(warehouseId: string): Promise<WarehouseLocationWithStock[]> {
+    return db
+      .select({
+        ...getTableColumns(warehouseLocations),
+        quantity: sql<string>`coalesce(sum(${inventory.quantity}), 0)`,
       })
-      .where(eq(warehouses.id, id));
-    return result.rowCount > 0;
+      .from(warehouseLocations)
+      .leftJoin(inventory, eq(inventory.locationId, warehouseLocations.id))
+      .where(eq(warehouseLocations.warehouseId, warehouseId))
+      .groupBy(warehouseLocations.id)
+      .orderBy(warehouseLocations.path);
+  }
+
+  async createWarehouseLocation(warehouseId: string, location: InsertWarehouseLocation): Promise<WarehouseLocation> {
+    return db.transaction(async (tx) => {
+      const [parent] = location.parentId
+        ? await tx.select().from(warehouseLocations).where(eq(warehouseLocations.id, location.parentId))
+        : [];
+      const code = location.code.toUpperCase();
+      const [newLocation] = await tx
+        .insert(warehouseLocations)
+        .values({ ...location, warehouseId, code, path: parent ? `${parent.path}-${code}` : code })
+        .returning();
+      await this.recordAudit(tx, "warehouse_location", "CREATE", null, newLocation);
+      return newLocation;
+    });
+  }
+
+  async updateWarehouseLocation(id: number, location: UpdateWarehouseLocation): Promise<WarehouseLocation | undefined> {
+    return db.transaction(async (tx) => {
+      const [before] = await tx.select().from(warehouseLocations).where(eq(warehouseLocations.id, id));
+      if (!before) return undefined;
+
+      const [updatedLocation] = await tx
+        .update(warehouseLocations)
+        .set({ ...location, updatedAt: new Date() })
+        .where(eq(warehouseLocations.id, id))
+        .returning();
+      await this.recordAudit(tx, "warehouse_location", "UPDATE", before, updatedLocation);
+      return updatedLocation;
+    });
+  }
+
+  // Locations are removed outright; getLocationDeleteBlockers must come back empty first.
+  // Empty balance rows left behind by earlier movements go with the location.
+  async deleteWarehouseLocation(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const emptyBalances = await tx
+        .delete(inventory)
+        .where(and(eq(inventory.locationId, id), eq(inventory.quantity, "0")))
+        .returning();
+      for (const balance of emptyBalances) {
+        await this.recordAudit(tx, "inventory", "DELETE", balance, null);
+      }
+
+      const [deleted] = await tx
+        .delete(warehouseLocations)
+        .where(eq(warehouseLocations.id, id))
+        .returning();
+      await this.recordAudit(tx, "warehouse_location", "DELETE", deleted, null);
+      return !!deleted;
+    });
+  }
+
+  async getLocationDeleteBlockers(id: number): Promise<string[]> {
+    const blockers: string[] = [];
+    const children = await this.countRows(warehouseLocations, eq(warehouseLocations.parentId, id));
+    if (children > 0) blockers.push(`Locations inside this one (${children})`);
+    const stocked = await this.countRows(inventory, and(eq(inventory.locationId, id), sql`${inventory.quantity} <> 0`));
+    if (stocked > 0) blockers.push(`Products stored here (${stocked})`);
+    return blockers;
+  }
+
+  // Trash
+  async getDeleteBlockers(entity: SoftDeleteEntity, id: string | number): Promise<string[]> {
+    const blockers: string[] = [];
+    const add = (count: number, message: string) => {
+      if (count > 0) blockers.push(`${message} (${count})`);
+    };
+
+    switch (entity) {
+      case "product": {
+        const productId = Number(id);
+        add(
+          await this.countRows(inventory, and(eq(inventory.productId, productId), sql`${inventory.quantity} <> 0`)),
+          "Stock on hand in warehouses"
+        );
+        const [openOrders] = await db
+          .select({ count: sql<number>`count(DISTINCT ${orders.id})::int` })
+          .from(orderItems)
+          .innerJoin(orders, eq(orderItems.orderId, orders.id))
+          .where(and(eq(orderItems.productId, productId), inArray(orders.status, OPEN_ORDER_STATUSES)));
+        add(openOrders?.count ?? 0, "Open orders containing this product");
+        break;
+      }
+      case "product_category": {
+        const categoryId = Number(id);
+        add(
+          await this.countRows(products, and(eq(products.categoryId, categoryId), isNull(products.deletedAt))),
+          "Products in this category"
+        );
+        add(
+          await this.countRows(productCategories, and(eq(productCategories.parentId, categoryId), isNull(productCategories.deletedAt))),
+          "Subcategories"
+        );
+        break;
+      }
+      case "unit_of_measure": {
+        const uomId = String(id);
+        add(
+          await this.countRows(products, and(eq(products.uomId, uomId), isNull(products.deletedAt))),
+          "Products using this unit"
+        );
+        add(
+          await this.countRows(unitsOfMeasure, and(eq(unitsOfMeasure.baseUomId, uomId), isNull(unitsOfMeasure.deletedAt))),
+          "Units converting from this unit"
+        );
+        break;
+      }
+      case "warehouse": {
+        add(
+          await this.countRows(
+            inventory,
+            and(
+              eq(inventory.warehouseId, String(id)),
+              sql`(${inventory.quantity} <> 0 OR coalesce(${inventory.reservedQuantity}, 0) <> 0)`
+            )
+          ),
+          "Products with stock or reservations in this warehouse"
+        );
+        add(
+          await this.countRows(
+            transfers,
+            and(
+              or(eq(transfers.sourceWarehouseId, String(id)), eq(transfers.destinationWarehouseId, String(id))),
+              ne(transfers.status, "RECEIVED")
+            )
+          ),
+          "Open transfers from or to this warehouse"
+        );
+        break;
+      }
+      case "customer":
+        add(
+          await this.countRows(orders, and(eq(orders.customerId, Number(id)), inArray(orders.status, OPEN_ORDER_STATUSES))),
+          "Open orders for this customer"
+        );
+        break;
+      case "user":
+        break;
+    }
+    return blockers;
+  }
+
+  // Hard-deletes trash older than `deletedBefore`. Rows that anything still points at
+  // (history, documents, other master data) are kept for a later run, so nothing dangles;
+  // rows owned by the purged one (locations, assignments, contacts) go with it.
+  async purgeDeleted(entity: SoftDeleteEntity, deletedBefore: Date): Promise<number> {
+    return db.transaction(async (tx) => {
+      let purged: Record<string, any>[] = [];
+
+      switch (entity) {
+        case "product":
+          purged = await tx
+            .delete(products)
+            .where(
+              and(
+                lt(products.deletedAt, deletedBefore),
+                ...unreferenced(products.id, [
+                  inventory.productId,
+                  stockMovements.productId,
+                  costLayers.productId,
+                  lots.productId,
+                  serialNumbers.productId,
+                  orderItems.productId,
+                  stockReservations.productId,
+                  transferLines.productId,
+                  adjustmentLines.productId,
+                  countLines.productId,
+                ])
+              )
+            )
+            .returning();
+          break;
+        case "product_category":
+          purged = await tx
+            .delete(productCategories)
+            .where(
+              and(
+                lt(productCategories.deletedAt, deletedBefore),
+                ...unreferenced(productCategories.id, [products.categoryId, countSessions.categoryId]),
+                sql`NOT EXISTS (SELECT 1 FROM ${productCategories} child WHERE child.parent_id = ${productCategories.id})`
+              )
+            )
+            .returning();
+          break;
+        case "unit_of_measure":
+          purged = await tx
+            .delete(unitsOfMeasure)
+            .where(
+              and(
+                lt(unitsOfMeasure.deletedAt, deletedBefore),
+                ...unreferenced(unitsOfMeasure.id, [products.uomId]),
+                sql`NOT EXISTS (SELECT 1 FROM ${unitsOfMeasure} derived WHERE derived.base_uom_id = ${unitsOfMeasure.id})`
+              )
+            )
+            .returning();
+          break;
+        case "warehouse":
+          purged = await tx
+            .delete(warehouses)
+            .where(
+              and(
+                lt(warehouses.deletedAt, deletedBefore),
+                ...unreferenced(warehouses.id, [
+                  inventory.warehouseId,
+                  stockMovements.warehouseId,
+                  costLayers.warehouseId,
+                  serialNumbers.warehouseId,
+                  stockReservations.warehouseId,
+                  orders.warehouseId,
+                  orders.destinationWarehouseId,
+                  transfers.sourceWarehouseId,
+                  transfers.destinationWarehouseId,
+                  adjustments.warehouseId,
+                  countSessions.warehouseId,
+                  customers.defaultWarehouseId,
+                  users.defaultWarehouseId,
+                ])
+              )
+            )
+            .returning();
+          if (purged.length > 0) {
+            const purgedIds = purged.map((row) => row.id);
+            await this.removeWarehouseAssignments(tx, purgedIds);
+            await tx.delete(warehouseLocations).where(inArray(warehouseLocations.warehouseId, purgedIds));
+          }
+          break;
+        case "customer":
+          purged = await tx
+            .delete(customers)
+            .where(
+              and(
+                lt(customers.deletedAt, deletedBefore),
+                ...unreferenced(customers.id, [orders.customerId])
+              )
+            )
+            .returning();
+          if (purged.length > 0) {
+            const purgedIds = purged.map((row) => row.id);
+            await tx.delete(customerContacts).where(inArray(customerContacts.customerId, purgedIds));
+            await tx.delete(customerAddresses).where(inArray(customerAddresses.customerId, purgedIds));
+          }
+          break;
+        case "user":
+          // Kept for attribution: audit entries and created/updated-by columns refer to users
+          break;
+      }
+
+      for (const row of purged) {
+        await this.recordAudit(tx, entity, "PURGE", row, null);
+      }
+      return purged.length;
+    });
+  }
+
+  // Drops the purged warehouses from every user's assignments, audited per user like
+  // any other change to a user's warehouses
+  private async removeWarehouseAssignments(tx: DbTransaction, warehouseIds: string[]) {
+    const removed = await tx.delete(userWarehouses).where(inArray(userWarehouses.warehouseId, warehouseIds)).returning();
+    for (const userId of Array.from(new Set(removed.map((row) => row.userId)))) {
+      const remaining = await tx
+        .select({ warehouseId: userWarehouses.warehouseId })
+        .from(userWarehouses)
+        .where(eq(userWarehouses.userId, userId));
+      const after = remaining.map((row) => row.warehouseId).sort();
+      const before = [...after, ...removed.filter((row) => row.userId === userId).map((row) => row.warehouseId)].sort();
+      await this.recordAudit(tx, "user", "UPDATE", { id: userId, warehouseIds: before }, { id: userId, warehouseIds: after });
+    }
   }
 
   // Class Types
@@ -608,22 +3800,24 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Dashboard Data
-  async getInventoryValue(): Promise<number> {
-    const result = await db.execute(sql`
-      SELECT SUM(i.quantity * p.cost) as total_value
-      FROM ${inventory} i
-      JOIN ${products} p ON i.product_id = p.id
-      WHERE p.deleted_at IS NULL
-    `);
-
-    return result.rows[0]?.total_value || 0;
+  async getInventoryValue(scope?: WarehouseScope): Promise<number> {
+    const rows = await this.getValuationReport(new Date(), scope);
+    return rows.reduce((total, row) => total + Number(row.value), 0);
   }
 
-  async getLowStockItems(): Promise<{product: Product, inventory: Inventory}[]> {
+  async getLowStockItems(scope?: WarehouseScope): Promise<{product: Product, inventory: Inventory}[]> {
+    // Stock is split across locations, so compare the warehouse total against the reorder point
     const result = await db.execute(sql`
-      SELECT p.*, i.*
+      SELECT p.*, i.inventory_id, i.warehouse_id, i.quantity, i.reserved_quantity, i.last_count_date
       FROM ${products} p
-      JOIN ${inventory} i ON p.id = i.product_id
+      JOIN (
+        SELECT min(id) AS inventory_id, product_id, warehouse_id,
+          sum(quantity) AS quantity, sum(coalesce(reserved_quantity, 0)) AS reserved_quantity,
+          max(last_count_date) AS last_count_date
+        FROM ${inventory}
+        ${scope ? sql`WHERE ${inArray(inventory.warehouseId, scope)}` : sql``}
+        GROUP BY product_id, warehouse_id
+      ) i ON p.id = i.product_id
       WHERE p.deleted_at IS NULL
         AND i.quantity <= p.reorder_point
       ORDER BY p.name
@@ -650,6 +3844,10 @@ export class DatabaseStorage implements IStorage {
         isActive: row.is_active,
         imageUrl: row.image_url,
         barcode: row.barcode,
+        isLotControlled: row.is_lot_controlled,
+        isExpiryControlled: row.is_expiry_controlled,
+        isSerialized: row.is_serialized,
+        valuationMethod: row.valuation_method,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
         deletedAt: row.deleted_at,
@@ -659,12 +3857,13 @@ export class DatabaseStorage implements IStorage {
       };
 
       const inventory: Inventory = {
-        id: row.id,
-        productId: row.product_id,
+        id: row.inventory_id,
+        productId: row.id,
         warehouseId: row.warehouse_id,
         quantity: row.quantity,
         reservedQuantity: row.reserved_quantity,
-        location: row.location,
+        locationId: null,
+        lotId: null,
         lastCountDate: row.last_count_date,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
@@ -674,13 +3873,14 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
-  async getInventoryLevelsByCategory(): Promise<{category: string, value: number}[]> {
+  async getInventoryLevelsByCategory(scope?: WarehouseScope): Promise<{category: string, value: number}[]> {
     const result = await db.execute(sql`
       SELECT pc.category_name as category, SUM(i.quantity) as value
       FROM ${inventory} i
       JOIN ${products} p ON i.product_id = p.id
       LEFT JOIN ${productCategories} pc ON p.category_id = pc.category_id
       WHERE p.deleted_at IS NULL
+        ${scope ? sql`AND ${inArray(sql`i.warehouse_id`, scope)}` : sql``}
       GROUP BY pc.category_name
       ORDER BY value DESC
       LIMIT 5
@@ -0,0 +1,73 @@
+// Shared setup for the API tests (server/*.test.ts). They run against a real PostgreSQL
+// database and only when TEST_DATABASE_URL names a disposable one:
+//
+//   TEST_DATABASE_URL=postgres://... npm test
+//
+// Every run creates its own warehouses, products and users and leaves them behind.
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomBytes } from "crypto";
+import { ROLE_PERMISSIONS, type Role } from "@shared/permissions";
+
+export const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+// Passed as the `skip` option of a suite
+export const withoutTestDatabase = !TEST_DATABASE_URL && "TEST_DATABASE_URL is not set";
+
+export async function startTestApp() {
+  // The database modules read DATABASE_URL when they are first imported
+  process.env.DATABASE_URL = TEST_DATABASE_URL;
+  const { storage } = await import("./storage");
+  const { pool } = await import("./db");
+  const { registerRoutes } = await import("./routes");
+  const { hashPassword } = await import("./auth");
+  const { issueApiToken } = await import("./api-tokens");
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Unique per call, so names and codes never collide with an earlier run
+  const uniqueSuffix = () => randomBytes(4).toString("hex").toUpperCase();
+
+  // A user of the role with an API token carrying all of the role's permissions.
+  // Roles other than ADMIN see only `warehouseIds`.
+  const createUser = async (role: Role, warehouseIds: string[] = []) => {
+    const suffix = uniqueSuffix();
+    const user = await storage.createUser({
+      username: `test-${suffix}`.toLowerCase(),
+      password: await hashPassword(randomBytes(16).toString("hex")),
+      email: `test-${suffix}@example.test`.toLowerCase(),
+      firstName: "Test",
+      lastName: role,
+      role,
+      isAdmin: role === "ADMIN",
+    });
+    if (role !== "ADMIN") {
+      await storage.setUserWarehouses(user.id, warehouseIds);
+    }
+    const issued = await issueApiToken(user, { name: "API test", permissions: ROLE_PERMISSIONS[role] }, null);
+    if (!("token" in issued)) throw new Error(issued.error);
+    return { user, token: issued.token };
+  };
+
+  const request = (token: string, method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}`, ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+  const close = async () => {
+    await new Promise((resolve) => server.close(resolve));
+    storage.sessionStore.close();
+    await pool.end();
+  };
+
+  return { storage, baseUrl, uniqueSuffix, createUser, request, close };
+}
+
+export type TestApp = Awaited<ReturnType<typeof startTestApp>>;
@@ -0,0 +1,76 @@
+// Receiving transfers. Needs the database described in test-app.ts.
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { TransferWithLines } from "@shared/schema";
+import { startTestApp, withoutTestDatabase, type TestApp } from "./test-app";
+
+describe("POST /api/transfers/:id/receive", { skip: withoutTestDatabase }, () => {
+  let app: TestApp;
+  let token: string;
+  let sourceId: string;
+  let destinationId: string;
+  let productId: number;
+
+  const onHand = async (warehouseId: string) => {
+    const balances = await app.storage.getInventoryByProduct(productId);
+    return balances.filter((balance) => balance.warehouseId === warehouseId).reduce((total, balance) => total + Number(balance.quantity), 0);
+  };
+
+  // A transfer of `quantity` that has left the source
+  const dispatched = async (quantity: number): Promise<TransferWithLines> => {
+    const created = await app.request(token, "POST", "/api/transfers", {
+      sourceWarehouseId: sourceId,
+      destinationWarehouseId: destinationId,
+      lines: [{ productId, quantity }],
+    });
+    assert.equal(created.status, 201);
+    const transfer: TransferWithLines = await created.json();
+    const response = await app.request(token, "POST", `/api/transfers/${transfer.id}/dispatch`);
+    assert.equal(response.status, 200);
+    return response.json();
+  };
+
+  const receive = (transfer: TransferWithLines, quantity: number) =>
+    app.request(token, "POST", `/api/transfers/${transfer.id}/receive`, {
+      lines: [{ lineId: transfer.lines[0].id, quantity }],
+    });
+
+  before(async () => {
+    app = await startTestApp();
+    const suffix = app.uniqueSuffix();
+    sourceId = (await app.storage.createWarehouse({ id: `S${suffix}`, name: `Transfer source ${suffix}` })).id;
+    destinationId = (await app.storage.createWarehouse({ id: `D${suffix}`, name: `Transfer destination ${suffix}` })).id;
+    productId = (await app.storage.createProduct({ sku: `TRF-${suffix}`, name: `Transfer test ${suffix}`, cost: "1.00" })).id;
+    ({ token } = await app.createUser("ADMIN"));
+    const received = await app.request(token, "POST", "/api/stock-movements", { productId, warehouseId: sourceId, direction: "IN", quantity: 20 });
+    assert.equal(received.status, 201);
+  });
+
+  after(async () => {
+    await app?.close();
+  });
+
+  it("rejects receiving more than was dispatched and leaves the transfer unchanged", async () => {
+    const transfer = await dispatched(5);
+    const destinationBefore = await onHand(destinationId);
+
+    const over = await receive(transfer, 6);
+    assert.equal(over.status, 409);
+    const unchanged = await app.storage.getTransfer(transfer.id);
+    assert.equal(unchanged?.status, "IN_TRANSIT");
+    assert.equal(Number(unchanged?.lines[0].receivedQuantity), 0);
+    assert.equal(await onHand(destinationId), destinationBefore);
+  });
+
+  it("counts earlier partial receipts against what is still in transit", async () => {
+    const transfer = await dispatched(5);
+    const destinationBefore = await onHand(destinationId);
+
+    assert.equal((await receive(transfer, 3)).status, 200);
+    assert.equal((await receive(transfer, 3)).status, 409);
+    const rest = await receive(transfer, 2);
+    assert.equal(rest.status, 200);
+    assert.equal((await rest.json()).status, "RECEIVED");
+    assert.equal(await onHand(destinationId), destinationBefore + 5);
+  });
+});
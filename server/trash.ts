@@ -0,0 +1,58 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+// Entities whose DELETE only stamps deletedAt/deletedBy. The row disappears from
+// normal reads but stays in the trash, restorable, until the purge job removes it.
+export const SOFT_DELETE_ENTITIES = [
+  "product",
+  "product_category",
+  "unit_of_measure",
+  "warehouse",
+  "customer",
+  "user",
+] as const;
+
+export type SoftDeleteEntity = typeof SOFT_DELETE_ENTITIES[number];
+
+// Users are never purged: audit entries and createdBy/updatedBy columns keep pointing at them
+const PURGEABLE_ENTITIES: SoftDeleteEntity[] = ["product", "product_category", "unit_of_measure", "warehouse", "customer"];
+
+export const trashSettings = {
+  // Soft-deleted rows older than this are removed permanently
+  retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || "90"),
+  purgeIntervalMs: parseInt(process.env.TRASH_PURGE_INTERVAL_HOURS || "24") * 60 * 60 * 1000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Permanently removes trash past the retention window. Rows something still
+// refers to are kept and retried on the next run.
+export async function purgeExpiredTrash(now: Date = new Date()) {
+  const deletedBefore = new Date(now.getTime() - trashSettings.retentionDays * DAY_MS);
+  const purged: Partial<Record<SoftDeleteEntity, number>> = {};
+  for (const entity of PURGEABLE_ENTITIES) {
+    purged[entity] = await storage.purgeDeleted(entity, deletedBefore);
+  }
+  return purged;
+}
+
+export function startTrashPurgeJob() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      const summary = Object.entries(purged)
+        .filter(([, count]) => count && count > 0)
+        .map(([entity, count]) => `${count} ${entity}`)
+        .join(", ");
+      if (summary) {
+        log(`purged ${summary}`, "trash");
+      }
+    } catch (err) {
+      log(`purge failed: ${err instanceof Error ? err.message : err}`, "trash");
+    }
+  };
+
+  run();
+  // Must not keep the process alive on its own
+  setInterval(run, trashSettings.purgeIntervalMs).unref();
+}
@@ -0,0 +1,66 @@
+import { createHash, randomBytes } from "crypto";
+import { User as SelectUser } from "@shared/schema";
+import { getEffectiveRole, isRole, type Role } from "@shared/permissions";
+import { storage } from "./storage";
+import { verifyTotp } from "./totp";
+
+declare module "express-session" {
+  interface SessionData {
+    // Set after a correct password for a user with 2FA; cleared once the second step succeeds
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+  }
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+export const twoFactorSettings = {
+  issuer: process.env.TWO_FACTOR_ISSUER || "WMS System",
+  pendingLoginTtlMs: 1000 * 60 * 5, // 5 minutes to enter the code
+  // Comma-separated roles that must enroll, e.g. TWO_FACTOR_REQUIRED_ROLES=ADMIN,WAREHOUSE_MANAGER
+  requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES || "")
+    .split(",")
+    .map((role) => role.trim())
+    .filter(isRole) as Role[],
+};
+
+export function isTwoFactorRequired(user: Pick<SelectUser, "role" | "isAdmin">) {
+  return twoFactorSettings.requiredRoles.includes(getEffectiveRole(user));
+}
+
+// Users whose role requires 2FA but who have not enrolled yet
+export function needsTwoFactorSetup(user: Pick<SelectUser, "role" | "isAdmin" | "twoFactorEnabled">) {
+  return isTwoFactorRequired(user) && !user.twoFactorEnabled;
+}
+
+function hashRecoveryCode(code: string) {
+  return createHash("sha256").update(code.trim().toLowerCase()).digest("hex");
+}
+
+// Issues a fresh set of recovery codes, replacing any previous ones
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// Accepts a TOTP code from the secret (each time step only once) or an unused recovery code
+export async function verifySecondFactor(
+  user: SelectUser,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string },
+): Promise<boolean> {
+  if (!user.twoFactorSecret) return false;
+
+  if (code) {
+    const counter = verifyTotp(user.twoFactorSecret, code);
+    return counter !== null && (await storage.recordTwoFactorCounter(user.id, counter));
+  }
+
+  if (recoveryCode) {
+    return storage.useRecoveryCode(user.id, hashRecoveryCode(recoveryCode));
+  }
+
+  return false;
+}
@@ -0,0 +1,15 @@
+import { VALUATION_METHODS, type ValuationMethod } from "@shared/schema";
+
+function envMethod(name: string, fallback: ValuationMethod): ValuationMethod {
+  const value = process.env[name];
+  return VALUATION_METHODS.find((method) => method === value) ?? fallback;
+}
+
+export const valuationSettings = {
+  // Company-wide costing method, used by every product without its own
+  defaultMethod: envMethod("INVENTORY_VALUATION_METHOD", "FIFO"),
+};
+
+export function effectiveValuationMethod(product: { valuationMethod: ValuationMethod | null }): ValuationMethod {
+  return product.valuationMethod ?? valuationSettings.defaultMethod;
+}
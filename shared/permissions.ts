@@ -0,0 +1,97 @@
+// Roles and permissions shared between the API and the client
+
+export const ROLES = [
+  "ADMIN",
+  "WAREHOUSE_MANAGER",
+  "CLERK",
+  "VIEWER",
+  "AUDITOR",
+] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  ADMIN: "Administrator",
+  WAREHOUSE_MANAGER: "Warehouse Manager",
+  CLERK: "Clerk",
+  VIEWER: "Viewer",
+  AUDITOR: "Auditor",
+};
+
+export const PERMISSIONS = [
+  "dashboard.view",
+  "products.view",
+  "products.manage",
+  "inventory.view",
+  "inventory.adjust",
+  "inventory.approve",
+  "orders.view",
+  "orders.create",
+  "orders.approve",
+  "customers.view",
+  "customers.manage",
+  "warehouses.view",
+  "warehouses.manage",
+  "users.view",
+  "users.manage",
+  "audit.view",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const VIEW_PERMISSIONS: Permission[] = [
+  "dashboard.view",
+  "products.view",
+  "inventory.view",
+  "orders.view",
+  "customers.view",
+  "warehouses.view",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  ADMIN: [...PERMISSIONS],
+  WAREHOUSE_MANAGER: [
+    ...VIEW_PERMISSIONS,
+    "products.manage",
+    "inventory.adjust",
+    "inventory.approve",
+    "orders.create",
+    "orders.approve",
+    "customers.manage",
+    "warehouses.manage",
+    "users.view",
+    "audit.view",
+  ],
+  CLERK: [
+    ...VIEW_PERMISSIONS,
+    "inventory.adjust",
+    "orders.create",
+  ],
+  VIEWER: [...VIEW_PERMISSIONS],
+  AUDITOR: [
+    ...VIEW_PERMISSIONS,
+    "users.view",
+    "audit.view",
+  ],
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+// Users flagged with isAdmin keep full access regardless of their role
+export function getEffectiveRole(user: { role?: string | null; isAdmin?: boolean | null }): Role {
+  if (user.isAdmin) return "ADMIN";
+  return isRole(user.role) ? user.role : "VIEWER";
+}
+
+export function getPermissionsForUser(user: { role?: string | null; isAdmin?: boolean | null }): Permission[] {
+  return ROLE_PERMISSIONS[getEffectiveRole(user)];
+}
+
+export function hasPermission(
+  user: { role?: string | null; isAdmin?: boolean | null },
+  permission: Permission,
+): boolean {
+  return getPermissionsForUser(user).includes(permission);
+}
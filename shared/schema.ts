@@ -13,11 +13,15 @@ import {
   bigserial,
   bigint,
   primaryKey,
-  uniqueIndex
+  uniqueIndex,
+  unique,
+  index,
+  customType
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { Permission } from "./permissions";
 
 // Users table
 export const users = pgTable("users", {
@@ -40,12 +44,117 @@ export const users = pgTable("users", {
   defaultWarehouseId: varchar("default_warehouse_id", { length: 10 }),
   isActive: boolean("is_active").default(true),
   isAdmin: boolean("is_admin").default(false),
+  role: varchar("role", { length: 30 }).notNull().default("VIEWER"), // ADMIN, WAREHOUSE_MANAGER, CLERK, VIEWER, AUDITOR
   lastLogin: timestamp("last_login"),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  twoFactorEnabled: boolean("two_factor_enabled").notNull().default(false),
+  twoFactorSecret: varchar("two_factor_secret", { length: 64 }), // base32; pending until twoFactorEnabled
+  twoFactorLastCounter: bigint("two_factor_last_counter", { mode: "number" }), // last accepted TOTP step, blocks replays
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"),
+});
+
+// Previous password hashes, used to prevent password reuse
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Single-use password reset tokens; only the SHA-256 hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: integer("created_by"), // set when an admin initiated the reset
 });
 
+// Two-factor recovery codes; only the SHA-256 hash of each code is stored
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  codeHash: varchar("code_hash", { length: 64 }).notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Bearer tokens for scanners and integrations; only the SHA-256 hash is stored.
+// A token can never exceed its owner: permissions and warehouseIds only narrow
+// what the owner may do, and a null warehouseIds means the owner's own scope.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  tokenPrefix: varchar("token_prefix", { length: 16 }).notNull(), // shown in lists to tell tokens apart
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull(),
+  warehouseIds: jsonb("warehouse_ids").$type<string[]>(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: varchar("last_used_ip", { length: 45 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Field-level changes recorded by the audit log, keyed by column name
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Append-only trail of every create/update/delete made through storage.
+// Storage only ever inserts into this table; rows are never updated or removed.
+export const auditLog = pgTable("audit_log", {
+  id: bigserial("id", { mode: "number" }).primaryKey(),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(),
+  actorId: integer("actor_id"), // null for writes outside a signed-in request, e.g. self-registration
+  apiTokenId: integer("api_token_id"), // set when the write came through an API token
+  ip: varchar("ip", { length: 45 }),
+  entityType: varchar("entity_type", { length: 30 }).notNull(),
+  entityId: varchar("entity_id", { length: 50 }).notNull(),
+  action: varchar("action", { length: 10 }).notNull(), // CREATE, UPDATE, DELETE, RESTORE, PURGE
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  // Warehouses the changed row belongs to, so scoped users only see their own; null for master data
+  warehouseIds: jsonb("warehouse_ids").$type<string[]>(),
+}, (table) => ({
+  entityIdx: index("audit_log_entity_idx").on(table.entityType, table.entityId),
+  occurredAtIdx: index("audit_log_occurred_at_idx").on(table.occurredAt),
+}));
+
+// Warehouses a user may access; admins are not restricted
+export const userWarehouses = pgTable("user_warehouses", {
+  userId: integer("user_id").notNull(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: integer("created_by"),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.userId, table.warehouseId] }),
+}));
+
+// What an OUT movement may do when it exceeds the quantity on hand:
+// BLOCK rejects it, WARN posts it and reports the shortfall, ALLOW posts it silently
+export const NEGATIVE_STOCK_POLICIES = ["BLOCK", "WARN", "ALLOW"] as const;
+export type NegativeStockPolicy = typeof NEGATIVE_STOCK_POLICIES[number];
+
+// How outgoing stock is costed. FIFO takes the oldest receipts first, MOVING_AVERAGE
+// re-averages the cost on every receipt, STANDARD receives everything at the product's cost.
+export const VALUATION_METHODS = ["FIFO", "MOVING_AVERAGE", "STANDARD"] as const;
+export type ValuationMethod = typeof VALUATION_METHODS[number];
+
+// An OUT quantity not covered by stock on hand, reported per product and warehouse
+export type StockShortfall = {
+  productId: number;
+  warehouseId: string;
+  requested: number;
+  available: number; // on hand less what is reserved for orders
+  shortfall: number;
+  policy: NegativeStockPolicy;
+};
+
 export const warehouses = pgTable("warehouses", {
   id: varchar("warehouse_id", { length: 10 }).primaryKey(),
   name: varchar("name", { length: 100 }).notNull(),
@@ -58,12 +167,44 @@ export const warehouses = pgTable("warehouses", {
   contactName: varchar("contact_name", { length: 100 }),
   contactEmail: varchar("contact_email", { length: 100 }),
   contactPhone: varchar("contact_phone", { length: 20 }),
+  negativeStockPolicy: varchar("negative_stock_policy", { length: 10 }).$type<NegativeStockPolicy>().notNull().default("BLOCK"),
+  // A count line above either threshold needs approval before its variance is posted; null disables that check
+  countApprovalValue: decimal("count_approval_value", { precision: 12, scale: 2 }),
+  countApprovalPercent: decimal("count_approval_percent", { precision: 5, scale: 2 }),
+  // Adjustments worth more than this wait for a manager's approval; null posts them all straight away
+  adjustmentApprovalValue: decimal("adjustment_approval_value", { precision: 12, scale: 2 }),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"),
 });
 
+// Storage hierarchy inside a warehouse, outermost first. Each level's parent is the level before it.
+export const LOCATION_LEVELS = ["ZONE", "AISLE", "RACK", "SHELF", "BIN"] as const;
+export type LocationLevel = typeof LOCATION_LEVELS[number];
+
+export const LOCATION_TYPES = ["PICK", "BULK", "STAGING", "QUARANTINE"] as const;
+export type LocationType = typeof LOCATION_TYPES[number];
+
+export const warehouseLocations = pgTable("warehouse_locations", {
+  id: serial("id").primaryKey(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  parentId: integer("parent_id"),
+  level: varchar("level", { length: 10 }).$type<LocationLevel>().notNull(),
+  code: varchar("code", { length: 20 }).notNull(),
+  path: varchar("path", { length: 120 }).notNull(), // parent path and code joined with "-", e.g. A-01-03-2-B
+  name: varchar("name", { length: 100 }),
+  locationType: varchar("location_type", { length: 20 }).$type<LocationType>().notNull().default("PICK"),
+  capacity: decimal("capacity", { precision: 10, scale: 2 }), // units the location holds; null when not tracked
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  warehousePathIdx: uniqueIndex("warehouse_locations_path_idx").on(table.warehouseId, table.path),
+  parentIdx: index("warehouse_locations_parent_idx").on(table.parentId),
+}));
+
 export const unitsOfMeasure = pgTable("units_of_measure", {
   id: varchar("uom_id", { length: 10 }).primaryKey(),
   name: varchar("uom_name", { length: 50 }).notNull(),
@@ -148,6 +289,7 @@ export const productCategories = pgTable("product_categories", {
   inventoryType: varchar("inventory_type", { length: 20 }).default("PHYSICAL"),
   taxClass: varchar("tax_class", { length: 50 }),
   transactionCount: decimal("transaction_count", { precision: 10, scale: 0 }),
+  negativeStockPolicy: varchar("negative_stock_policy", { length: 10 }).$type<NegativeStockPolicy>(), // overrides the warehouse policy when set
   customAttributes: jsonb("custom_attributes"),
   createdAt: timestamp("create_date").defaultNow(),
   updatedAt: timestamp("update_date").defaultNow(),
@@ -177,6 +319,10 @@ export const products = pgTable("products", {
   isActive: boolean("is_active").default(true),
   imageUrl: varchar("image_url", { length: 255 }),
   barcode: varchar("barcode", { length: 50 }),
+  isLotControlled: boolean("is_lot_controlled").notNull().default(false), // every movement names a lot
+  isExpiryControlled: boolean("is_expiry_controlled").notNull().default(false), // every lot carries an expiry date
+  isSerialized: boolean("is_serialized").notNull().default(false), // every unit carries its own serial number
+  valuationMethod: varchar("valuation_method", { length: 20 }).$type<ValuationMethod>(), // overrides the company-wide method when set
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   deletedAt: timestamp("deleted_at"),
@@ -185,37 +331,320 @@ export const products = pgTable("products", {
   deletedBy: integer("deleted_by"),
 });
 
+// A batch of one product. Created by the first IN movement that names it; its
+// expiry date is fixed from then on.
+export const lots = pgTable("lots", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  lotNumber: varchar("lot_number", { length: 50 }).notNull(),
+  expiryDate: date("expiry_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productLotIdx: uniqueIndex("lots_product_lot_idx").on(table.productId, table.lotNumber),
+}));
+
+export const SERIAL_STATUSES = ["IN_STOCK", "SHIPPED"] as const;
+export type SerialStatus = typeof SERIAL_STATUSES[number];
+
+// One unit of a serialized product. Created by the first IN movement that names
+// it and then follows the unit: warehouse, location and lot are where it is now.
+export const serialNumbers = pgTable("serial_numbers", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  serialNumber: varchar("serial_number", { length: 100 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("IN_STOCK"),
+  warehouseId: varchar("warehouse_id", { length: 10 }), // last warehouse it was in; kept after shipping
+  locationId: integer("location_id"),
+  lotId: integer("lot_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  productSerialIdx: uniqueIndex("serial_numbers_product_serial_idx").on(table.productId, table.serialNumber),
+}));
+
 export const inventory = pgTable("inventory", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull(),
   warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("0"),
   reservedQuantity: decimal("reserved_quantity", { precision: 10, scale: 2 }).default("0"),
-  location: varchar("location", { length: 50 }),
+  locationId: integer("location_id"), // null for stock not yet put away; order reservations are held here too
+  lotId: integer("lot_id"), // null for stock not tracked by lot
   lastCountDate: timestamp("last_count_date"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  // One balance row per product, location (or unassigned) and lot in a warehouse; movement posting upserts against it
+  productLocationKey: unique("inventory_product_location_key")
+    .on(table.productId, table.warehouseId, table.locationId, table.lotId)
+    .nullsNotDistinct(),
+}));
 
 export const stockMovements = pgTable("stock_movements", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull(),
   warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
-  direction: varchar("direction", { length: 10 }).notNull(), // IN, OUT
-  referenceType: varchar("reference_type", { length: 50 }), // ORDER, ADJUSTMENT, TRANSFER
+  direction: varchar("direction", { length: 10 }).notNull(), // IN, OUT, MOVE (between locations of one warehouse)
+  fromLocationId: integer("from_location_id"), // OUT and MOVE; null takes unassigned stock
+  toLocationId: integer("to_location_id"), // IN and MOVE; null leaves the stock unassigned
+  lotId: integer("lot_id"),
+  // IN: cost of each received unit; OUT: cost of goods taken from the cost layers. Null for MOVE.
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }),
+  totalCost: decimal("total_cost", { precision: 14, scale: 2 }),
+  referenceType: varchar("reference_type", { length: 50 }), // ORDER, TRANSFER, ADJUSTMENT, COUNT; MANUAL when entered by hand
   referenceId: varchar("reference_id", { length: 50 }),
   notes: text("notes"),
+  idempotencyKey: varchar("idempotency_key", { length: 100 }).unique(), // client-chosen; a retry with the same key returns the original movement
   createdAt: timestamp("created_at").defaultNow(),
   createdBy: integer("created_by"),
 });
 
+// The units a movement of a serialized product carried; a serial's history is the movements linked here
+export const stockMovementSerials = pgTable("stock_movement_serials", {
+  movementId: integer("movement_id").notNull(),
+  serialId: integer("serial_id").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.movementId, table.serialId] }),
+}));
+
+// Stock received by one IN movement and not yet consumed, per warehouse. OUT movements
+// consume layers oldest first; under moving average all open layers share one cost.
+export const costLayers = pgTable("cost_layers", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  movementId: integer("movement_id").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  remainingQuantity: decimal("remaining_quantity", { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  productWarehouseIdx: index("cost_layers_product_warehouse_idx").on(table.productId, table.warehouseId),
+}));
+
+// FULL counts the whole warehouse; the others count one location subtree, one
+// category or one ABC class (products ranked by the value of their stock)
+export const COUNT_SCOPES = ["FULL", "LOCATION", "CATEGORY", "ABC"] as const;
+export type CountScope = typeof COUNT_SCOPES[number];
+
+export const ABC_CLASSES = ["A", "B", "C"] as const;
+export type AbcClass = typeof ABC_CLASSES[number];
+
+// COUNTING -> POSTED, or COUNTING -> PENDING_APPROVAL -> POSTED when a variance exceeds the
+// warehouse thresholds. Either open status can be CANCELLED.
+export const COUNT_STATUSES = ["COUNTING", "PENDING_APPROVAL", "POSTED", "CANCELLED"] as const;
+export type CountStatus = typeof COUNT_STATUSES[number];
+
+export const countSessions = pgTable("count_sessions", {
+  id: serial("id").primaryKey(),
+  sessionNumber: varchar("session_number", { length: 20 }).notNull().unique(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  scope: varchar("scope", { length: 10 }).notNull().$type<CountScope>(),
+  locationId: integer("location_id"), // LOCATION scope: this location and everything below it
+  categoryId: integer("category_id"), // CATEGORY scope
+  abcClass: varchar("abc_class", { length: 1 }).$type<AbcClass>(), // ABC scope
+  status: varchar("status", { length: 20 }).notNull().default("COUNTING").$type<CountStatus>(),
+  notes: text("notes"),
+  varianceValue: decimal("variance_value", { precision: 12, scale: 2 }), // net, set when counting is submitted
+  submittedAt: timestamp("submitted_at"),
+  approvedAt: timestamp("approved_at"),
+  approvedBy: integer("approved_by"),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: integer("created_by"),
+  updatedBy: integer("updated_by"),
+});
+
+// One balance row in the count. Expected quantity and unit cost are frozen when the session starts.
+export const countLines = pgTable("count_lines", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  productId: integer("product_id").notNull(),
+  locationId: integer("location_id"),
+  lotId: integer("lot_id"),
+  expectedQuantity: decimal("expected_quantity", { precision: 10, scale: 2 }).notNull(),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull().default("0"),
+  countedQuantity: decimal("counted_quantity", { precision: 10, scale: 2 }), // latest entry; null until counted
+  // Set at submit: counted minus what was on hand when the line was counted. This is what gets approved and posted.
+  varianceQuantity: decimal("variance_quantity", { precision: 10, scale: 2 }),
+  requiresApproval: boolean("requires_approval").notNull().default(false),
+});
+
+// Every count recorded against a line, so recounts and second counters stay visible
+export const countEntries = pgTable("count_entries", {
+  id: serial("id").primaryKey(),
+  lineId: integer("line_id").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  countedBy: integer("counted_by"),
+  countedAt: timestamp("counted_at").defaultNow(),
+});
+
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
+// Managed list of why stock is adjusted; deactivated reasons stay on old documents
+export const adjustmentReasons = pgTable("adjustment_reasons", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 30 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Installed when the list is first read
+export const DEFAULT_ADJUSTMENT_REASONS = [
+  { code: "PHYSICAL_COUNT", name: "Physical Count" },
+  { code: "DAMAGE", name: "Damage/Loss" },
+  { code: "EXPIRY", name: "Expiration" },
+  { code: "RETURN", name: "Customer Return" },
+  { code: "CORRECTION", name: "System Correction" },
+  { code: "OTHER", name: "Other" },
+];
+
+// PENDING_APPROVAL -> POSTED or REJECTED; documents under the warehouse threshold are POSTED on creation
+export const ADJUSTMENT_STATUSES = ["PENDING_APPROVAL", "POSTED", "REJECTED"] as const;
+export type AdjustmentStatus = typeof ADJUSTMENT_STATUSES[number];
+
+export const adjustments = pgTable("adjustments", {
+  id: serial("id").primaryKey(),
+  adjustmentNumber: varchar("adjustment_number", { length: 20 }).notNull().unique(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  reasonCode: varchar("reason_code", { length: 30 }).notNull(),
+  notes: text("notes"),
+  status: varchar("status", { length: 20 }).notNull().$type<AdjustmentStatus>(),
+  totalValue: decimal("total_value", { precision: 12, scale: 2 }).notNull().default("0"), // sum of |quantity| x unit cost
+  rejectionReason: text("rejection_reason"),
+  idempotencyKey: varchar("idempotency_key", { length: 100 }).unique(), // a retried submission returns the original document
+  payloadHash: varchar("payload_hash", { length: 64 }), // sha256 of the submission, compared when its key is retried
+  approvedAt: timestamp("approved_at"),
+  approvedBy: integer("approved_by"),
+  postedAt: timestamp("posted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: integer("created_by"),
+  updatedBy: integer("updated_by"),
+});
+
+export const adjustmentLines = pgTable("adjustment_lines", {
+  id: serial("id").primaryKey(),
+  adjustmentId: integer("adjustment_id").notNull(),
+  productId: integer("product_id").notNull(),
+  direction: varchar("direction", { length: 10 }).notNull(), // IN or OUT
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  locationId: integer("location_id"),
+  lotNumber: varchar("lot_number", { length: 50 }), // resolved when the line is posted
+  expiryDate: date("expiry_date"),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull().default("0"), // product cost when the document was created
+});
+
+// Supporting files (photos, count sheets); the content is only read by the download endpoint
+export const adjustmentAttachments = pgTable("adjustment_attachments", {
+  id: serial("id").primaryKey(),
+  adjustmentId: integer("adjustment_id").notNull(),
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  size: integer("size").notNull(),
+  content: bytea("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: integer("created_by"),
+});
+
+export const PAYMENT_TERMS = ["PREPAID", "DUE_ON_RECEIPT", "NET_15", "NET_30", "NET_60"] as const;
+export type PaymentTerms = typeof PAYMENT_TERMS[number];
+
+export const CUSTOMER_ADDRESS_TYPES = ["SHIPPING", "BILLING"] as const;
+export type CustomerAddressType = typeof CUSTOMER_ADDRESS_TYPES[number];
+
+export const customers = pgTable("customers", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 20 }).notNull().unique(),
+  name: varchar("name", { length: 100 }).notNull(),
+  taxId: varchar("tax_id", { length: 50 }),
+  paymentTerms: varchar("payment_terms", { length: 20 }).$type<PaymentTerms>().notNull().default("NET_30"),
+  creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }), // null: no limit
+  defaultWarehouseId: varchar("default_warehouse_id", { length: 10 }), // new orders are fulfilled here unless given one
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: integer("deleted_by"),
+});
+
+export const customerContacts = pgTable("customer_contacts", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  role: varchar("role", { length: 50 }),
+  email: varchar("email", { length: 100 }),
+  phone: varchar("phone", { length: 20 }),
+  isPrimary: boolean("is_primary").notNull().default(false),
+}, (table) => ({
+  customerIdx: index("customer_contacts_customer_idx").on(table.customerId),
+}));
+
+// A customer has any number of shipping and billing addresses; the default of each
+// type is copied onto new orders
+export const customerAddresses = pgTable("customer_addresses", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  addressType: varchar("address_type", { length: 10 }).$type<CustomerAddressType>().notNull(),
+  label: varchar("label", { length: 50 }),
+  address: text("address").notNull(),
+  city: varchar("city", { length: 50 }),
+  state: varchar("state", { length: 50 }),
+  country: varchar("country", { length: 50 }),
+  postalCode: varchar("postal_code", { length: 20 }),
+  isDefault: boolean("is_default").notNull().default(false),
+}, (table) => ({
+  customerIdx: index("customer_addresses_customer_idx").on(table.customerId),
+}));
+
+export const ORDER_STATUSES = ["DRAFT", "PENDING", "PROCESSING", "SHIPPED", "COMPLETED", "CANCELLED"] as const;
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// OUTBOUND and TRANSFER orders ship stock out of their warehouse; INBOUND and RETURN
+// orders receive into it. A TRANSFER is received into its destination warehouse.
+export const ORDER_TYPES = ["INBOUND", "OUTBOUND", "TRANSFER", "RETURN"] as const;
+export type OrderType = typeof ORDER_TYPES[number];
+
+// Statuses an order can be created in; it only reaches the others through transitions
+export const ORDER_INITIAL_STATUSES = ["DRAFT", "PENDING", "PROCESSING"] as const;
+
+// The order lifecycle: the statuses each status may move to. Anything else is rejected.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  DRAFT: ["PENDING", "PROCESSING", "CANCELLED"],
+  PENDING: ["PROCESSING", "CANCELLED"],
+  PROCESSING: ["SHIPPED", "CANCELLED"],
+  SHIPPED: ["COMPLETED"],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// Orders whose header and lines may be edited. A PROCESSING order can only be edited
+// under a manager override, which is recorded in its status history.
+export const EDITABLE_ORDER_STATUSES: OrderStatus[] = ["DRAFT", "PENDING"];
+
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   orderNumber: varchar("order_number", { length: 20 }).notNull().unique(),
-  customerId: integer("customer_id"),
+  customerId: integer("customer_id"), // references customers
   orderDate: timestamp("order_date").defaultNow(),
-  status: varchar("status", { length: 20 }).notNull(), // DRAFT, PENDING, PROCESSING, SHIPPED, COMPLETED, CANCELLED
+  status: varchar("status", { length: 20 }).$type<OrderStatus>().notNull(), // changed only through ORDER_STATUS_TRANSITIONS
+  orderType: varchar("order_type", { length: 20 }).$type<OrderType>().notNull().default("OUTBOUND"),
+  warehouseId: varchar("warehouse_id", { length: 10 }), // fulfils the order; stock is reserved here
+  destinationWarehouseId: varchar("destination_warehouse_id", { length: 10 }), // TRANSFER orders only
+  // Computed from the lines by the server; never taken from the client
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }),
   notes: text("notes"),
   shippingAddress: text("shipping_address"),
@@ -232,10 +661,77 @@ export const orderItems = pgTable("order_items", {
   productId: integer("product_id").notNull(),
   quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
-  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  discountPercent: decimal("discount_percent", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent, applied after the discount
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(), // after discount, including tax
+  notes: text("notes"),
+});
+
+// One row per status an order entered, including the one it was created in
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  fromStatus: varchar("from_status", { length: 20 }).$type<OrderStatus>(), // null when the order was created
+  toStatus: varchar("to_status", { length: 20 }).$type<OrderStatus>().notNull(),
+  note: text("note"),
+  changedAt: timestamp("changed_at").defaultNow(),
+  changedBy: integer("changed_by"),
+}, (table) => ({
+  orderIdx: index("order_status_history_order_idx").on(table.orderId),
+}));
+
+// Stock held for an order line. inventory.reservedQuantity is the sum of the ACTIVE
+// rows; a reservation ends RELEASED when the order is cancelled or CONSUMED when it ships.
+export const stockReservations = pgTable("stock_reservations", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  orderItemId: integer("order_item_id").notNull(),
+  productId: integer("product_id").notNull(),
+  warehouseId: varchar("warehouse_id", { length: 10 }).notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(),
+  status: varchar("status", { length: 10 }).notNull().default("ACTIVE"), // ACTIVE, RELEASED, CONSUMED
+  createdAt: timestamp("created_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+}, (table) => ({
+  orderIdx: index("stock_reservations_order_idx").on(table.orderId),
+}));
+
+export const TRANSFER_STATUSES = ["DRAFT", "IN_TRANSIT", "RECEIVED"] as const;
+export type TransferStatus = typeof TRANSFER_STATUSES[number];
+
+// Stock moving between warehouses. Dispatch posts OUT movements at the source,
+// each receipt posts IN movements at the destination; until then the difference
+// is in transit and counts toward neither warehouse's on-hand.
+export const transfers = pgTable("transfers", {
+  id: serial("id").primaryKey(),
+  transferNumber: varchar("transfer_number", { length: 20 }).notNull().unique(),
+  sourceWarehouseId: varchar("source_warehouse_id", { length: 10 }).notNull(),
+  destinationWarehouseId: varchar("destination_warehouse_id", { length: 10 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("DRAFT").$type<TransferStatus>(),
   notes: text("notes"),
+  dispatchedAt: timestamp("dispatched_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: integer("created_by"),
+  updatedBy: integer("updated_by"),
 });
 
+export const transferLines = pgTable("transfer_lines", {
+  id: serial("id").primaryKey(),
+  transferId: integer("transfer_id").notNull(),
+  productId: integer("product_id").notNull(),
+  lotId: integer("lot_id"), // set at dispatch; a line picked from several lots is split into one line per lot
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull(), // dispatched
+  receivedQuantity: decimal("received_quantity", { precision: 10, scale: 2 }).notNull().default("0"),
+  unitCost: decimal("unit_cost", { precision: 12, scale: 4 }), // cost taken out of the source at dispatch, booked into the destination
+  discrepancyNotes: text("discrepancy_notes"), // why received differs from dispatched, recorded at receipt
+}, (table) => ({
+  transferIdx: index("transfer_lines_transfer_idx").on(table.transferId),
+}));
+
 // Define relationships
 export const productsRelations = relations(products, ({ one, many }) => ({
   category: one(productCategories, {
@@ -318,6 +814,17 @@ export const unitsOfMeasureRelations = relations(unitsOfMeasure, ({ one, many })
   products: many(products),
 }));
 
+export const userWarehousesRelations = relations(userWarehouses, ({ one }) => ({
+  user: one(users, {
+    fields: [userWarehouses.userId],
+    references: [users.id],
+  }),
+  warehouse: one(warehouses, {
+    fields: [userWarehouses.warehouseId],
+    references: [warehouses.id],
+  }),
+}));
+
 export const classTypesRelations = relations(classTypes, ({ one, many }) => ({
   parent: one(classTypes, {
     fields: [classTypes.parentId],
@@ -333,7 +840,13 @@ export const insertUserSchema = createInsertSchema(users)
     createdAt: true,
     updatedAt: true,
     deletedAt: true,
+    deletedBy: true,
     lastLogin: true,
+    failedLoginAttempts: true,
+    lockedUntil: true,
+    twoFactorEnabled: true,
+    twoFactorSecret: true,
+    twoFactorLastCounter: true,
   })
   .extend({
     password: z.string().min(6),
@@ -349,6 +862,9 @@ export const insertProductSchema = createInsertSchema(products)
     createdBy: true,
     updatedBy: true,
     deletedBy: true,
+  })
+  .extend({
+    valuationMethod: z.enum(VALUATION_METHODS).nullish(),
   });
 
 export const insertProductCategorySchema = createInsertSchema(productCategories)
@@ -361,6 +877,9 @@ export const insertProductCategorySchema = createInsertSchema(productCategories)
     updatedBy: true,
     deletedBy: true,
     transactionCount: true,
+  })
+  .extend({
+    negativeStockPolicy: z.enum(NEGATIVE_STOCK_POLICIES).nullish(),
   });
 
 export const insertUnitOfMeasureSchema = createInsertSchema(unitsOfMeasure)
@@ -380,26 +899,257 @@ export const insertInventorySchema = createInsertSchema(inventory)
     updatedAt: true,
   });
 
+// Reference types the documents post under; a movement entered by hand may not claim one
+export const DOCUMENT_REFERENCE_TYPES = ["ORDER", "TRANSFER", "ADJUSTMENT", "COUNT"] as const;
+export type DocumentReferenceType = typeof DOCUMENT_REFERENCE_TYPES[number];
+
 export const insertStockMovementSchema = createInsertSchema(stockMovements)
   .omit({
     id: true,
     createdAt: true,
+  })
+  .omit({
+    lotId: true,
+    totalCost: true,
+  })
+  .extend({
+    direction: z.enum(["IN", "OUT", "MOVE"]),
+    // Cost of each received unit; defaults to the product cost, and standard-costed products always use it.
+    // OUT and MOVE movements are costed from the cost layers.
+    unitCost: z.coerce.number().min(0, "Cost cannot be negative").transform(String).nullish(),
+    quantity: z.coerce.number().positive("Quantity must be greater than zero").transform(String),
+    idempotencyKey: z.string().trim().min(1).max(100).nullish(),
+    referenceType: z
+      .string()
+      .trim()
+      .max(50)
+      .refine((type) => !DOCUMENT_REFERENCE_TYPES.includes(type.toUpperCase() as DocumentReferenceType), {
+        message: "Movements of orders, transfers, adjustments and counts are posted by the document itself",
+      })
+      .nullish(),
+    // Lots are named by number; an IN with a new number creates the lot
+    lotNumber: z.string().trim().min(1).max(50).nullish(),
+    expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullish(),
+    // Units of a serialized product, one per unit of quantity
+    serialNumbers: z.array(z.string().trim().min(1).max(100)).nullish(),
+  })
+  .refine((movement) => new Set(movement.serialNumbers ?? []).size === (movement.serialNumbers?.length ?? 0), {
+    message: "Serial numbers must be unique",
+    path: ["serialNumbers"],
+  })
+  .refine((movement) => movement.direction !== "MOVE" || movement.fromLocationId !== movement.toLocationId, {
+    message: "A move needs different from and to locations",
+    path: ["toLocationId"],
   });
 
-export const insertOrderSchema = createInsertSchema(orders)
+export const insertWarehouseLocationSchema = createInsertSchema(warehouseLocations)
   .omit({
     id: true,
+    warehouseId: true,
+    path: true,
     createdAt: true,
     updatedAt: true,
-    createdBy: true,
-    updatedBy: true,
+  })
+  .extend({
+    level: z.enum(LOCATION_LEVELS),
+    code: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9]+$/, "Use letters and digits only"),
+    locationType: z.enum(LOCATION_TYPES).default("PICK"),
+    capacity: z.coerce.number().positive().transform(String).nullish(),
+  });
+
+export const updateWarehouseLocationSchema = insertWarehouseLocationSchema
+  .pick({ name: true, locationType: true, capacity: true, isActive: true })
+  .partial();
+
+// A customer is saved together with its contacts and addresses, which replace the existing ones
+export const insertCustomerSchema = createInsertSchema(customers)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+    deletedAt: true,
+    deletedBy: true,
+  })
+  .extend({
+    code: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9-]+$/, "Use letters, digits and dashes only"),
+    name: z.string().trim().min(1).max(100),
+    paymentTerms: z.enum(PAYMENT_TERMS).default("NET_30"),
+    creditLimit: z.coerce.number().min(0).transform(String).nullish(),
+    contacts: z.array(createInsertSchema(customerContacts).omit({ id: true, customerId: true }).extend({
+      name: z.string().trim().min(1).max(100),
+      email: z.string().email().nullish(),
+    })).default([]),
+    addresses: z.array(createInsertSchema(customerAddresses).omit({ id: true, customerId: true }).extend({
+      addressType: z.enum(CUSTOMER_ADDRESS_TYPES),
+      address: z.string().trim().min(1),
+    })).default([]),
+  })
+  .refine((customer) => customer.contacts.filter((contact) => contact.isPrimary).length <= 1, {
+    message: "Only one contact can be the primary contact",
+    path: ["contacts"],
+  })
+  .refine((customer) => CUSTOMER_ADDRESS_TYPES.every((type) =>
+    customer.addresses.filter((address) => address.addressType === type && address.isDefault).length <= 1
+  ), {
+    message: "Only one shipping and one billing address can be the default",
+    path: ["addresses"],
   });
 
+// Prices and amounts are set by the server from the catalog, so a line only says what and how much
 export const insertOrderItemSchema = createInsertSchema(orderItems)
+  .pick({
+    productId: true,
+    quantity: true,
+    discountPercent: true,
+    taxRate: true,
+    notes: true,
+  })
+  .extend({
+    productId: z.number().int(),
+    quantity: z.coerce.number().positive("Quantity must be greater than zero").transform(String),
+    discountPercent: z.coerce.number().min(0).max(100).default(0).transform(String),
+    taxRate: z.coerce.number().min(0).max(100).default(0).transform(String),
+  });
+
+export const insertOrderSchema = createInsertSchema(orders)
   .omit({
     id: true,
+    subtotal: true,
+    discountAmount: true,
+    taxAmount: true,
+    totalAmount: true,
+    createdAt: true,
+    updatedAt: true,
+    createdBy: true,
+    updatedBy: true,
+  })
+  .extend({
+    status: z.enum(ORDER_INITIAL_STATUSES).default("DRAFT"),
+    orderType: z.enum(ORDER_TYPES).default("OUTBOUND"),
+    items: z.array(insertOrderItemSchema).default([]),
+  })
+  .refine((order) => order.orderType !== "TRANSFER" || (!!order.warehouseId && !!order.destinationWarehouseId), {
+    message: "A transfer order needs a source and a destination warehouse",
+    path: ["destinationWarehouseId"],
+  })
+  .refine((order) => order.orderType === "TRANSFER" ? order.warehouseId !== order.destinationWarehouseId : !order.destinationWarehouseId, {
+    message: "Only transfer orders have a destination, and it must differ from the source warehouse",
+    path: ["destinationWarehouseId"],
+  });
+
+// The order type and lines are not part of the header; lines are edited on their own
+export const updateOrderSchema = createInsertSchema(orders)
+  .pick({
+    customerId: true,
+    warehouseId: true,
+    destinationWarehouseId: true,
+    notes: true,
+    shippingAddress: true,
+    billingAddress: true,
+  })
+  .partial();
+
+export const updateOrderItemSchema = insertOrderItemSchema
+  .omit({ productId: true })
+  .partial();
+
+export const insertTransferSchema = createInsertSchema(transfers)
+  .pick({
+    sourceWarehouseId: true,
+    destinationWarehouseId: true,
+    notes: true,
+  })
+  .extend({
+    lines: z.array(z.object({
+      productId: z.number().int(),
+      quantity: z.coerce.number().positive("Quantity must be greater than zero").transform(String),
+    })).min(1, "Add at least one line"),
+  })
+  .refine((transfer) => transfer.sourceWarehouseId !== transfer.destinationWarehouseId, {
+    message: "Source and destination must be different warehouses",
+    path: ["destinationWarehouseId"],
+  });
+
+export const receiveTransferSchema = z.object({
+  lines: z.array(z.object({
+    lineId: z.number().int(),
+    quantity: z.coerce.number().min(0),
+    discrepancyNotes: z.string().trim().max(500).nullish(),
+  })).default([]),
+  // Close the transfer even if some lines are short; the remainder is recorded as a discrepancy
+  close: z.boolean().default(false),
+}).refine((receipt) => receipt.lines.length > 0 || receipt.close, {
+  message: "Receive at least one line or close the transfer",
+  path: ["lines"],
+});
+
+export const insertCountSessionSchema = createInsertSchema(countSessions)
+  .pick({
+    warehouseId: true,
+    locationId: true,
+    categoryId: true,
+    notes: true,
+  })
+  .extend({
+    scope: z.enum(COUNT_SCOPES),
+    abcClass: z.enum(ABC_CLASSES).nullish(),
+  })
+  .refine((session) => session.scope !== "LOCATION" || !!session.locationId, {
+    message: "Choose the location to count",
+    path: ["locationId"],
+  })
+  .refine((session) => session.scope !== "CATEGORY" || !!session.categoryId, {
+    message: "Choose the category to count",
+    path: ["categoryId"],
+  })
+  .refine((session) => session.scope !== "ABC" || !!session.abcClass, {
+    message: "Choose the ABC class to count",
+    path: ["abcClass"],
+  });
+
+export const countEntriesSchema = z.object({
+  entries: z.array(z.object({
+    lineId: z.number().int(),
+    quantity: z.coerce.number().min(0, "Counted quantity cannot be negative"),
+  })).min(1, "Enter at least one count"),
+});
+
+export const insertAdjustmentReasonSchema = createInsertSchema(adjustmentReasons)
+  .pick({
+    code: true,
+    name: true,
+    description: true,
+    isActive: true,
+  })
+  .extend({
+    code: z.string().trim().min(1).max(30).regex(/^[A-Z0-9_]+$/, "Use upper-case letters, digits and underscores"),
+    name: z.string().trim().min(1).max(100),
+  });
+
+export const updateAdjustmentReasonSchema = insertAdjustmentReasonSchema.omit({ code: true }).partial();
+
+export const insertAdjustmentSchema = createInsertSchema(adjustments)
+  .pick({
+    warehouseId: true,
+    reasonCode: true,
+    notes: true,
+  })
+  .extend({
+    idempotencyKey: z.string().trim().min(1).max(100).nullish(),
+    lines: z.array(z.object({
+      productId: z.number().int(),
+      direction: z.enum(["IN", "OUT"]),
+      quantity: z.coerce.number().positive("Quantity must be greater than zero").transform(String),
+      locationId: z.number().int().nullish(),
+      lotNumber: z.string().trim().min(1).max(50).nullish(),
+      expiryDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullish(),
+    })).min(1, "Add at least one line"),
   });
 
+export const rejectAdjustmentSchema = z.object({
+  reason: z.string().trim().min(1, "Say why the adjustment is rejected").max(500),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -414,16 +1164,121 @@ export type UnitOfMeasure = typeof unitsOfMeasure.$inferSelect;
 export type InsertUnitOfMeasure = z.infer<typeof insertUnitOfMeasureSchema>;
 
 export type Inventory = typeof inventory.$inferSelect;
+// Available to promise: quantity - reservedQuantity, or zero for quarantined or expired stock.
+// locationPath is null for unassigned stock; lot fields are null for stock without a lot.
+export type InventoryWithAvailability = Inventory & {
+  availableQuantity: string;
+  locationPath: string | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+};
+
+export type Lot = typeof lots.$inferSelect;
+
+// One pick of an outbound FEFO allocation: soonest-expiring lots first
+export type FefoPick = {
+  locationId: number | null;
+  locationPath: string | null;
+  lotId: number | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+  quantity: number;
+};
+
+// Stock of a lot that expires within the report window, or already has
+export type NearExpiryItem = {
+  productId: number;
+  productName: string;
+  sku: string;
+  warehouseId: string;
+  locationPath: string | null;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: string;
+  daysToExpiry: number;
+};
+export type SerialNumber = typeof serialNumbers.$inferSelect;
+export type CostLayer = typeof costLayers.$inferSelect;
+
+// Stock and its value at a point in time, per warehouse and product category
+export type ValuationReportRow = {
+  warehouseId: string;
+  warehouseName: string;
+  categoryId: number | null;
+  categoryName: string | null;
+  quantity: string;
+  value: string;
+};
+
+// Where a serial is now, and every movement that carried it, oldest first
+export type SerialLookup = SerialNumber & {
+  productName: string;
+  sku: string;
+  locationPath: string | null;
+  lotNumber: string | null;
+  history: (StockMovement & { fromLocationPath: string | null; toLocationPath: string | null; lotNumber: string | null })[];
+};
 export type InsertInventory = z.infer<typeof insertInventorySchema>;
 
 export type StockMovement = typeof stockMovements.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 
 export type Order = typeof orders.$inferSelect;
+export type OrderWithCustomer = Order & { customerName: string | null };
+export type Customer = typeof customers.$inferSelect;
+export type CustomerContact = typeof customerContacts.$inferSelect;
+export type CustomerAddress = typeof customerAddresses.$inferSelect;
+export type CustomerWithDetails = Customer & { contacts: CustomerContact[]; addresses: CustomerAddress[] };
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
 
 export type OrderItem = typeof orderItems.$inferSelect;
+export type StockReservation = typeof stockReservations.$inferSelect;
+export type OrderStatusHistoryEntry = typeof orderStatusHistory.$inferSelect & { changedByName: string | null };
 export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type UpdateOrderItem = z.infer<typeof updateOrderItemSchema>;
+
+export type Transfer = typeof transfers.$inferSelect;
+export type TransferLine = typeof transferLines.$inferSelect;
+export type TransferLineWithLot = TransferLine & { lotNumber: string | null };
+export type TransferWithLines = Transfer & { lines: TransferLineWithLot[] };
+export type InsertTransfer = z.infer<typeof insertTransferSchema>;
+
+export type AdjustmentReason = typeof adjustmentReasons.$inferSelect;
+export type InsertAdjustmentReason = z.infer<typeof insertAdjustmentReasonSchema>;
+export type UpdateAdjustmentReason = z.infer<typeof updateAdjustmentReasonSchema>;
+export type Adjustment = typeof adjustments.$inferSelect;
+export type AdjustmentLine = typeof adjustmentLines.$inferSelect;
+// Attachment without its content, as listed on the document
+export type AdjustmentAttachmentInfo = Omit<typeof adjustmentAttachments.$inferSelect, "content">;
+export type AdjustmentAttachment = typeof adjustmentAttachments.$inferSelect;
+export type AdjustmentWithLines = Adjustment & {
+  lines: AdjustmentLine[];
+  attachments: AdjustmentAttachmentInfo[];
+};
+export type InsertAdjustment = z.infer<typeof insertAdjustmentSchema>;
+
+export type CountSession = typeof countSessions.$inferSelect;
+export type CountLine = typeof countLines.$inferSelect;
+export type CountEntry = typeof countEntries.$inferSelect;
+// Line as returned to clients. Expected quantity and variance are withheld while the
+// session is COUNTING so counts stay blind.
+export type CountLineDetail = Omit<CountLine, "expectedQuantity"> & {
+  expectedQuantity: string | null;
+  productName: string;
+  sku: string;
+  locationPath: string | null;
+  lotNumber: string | null;
+  varianceValue: string | null;
+  // Different counters' latest counts disagree
+  hasDiscrepancy: boolean;
+  entries: CountEntry[];
+};
+export type CountSessionWithLines = CountSession & { lines: CountLineDetail[] };
+export type InsertCountSession = z.infer<typeof insertCountSessionSchema>;
+export type CountEntries = z.infer<typeof countEntriesSchema>;
+export type ReceiveTransfer = z.infer<typeof receiveTransferSchema>;
 
 // Insert schema for warehouses
 export const insertWarehouseSchema = createInsertSchema(warehouses)
@@ -431,9 +1286,28 @@ export const insertWarehouseSchema = createInsertSchema(warehouses)
     createdAt: true,
     updatedAt: true,
     deletedAt: true,
+    deletedBy: true,
+  })
+  .extend({
+    negativeStockPolicy: z.enum(NEGATIVE_STOCK_POLICIES).optional(),
+    countApprovalValue: z.coerce.number().min(0).transform(String).nullish(),
+    countApprovalPercent: z.coerce.number().min(0).max(999).transform(String).nullish(),
+    adjustmentApprovalValue: z.coerce.number().min(0).transform(String).nullish(),
   });
 
 export type Warehouse = typeof warehouses.$inferSelect;
+export type WarehouseLocation = typeof warehouseLocations.$inferSelect;
+// Location with the on-hand quantity stored in it, for the location browser
+export type WarehouseLocationWithStock = WarehouseLocation & { quantity: string };
+export type InsertWarehouseLocation = z.infer<typeof insertWarehouseLocationSchema>;
+export type UpdateWarehouseLocation = z.infer<typeof updateWarehouseLocationSchema>;
+export type UserWarehouse = typeof userWarehouses.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = typeof auditLog.$inferInsert;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
 export type InsertWarehouse = z.infer<typeof insertWarehouseSchema>;
 export type ClassType = typeof classTypes.$inferSelect;
 export type TuOrientationType = typeof tuOrientationTypes.$inferSelect;